@@ -2,12 +2,21 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
-import { PosthogModule } from '@posthog/posthog';
+import { PosthogModule, ApiWriteRequest, posthogOptionsFromConfig } from '@posthog/posthog';
 import { ItemsModule } from './items/items.module';
 import { Item } from './items/entities/item.entity';
-import { User } from '@common/common';
-import { ConfigModule } from '@nestjs/config';
+import { ItemRevision } from './items/entities/item-revision.entity';
+import { ItemShare } from './items/entities/item-share.entity';
+import { MetadataSchema } from './metadata-schemas/entities/metadata-schema.entity';
+import { MetadataSchemasModule } from './metadata-schemas/metadata-schemas.module';
+import { Tag } from './tags/entities/tag.entity';
+import { TagsModule } from './tags/tags.module';
+import { Collection } from './collections/entities/collection.entity';
+import { CollectionsModule } from './collections/collections.module';
+import { User, ApiKey } from '@common/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 
 @Module({
     imports: [
@@ -21,18 +30,25 @@ import { JwtStrategy } from './strategies/jwt.strategy';
             username: process.env.DB_USERNAME || 'postgres',
             password: process.env.DB_PASSWORD || 'postgres',
             database: process.env.DB_NAME || 'posthog_demo',
-            entities: [Item, User],
+            entities: [Item, ItemRevision, ItemShare, MetadataSchema, Tag, Collection, User, ApiKey, ApiWriteRequest],
             synchronize: process.env.NODE_ENV !== 'production', // Auto-sync in dev
         }),
-        TypeOrmModule.forFeature([User]),
+        TypeOrmModule.forFeature([User, ApiKey]),
         PassportModule,
         JwtModule.register({
             secret: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
             signOptions: { expiresIn: '7d' },
         }),
-        PosthogModule,
+        PosthogModule.forRootAsync({
+            globalInterceptor: true,
+            inject: [ConfigService],
+            useFactory: (config: ConfigService) => posthogOptionsFromConfig(config),
+        }),
         ItemsModule,
+        MetadataSchemasModule,
+        TagsModule,
+        CollectionsModule,
     ],
-    providers: [JwtStrategy],
+    providers: [JwtStrategy, ApiKeyStrategy],
 })
 export class AppModule {}
@@ -0,0 +1,180 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, Query, HttpCode, HttpStatus, UseGuards, Request, ValidationPipe, ParseIntPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { CollectionsService } from './collections.service';
+import { CreateCollectionDto } from './dto/create-collection.dto';
+import { UpdateCollectionDto } from './dto/update-collection.dto';
+import { CollectionItemsDto } from './dto/collection-items.dto';
+import { CollectionResponseDto } from './dto/collection-response.dto';
+import { ListItemsQueryDto } from '../items/dto/list-items-query.dto';
+import { PaginatedItemsResponseDto } from '../items/dto/paginated-items-response.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard, Permissions } from '@common/common';
+
+@ApiTags('collections')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('items:read')
+@ApiBearerAuth('JWT-auth')
+@Controller('collections')
+@ApiResponse({
+    status: 400,
+    description: 'Bad request - validation failed',
+})
+@ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
+})
+export class CollectionsController {
+    constructor(private readonly collectionsService: CollectionsService) {}
+
+    @Post()
+    @Permissions('items:write')
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({
+        summary: 'Create a collection',
+        description: 'Creates a private collection owned by the current user',
+    })
+    @ApiBody({
+        type: CreateCollectionDto,
+    })
+    @ApiResponse({
+        status: 201,
+        description: 'Collection created',
+        type: CollectionResponseDto,
+    })
+    async create(@Body() createCollectionDto: CreateCollectionDto, @Request() req) {
+        return this.collectionsService.create(createCollectionDto, req.user.id);
+    }
+
+    @Get()
+    @ApiOperation({
+        summary: 'List your collections',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Your collections',
+        type: [CollectionResponseDto],
+    })
+    async findAll(@Request() req) {
+        return this.collectionsService.findAll(req.user.id);
+    }
+
+    @Get(':id')
+    @ApiOperation({
+        summary: 'Get a collection',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Collection',
+        type: CollectionResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Collection not found',
+    })
+    async findOne(@Param('id', ParseIntPipe) id: number, @Request() req) {
+        return this.collectionsService.findOne(id, req.user.id);
+    }
+
+    @Patch(':id')
+    @Permissions('items:write')
+    @ApiOperation({
+        summary: 'Rename or describe a collection',
+    })
+    @ApiBody({
+        type: UpdateCollectionDto,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Collection updated',
+        type: CollectionResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Collection not found',
+    })
+    async update(@Param('id', ParseIntPipe) id: number, @Body() updateCollectionDto: UpdateCollectionDto, @Request() req) {
+        return this.collectionsService.update(id, updateCollectionDto, req.user.id);
+    }
+
+    @Delete(':id')
+    @Permissions('items:write')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Delete a collection',
+        description: 'Deletes the collection. The items in it are not affected.',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Collection deleted',
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Collection not found',
+    })
+    async remove(@Param('id', ParseIntPipe) id: number, @Request() req) {
+        await this.collectionsService.remove(id, req.user.id);
+    }
+
+    @Get(':id/items')
+    @ApiOperation({
+        summary: 'List items in a collection',
+        description: 'Same pagination, sorting and filters as GET /items',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Page of items',
+        type: PaginatedItemsResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Collection not found',
+    })
+    async findItems(
+        @Param('id', ParseIntPipe) id: number,
+        @Query(new ValidationPipe({ transform: true })) query: ListItemsQueryDto,
+        @Request() req,
+    ) {
+        return this.collectionsService.findItems(id, query, req.user.id);
+    }
+
+    @Post(':id/items')
+    @Permissions('items:write')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Add items to a collection',
+        description: 'Items already in the collection are ignored',
+    })
+    @ApiBody({
+        type: CollectionItemsDto,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Collection updated',
+        type: CollectionResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Collection not found',
+    })
+    async addItems(@Param('id', ParseIntPipe) id: number, @Body() collectionItemsDto: CollectionItemsDto, @Request() req) {
+        return this.collectionsService.addItems(id, collectionItemsDto.itemIds, req.user.id);
+    }
+
+    @Delete(':id/items/:itemId')
+    @Permissions('items:write')
+    @ApiOperation({
+        summary: 'Remove an item from a collection',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Collection updated',
+        type: CollectionResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Collection not found',
+    })
+    async removeItem(@Param('id', ParseIntPipe) id: number, @Param('itemId', ParseIntPipe) itemId: number, @Request() req) {
+        return this.collectionsService.removeItem(id, itemId, req.user.id);
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CollectionsController } from './collections.controller';
+import { CollectionsService } from './collections.service';
+import { Collection } from './entities/collection.entity';
+import { ItemsModule } from '../items/items.module';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Collection]), ItemsModule],
+    controllers: [CollectionsController],
+    providers: [CollectionsService],
+})
+export class CollectionsModule {}
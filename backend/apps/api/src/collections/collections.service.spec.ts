@@ -0,0 +1,68 @@
+import { DataSource, Repository } from 'typeorm';
+import { User, ApiKey } from '@common/common';
+import { CollectionsService } from './collections.service';
+import { Collection } from './entities/collection.entity';
+import { Item } from '../items/entities/item.entity';
+import { ItemShare } from '../items/entities/item-share.entity';
+import { ItemRevision } from '../items/entities/item-revision.entity';
+import { ItemAccessService } from '../items/item-access.service';
+import { ItemsService } from '../items/items.service';
+import { Tag } from '../tags/entities/tag.entity';
+
+describe('CollectionsService', () => {
+    let dataSource: DataSource;
+    let collectionsRepository: Repository<Collection>;
+    let service: CollectionsService;
+    let executed: { query: string; parameters: any[] }[];
+
+    beforeAll(async () => {
+        // Metadata only, no connection: the generated SQL is captured instead of run
+        dataSource = new DataSource({ type: 'postgres', entities: [Item, ItemRevision, ItemShare, Tag, Collection, User, ApiKey] });
+        await (dataSource as any).buildMetadatas();
+    });
+
+    beforeEach(() => {
+        executed = [];
+        jest.spyOn(dataSource, 'createQueryRunner').mockReturnValue({
+            query: async (query: string, parameters: any[]) => {
+                executed.push({ query, parameters });
+                return { records: [{ collectionId: 1, count: '2' }] };
+            },
+            release: async () => undefined,
+        } as any);
+
+        collectionsRepository = dataSource.getRepository(Collection);
+        jest.spyOn(collectionsRepository, 'find').mockResolvedValue([
+            { id: 1, name: 'Reading list', ownerId: 7 },
+            { id: 2, name: 'Empty', ownerId: 7 },
+        ] as Collection[]);
+
+        const itemsRepository = dataSource.getRepository(Item);
+        service = new CollectionsService(
+            collectionsRepository,
+            {} as ItemsService,
+            new ItemAccessService(itemsRepository, dataSource.getRepository(ItemShare)),
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('adds item counts to the collections', async () => {
+        await expect(service.findAll(7)).resolves.toEqual([
+            expect.objectContaining({ id: 1, itemCount: 2 }),
+            expect.objectContaining({ id: 2, itemCount: 0 }),
+        ]);
+    });
+
+    it('counts only items the user can still read', async () => {
+        await service.findAll(7);
+
+        const [{ query, parameters }] = executed;
+        expect(query).toContain(`"item"."visibility" = 'public'`);
+        expect(query).toContain('EXISTS (SELECT 1 FROM item_shares grantee');
+        expect(query).toContain('"item"."deletedAt" IS NULL');
+        expect(parameters).toContain(7);
+    });
+});
@@ -0,0 +1,150 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Not } from 'typeorm';
+import { Collection } from './entities/collection.entity';
+import { CreateCollectionDto } from './dto/create-collection.dto';
+import { UpdateCollectionDto } from './dto/update-collection.dto';
+import { Item } from '../items/entities/item.entity';
+import { ItemsService } from '../items/items.service';
+import { ItemAccessService } from '../items/item-access.service';
+import { ListItemsQueryDto } from '../items/dto/list-items-query.dto';
+
+@Injectable()
+export class CollectionsService {
+    constructor(
+        @InjectRepository(Collection)
+        private collectionsRepository: Repository<Collection>,
+        private itemsService: ItemsService,
+        private itemAccessService: ItemAccessService,
+    ) {}
+
+    async create(dto: CreateCollectionDto, userId: number) {
+        await this.assertNameAvailable(dto.name, userId);
+
+        const collection = await this.collectionsRepository.save(
+            this.collectionsRepository.create({
+                ...dto,
+                ownerId: userId,
+            }),
+        );
+
+        return this.findOne(collection.id, userId);
+    }
+
+    async findAll(userId: number) {
+        const collections = await this.collectionsRepository.find({
+            where: { ownerId: userId },
+            order: { name: 'ASC' },
+        });
+
+        return this.withItemCounts(collections, userId);
+    }
+
+    async findOne(id: number, userId: number) {
+        const [collection] = await this.withItemCounts([await this.getOwned(id, userId)], userId);
+        return collection;
+    }
+
+    async update(id: number, dto: UpdateCollectionDto, userId: number) {
+        const collection = await this.getOwned(id, userId);
+
+        if (dto.name !== undefined && dto.name !== collection.name) {
+            await this.assertNameAvailable(dto.name, userId, id);
+        }
+
+        this.collectionsRepository.merge(collection, dto);
+        await this.collectionsRepository.save(collection);
+        return this.findOne(id, userId);
+    }
+
+    async remove(id: number, userId: number): Promise<void> {
+        const collection = await this.getOwned(id, userId);
+        await this.collectionsRepository.remove(collection);
+    }
+
+    async addItems(id: number, itemIds: number[], userId: number) {
+        await this.getOwned(id, userId);
+
+        // Any item you can read can be collected, including other users' shared and public items
+        const uniqueIds = [...new Set(itemIds)];
+        const found = new Set(await this.itemAccessService.filterReadable(uniqueIds, userId));
+        const missing = uniqueIds.filter((itemId) => !found.has(itemId));
+        if (missing.length > 0) {
+            throw new BadRequestException(`Items not found: ${missing.join(', ')}`);
+        }
+
+        // Items already in the collection are left as they are
+        await this.collectionsRepository.manager
+            .createQueryBuilder()
+            .insert()
+            .into('collection_items', ['collectionId', 'itemId'])
+            .values(uniqueIds.map((itemId) => ({ collectionId: id, itemId })))
+            .orIgnore()
+            .execute();
+
+        return this.findOne(id, userId);
+    }
+
+    async removeItem(id: number, itemId: number, userId: number) {
+        await this.getOwned(id, userId);
+
+        await this.collectionsRepository.manager
+            .createQueryBuilder()
+            .delete()
+            .from('collection_items')
+            .where('"collectionId" = :id AND "itemId" = :itemId', { id, itemId })
+            .execute();
+
+        return this.findOne(id, userId);
+    }
+
+    async findItems(id: number, query: ListItemsQueryDto, userId: number) {
+        await this.getOwned(id, userId);
+        return this.itemsService.findAll({ ...query, collectionId: id }, userId.toString());
+    }
+
+    private async getOwned(id: number, userId: number): Promise<Collection> {
+        const collection = await this.collectionsRepository.findOne({
+            where: { id },
+        });
+
+        // Collections are private, so other users' collections are reported as missing
+        if (!collection || collection.ownerId !== userId) {
+            throw new NotFoundException('Collection not found');
+        }
+
+        return collection;
+    }
+
+    private async assertNameAvailable(name: string, userId: number, exceptId?: number) {
+        const existing = await this.collectionsRepository.findOne({
+            where: { name, ownerId: userId, ...(exceptId ? { id: Not(exceptId) } : {}) },
+        });
+
+        if (existing) {
+            throw new BadRequestException('Collection already exists');
+        }
+    }
+
+    /**
+     * Adds the number of items in each collection, counting only items the user can still read and that are not in the trash.
+     */
+    private async withItemCounts(collections: Collection[], userId: number): Promise<(Collection & { itemCount: number })[]> {
+        if (collections.length === 0) {
+            return [];
+        }
+
+        const qb = this.collectionsRepository.manager
+            .createQueryBuilder(Item, 'item')
+            .innerJoin('collection_items', 'ci', 'ci."itemId" = item.id')
+            .select('ci."collectionId"', 'collectionId')
+            .addSelect('COUNT(*)', 'count')
+            .where('ci."collectionId" IN (:...ids)', { ids: collections.map((collection) => collection.id) });
+        this.itemAccessService.applyReadFilter(qb, userId);
+
+        const rows = await qb.groupBy('ci."collectionId"').getRawMany();
+
+        const counts = new Map(rows.map((row) => [Number(row.collectionId), Number(row.count)]));
+        return collections.map((collection) => ({ ...collection, itemCount: counts.get(collection.id) || 0 }));
+    }
+}
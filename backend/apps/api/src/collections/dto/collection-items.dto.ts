@@ -0,0 +1,15 @@
+import { IsArray, ArrayNotEmpty, ArrayMaxSize, IsInt } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CollectionItemsDto {
+    @ApiProperty({
+        description: 'IDs of the items to add',
+        example: [1, 2, 3],
+        type: [Number],
+    })
+    @IsArray()
+    @ArrayNotEmpty()
+    @ArrayMaxSize(100)
+    @IsInt({ each: true })
+    itemIds: number[];
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CollectionResponseDto {
+    @ApiProperty({
+        description: 'Unique identifier of the collection',
+        example: 1,
+    })
+    id: number;
+
+    @ApiProperty({
+        description: 'Name of the collection',
+        example: 'Home office',
+    })
+    name: string;
+
+    @ApiProperty({
+        description: 'Description of the collection',
+        example: 'Things for the desk at home',
+        nullable: true,
+    })
+    description: string | null;
+
+    @ApiProperty({
+        description: 'ID of the user who owns the collection',
+        example: 1,
+    })
+    ownerId: number;
+
+    @ApiProperty({
+        description: 'Number of items in the collection that you can read (trashed items excluded)',
+        example: 4,
+    })
+    itemCount: number;
+
+    @ApiProperty({
+        description: 'Creation date',
+        example: '2024-01-15T10:30:00.000Z',
+    })
+    createdAt: Date;
+
+    @ApiProperty({
+        description: 'Last update date',
+        example: '2024-01-15T10:30:00.000Z',
+    })
+    updatedAt: Date;
+}
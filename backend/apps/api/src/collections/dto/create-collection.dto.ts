@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateCollectionDto {
+    @ApiProperty({
+        description: 'Name of the collection, unique among your collections',
+        example: 'Home office',
+        maxLength: 100,
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({
+        description: 'Description of the collection',
+        example: 'Things for the desk at home',
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    description?: string;
+}
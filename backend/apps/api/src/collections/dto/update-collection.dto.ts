@@ -0,0 +1,26 @@
+import { IsString, IsOptional, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateCollectionDto {
+    @ApiProperty({
+        description: 'Name of the collection, unique among your collections',
+        example: 'Home office',
+        maxLength: 100,
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({
+        description: 'Description of the collection',
+        example: 'Things for the desk at home',
+        required: false,
+        nullable: true,
+    })
+    @IsOptional()
+    @IsString()
+    description?: string | null;
+}
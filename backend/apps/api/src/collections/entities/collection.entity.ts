@@ -0,0 +1,40 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, ManyToMany, JoinColumn, JoinTable, Unique } from 'typeorm';
+import { User } from '@common/common';
+import { Item } from '../../items/entities/item.entity';
+
+/**
+ * A user's private, named group of items
+ */
+@Entity('collections')
+@Unique(['ownerId', 'name'])
+export class Collection {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    name: string;
+
+    @Column({ nullable: true })
+    description: string;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'ownerId' })
+    owner: User;
+
+    @Column()
+    ownerId: number;
+
+    @ManyToMany(() => Item)
+    @JoinTable({
+        name: 'collection_items',
+        joinColumn: { name: 'collectionId' },
+        inverseJoinColumn: { name: 'itemId' },
+    })
+    items: Item[];
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { ItemAccessLevel } from '../item-access.service';
+
+export const ITEM_ACCESS_METADATA = 'items:access';
+
+/**
+ * Require at least this access to the item in the `:id` route param. Enforced by ItemAccessGuard.
+ *
+ * @example
+ * @ItemAccess('write')
+ */
+export const ItemAccess = (level: ItemAccessLevel) => SetMetadata(ITEM_ACCESS_METADATA, level);
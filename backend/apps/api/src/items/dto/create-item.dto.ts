@@ -1,5 +1,6 @@
-import { IsString, IsOptional, IsObject } from 'class-validator';
+import { IsString, IsOptional, IsObject, IsIn } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { ITEM_VISIBILITIES, ItemVisibility } from '../entities/item.entity';
 
 export class CreateItemDto {
     @ApiProperty({
@@ -27,4 +28,14 @@ export class CreateItemDto {
     @IsOptional()
     @IsObject()
     metadata?: Record<string, any>;
+
+    @ApiProperty({
+        description: 'Who can see the item (default: private)',
+        enum: ITEM_VISIBILITIES,
+        example: 'private',
+        required: false,
+    })
+    @IsOptional()
+    @IsIn(ITEM_VISIBILITIES)
+    visibility?: ItemVisibility;
 }
@@ -0,0 +1,26 @@
+import { IsOptional, IsIn, IsInt } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ITEM_TRANSFER_FORMATS, ItemTransferFormat } from './import-items-query.dto';
+
+export class ExportItemsQueryDto {
+    @ApiProperty({
+        description: 'File format',
+        enum: ITEM_TRANSFER_FORMATS,
+        default: 'csv',
+        required: false,
+    })
+    @IsOptional()
+    @IsIn(ITEM_TRANSFER_FORMATS)
+    format?: ItemTransferFormat = 'csv';
+
+    @ApiProperty({
+        description: 'Only items created by this user',
+        example: 1,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    createdById?: number;
+}
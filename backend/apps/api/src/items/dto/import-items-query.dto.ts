@@ -0,0 +1,40 @@
+import { IsOptional, IsIn, IsBoolean } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const ITEM_TRANSFER_FORMATS = ['csv', 'ndjson'] as const;
+export type ItemTransferFormat = (typeof ITEM_TRANSFER_FORMATS)[number];
+
+export const IMPORT_CONFLICT_STRATEGIES = ['skip', 'upsert', 'fail'] as const;
+export type ImportConflictStrategy = (typeof IMPORT_CONFLICT_STRATEGIES)[number];
+
+export class ImportItemsQueryDto {
+    @ApiProperty({
+        description: 'File format. Detected from the file name or content type when omitted.',
+        enum: ITEM_TRANSFER_FORMATS,
+        required: false,
+    })
+    @IsOptional()
+    @IsIn(ITEM_TRANSFER_FORMATS)
+    format?: ItemTransferFormat;
+
+    @ApiProperty({
+        description: 'What to do with rows whose name matches an existing item: skip the row, update the item, or reject the import',
+        enum: IMPORT_CONFLICT_STRATEGIES,
+        default: 'fail',
+        required: false,
+    })
+    @IsOptional()
+    @IsIn(IMPORT_CONFLICT_STRATEGIES)
+    onConflict?: ImportConflictStrategy = 'fail';
+
+    @ApiProperty({
+        description: 'Validate the file and report what would happen without writing anything',
+        default: false,
+        required: false,
+    })
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true' || value === '1')
+    @IsBoolean()
+    dryRun?: boolean = false;
+}
@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImportRowErrorDto {
+    @ApiProperty({
+        description: 'Row number in the file (CSV: data row after the header, NDJSON: line)',
+        example: 3,
+    })
+    row: number;
+
+    @ApiProperty({
+        description: 'Field the error is about, if any (a JSON Pointer such as /metadata/price for metadata schema errors)',
+        example: 'name',
+        required: false,
+    })
+    field?: string;
+
+    @ApiProperty({
+        description: 'What is wrong with the row',
+        example: 'name must be a string',
+    })
+    message: string;
+}
+
+export class ImportResultDto {
+    @ApiProperty({
+        description: 'Whether this was a dry run (nothing written)',
+        example: false,
+    })
+    dryRun: boolean;
+
+    @ApiProperty({
+        description: 'Format the file was read as',
+        example: 'csv',
+    })
+    format: string;
+
+    @ApiProperty({
+        description: 'Number of data rows in the file',
+        example: 120,
+    })
+    total: number;
+
+    @ApiProperty({
+        description: 'Rows that create a new item',
+        example: 100,
+    })
+    created: number;
+
+    @ApiProperty({
+        description: 'Rows that update an existing item with the same name (onConflict=upsert)',
+        example: 15,
+    })
+    updated: number;
+
+    @ApiProperty({
+        description: 'Rows that match an existing item and were skipped, or would not change it',
+        example: 5,
+    })
+    skipped: number;
+
+    @ApiProperty({
+        description: 'Row errors. When there are any, nothing is imported.',
+        type: [ImportRowErrorDto],
+    })
+    errors: ImportRowErrorDto[];
+}
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { TagResponseDto } from '../../tags/dto/tag-response.dto';
 
 export class ItemResponseDto {
     @ApiProperty({
@@ -41,6 +42,32 @@ export class ItemResponseDto {
     })
     updatedAt: Date;
 
+    @ApiProperty({
+        description: 'Version of the item, required when updating it',
+        example: 1,
+    })
+    version: number;
+
+    @ApiProperty({
+        description: 'Who can see the item',
+        enum: ['private', 'shared', 'public'],
+        example: 'private',
+    })
+    visibility: string;
+
+    @ApiProperty({
+        description: 'Date the item was moved to the trash, null unless listed from the trash',
+        example: null,
+        nullable: true,
+    })
+    deletedAt: Date | null;
+
+    @ApiProperty({
+        description: 'Tags of the item',
+        type: [TagResponseDto],
+    })
+    tags: TagResponseDto[];
+
     @ApiProperty({
         description: 'User who created the item',
         required: false,
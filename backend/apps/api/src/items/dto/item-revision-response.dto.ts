@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ItemRevisionResponseDto {
+    @ApiProperty({
+        description: 'Unique identifier of the revision',
+        example: 1,
+    })
+    id: number;
+
+    @ApiProperty({
+        description: 'ID of the item',
+        example: 1,
+    })
+    itemId: number;
+
+    @ApiProperty({
+        description: 'Item version produced by the change',
+        example: 2,
+    })
+    version: number;
+
+    @ApiProperty({
+        description: 'Changed field',
+        example: 'description',
+    })
+    field: string;
+
+    @ApiProperty({
+        description: 'Value before the change',
+        example: 'This is a sample item description',
+        nullable: true,
+    })
+    previousValue: any;
+
+    @ApiProperty({
+        description: 'Value after the change',
+        example: 'This is an updated item description',
+        nullable: true,
+    })
+    newValue: any;
+
+    @ApiProperty({
+        description: 'ID of the user who made the change',
+        example: 1,
+        nullable: true,
+    })
+    changedById: number | null;
+
+    @ApiProperty({
+        description: 'Date of the change',
+        example: '2024-01-15T11:00:00.000Z',
+    })
+    changedAt: Date;
+}
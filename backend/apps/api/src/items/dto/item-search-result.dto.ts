@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ItemResponseDto } from './item-response.dto';
+
+export class ItemSearchHighlightsDto {
+    @ApiProperty({
+        description: 'Name with matching words wrapped in <mark> tags (HTML-escaped)',
+        example: 'Wireless <mark>Laptop</mark> Stand',
+    })
+    name: string;
+
+    @ApiProperty({
+        description: 'Fragments of the description around the matches, wrapped in <mark> tags (HTML-escaped)',
+        example: 'Keeps your <mark>laptop</mark> cool',
+        nullable: true,
+    })
+    description: string | null;
+}
+
+export class ItemSearchResultDto extends ItemResponseDto {
+    @ApiProperty({
+        description: 'Relevance score, higher is better',
+        example: 0.6079271,
+    })
+    rank: number;
+
+    @ApiProperty({
+        description: 'Highlighted snippets',
+        type: ItemSearchHighlightsDto,
+    })
+    highlights: ItemSearchHighlightsDto;
+}
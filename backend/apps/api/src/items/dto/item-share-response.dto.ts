@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ItemShareResponseDto {
+    @ApiProperty({
+        description: 'ID of the user the item is shared with',
+        example: 2,
+    })
+    userId: number;
+
+    @ApiProperty({
+        description: 'Email of the user the item is shared with',
+        example: 'colleague@example.com',
+    })
+    email: string;
+
+    @ApiProperty({
+        description: 'Granted role',
+        enum: ['read', 'write'],
+        example: 'read',
+    })
+    role: string;
+
+    @ApiProperty({
+        description: 'Date of the grant',
+        example: '2024-01-15T10:30:00.000Z',
+    })
+    createdAt: Date;
+}
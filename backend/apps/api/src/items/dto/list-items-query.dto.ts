@@ -0,0 +1,145 @@
+import { IsOptional, IsInt, Min, Max, IsIn, IsString, IsDateString, IsObject, IsArray, ArrayMaxSize } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const ITEM_SORT_FIELDS = ['name', 'createdAt', 'updatedAt'] as const;
+export type ItemSortField = (typeof ITEM_SORT_FIELDS)[number];
+
+export class ListItemsQueryDto {
+    @ApiProperty({
+        description: 'Maximum number of items to return',
+        example: 20,
+        default: 20,
+        minimum: 1,
+        maximum: 100,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit?: number = 20;
+
+    @ApiProperty({
+        description: 'Number of items to skip (offset pagination). Ignored when `cursor` is given.',
+        example: 0,
+        default: 0,
+        minimum: 0,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    offset?: number = 0;
+
+    @ApiProperty({
+        description: '`nextCursor` from a previous page (cursor pagination). Must be used with the same sort.',
+        example: 'eyJzIjoiY3JlYXRlZEF0IiwibyI6IkRFU0MiLCJ2IjoiMjAyNC0wMS0xNVQxMDozMDowMC4wMDBaIiwiaWQiOjF9',
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+
+    @ApiProperty({
+        description: 'Field to sort by',
+        enum: ITEM_SORT_FIELDS,
+        default: 'createdAt',
+        required: false,
+    })
+    @IsOptional()
+    @IsIn(ITEM_SORT_FIELDS)
+    sortBy?: ItemSortField = 'createdAt';
+
+    @ApiProperty({
+        description: 'Sort direction',
+        enum: ['ASC', 'DESC'],
+        default: 'DESC',
+        required: false,
+    })
+    @IsOptional()
+    @IsIn(['ASC', 'DESC'])
+    sortOrder?: 'ASC' | 'DESC' = 'DESC';
+
+    @ApiProperty({
+        description: 'Only items created by this user',
+        example: 1,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    createdById?: number;
+
+    @ApiProperty({
+        description: 'Only items created at or after this date',
+        example: '2024-01-01T00:00:00.000Z',
+        required: false,
+    })
+    @IsOptional()
+    @IsDateString()
+    createdAfter?: string;
+
+    @ApiProperty({
+        description: 'Only items created before this date',
+        example: '2024-02-01T00:00:00.000Z',
+        required: false,
+    })
+    @IsOptional()
+    @IsDateString()
+    createdBefore?: string;
+
+    @ApiProperty({
+        description: 'Only items updated at or after this date',
+        example: '2024-01-01T00:00:00.000Z',
+        required: false,
+    })
+    @IsOptional()
+    @IsDateString()
+    updatedAfter?: string;
+
+    @ApiProperty({
+        description: 'Only items updated before this date',
+        example: '2024-02-01T00:00:00.000Z',
+        required: false,
+    })
+    @IsOptional()
+    @IsDateString()
+    updatedBefore?: string;
+
+    @ApiProperty({
+        description: 'Only items that have all of these tags (comma-separated)',
+        example: 'wireless,home office',
+        type: String,
+        required: false,
+    })
+    @IsOptional()
+    @Transform(({ value }) => (Array.isArray(value) ? value : String(value).split(',')).map((tag) => String(tag).trim()).filter(Boolean))
+    @IsArray()
+    @ArrayMaxSize(10)
+    @IsString({ each: true })
+    tags?: string[];
+
+    @ApiProperty({
+        description: 'Only items in this collection (must be one of yours)',
+        example: 1,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    collectionId?: number;
+
+    @ApiProperty({
+        description: 'Only items whose metadata has these values, e.g. `metadata[category]=electronics`',
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        example: { category: 'electronics' },
+        required: false,
+    })
+    @IsOptional()
+    @IsObject()
+    metadata?: Record<string, string>;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ItemResponseDto } from './item-response.dto';
+
+export class PaginatedItemsResponseDto {
+    @ApiProperty({
+        description: 'Items on this page',
+        type: [ItemResponseDto],
+    })
+    data: ItemResponseDto[];
+
+    @ApiProperty({
+        description: 'Number of items matching the filters, across all pages',
+        example: 42,
+    })
+    total: number;
+
+    @ApiProperty({
+        description: 'Page size used',
+        example: 20,
+    })
+    limit: number;
+
+    @ApiProperty({
+        description: 'Offset used, or null when paginating by cursor',
+        example: 0,
+        nullable: true,
+    })
+    offset: number | null;
+
+    @ApiProperty({
+        description: 'Cursor for the next page, or null on the last page',
+        example: 'eyJzIjoiY3JlYXRlZEF0IiwibyI6IkRFU0MiLCJ2IjoiMjAyNC0wMS0xNVQxMDozMDowMC4wMDBaIiwiaWQiOjF9',
+        nullable: true,
+    })
+    nextCursor: string | null;
+}
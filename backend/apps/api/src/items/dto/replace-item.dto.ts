@@ -0,0 +1,13 @@
+import { IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CreateItemDto } from './create-item.dto';
+
+export class ReplaceItemDto extends CreateItemDto {
+    @ApiProperty({
+        description: 'Version of the item the replacement is based on. The update is rejected with 409 if the item has changed since.',
+        example: 1,
+    })
+    @IsInt()
+    @Min(1)
+    version: number;
+}
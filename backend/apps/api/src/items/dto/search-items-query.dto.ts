@@ -0,0 +1,78 @@
+import { IsOptional, IsInt, Min, Max, IsString, MaxLength, IsObject, IsArray, ArrayMaxSize } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SearchItemsQueryDto {
+    @ApiProperty({
+        description: 'Search terms. Every word must match the name or description; the last word also matches as a prefix.',
+        example: 'wireless lap',
+        maxLength: 200,
+        required: true,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(200)
+    q?: string;
+
+    @ApiProperty({
+        description: 'Maximum number of results to return',
+        example: 20,
+        default: 20,
+        minimum: 1,
+        maximum: 100,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit?: number = 20;
+
+    @ApiProperty({
+        description: 'Number of results to skip',
+        example: 0,
+        default: 0,
+        minimum: 0,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    offset?: number = 0;
+
+    @ApiProperty({
+        description: 'Only items that have all of these tags (comma-separated)',
+        example: 'wireless,home office',
+        type: String,
+        required: false,
+    })
+    @IsOptional()
+    @Transform(({ value }) => (Array.isArray(value) ? value : String(value).split(',')).map((tag) => String(tag).trim()).filter(Boolean))
+    @IsArray()
+    @ArrayMaxSize(10)
+    @IsString({ each: true })
+    tags?: string[];
+
+    @ApiProperty({
+        description: 'Only items in this collection (must be one of yours)',
+        example: 1,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    collectionId?: number;
+
+    @ApiProperty({
+        description: 'Only items whose metadata has these values, e.g. `metadata[category]=electronics`',
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        example: { category: 'electronics' },
+        required: false,
+    })
+    @IsOptional()
+    @IsObject()
+    metadata?: Record<string, string>;
+}
@@ -0,0 +1,13 @@
+import { IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ITEM_SHARE_ROLES, ItemShareRole } from '../entities/item-share.entity';
+
+export class ShareItemDto {
+    @ApiProperty({
+        description: 'read: view the item. write: also update and tag it.',
+        enum: ITEM_SHARE_ROLES,
+        example: 'read',
+    })
+    @IsIn(ITEM_SHARE_ROLES)
+    role: ItemShareRole;
+}
@@ -0,0 +1,42 @@
+import { IsString, IsOptional, IsObject, IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateItemDto {
+    @ApiProperty({
+        description: 'Name of the item',
+        example: 'Sample Item',
+        minLength: 1,
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @ApiProperty({
+        description: 'Description of the item',
+        example: 'This is an updated item description',
+        required: false,
+        nullable: true,
+    })
+    @IsOptional()
+    @IsString()
+    description?: string | null;
+
+    @ApiProperty({
+        description: 'Additional metadata for the item',
+        example: { category: 'electronics', price: 89.99 },
+        required: false,
+        nullable: true,
+    })
+    @IsOptional()
+    @IsObject()
+    metadata?: Record<string, any> | null;
+
+    @ApiProperty({
+        description: 'Version of the item the changes are based on. The update is rejected with 409 if the item has changed since.',
+        example: 1,
+    })
+    @IsInt()
+    @Min(1)
+    version: number;
+}
@@ -0,0 +1,13 @@
+import { IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ITEM_VISIBILITIES, ItemVisibility } from '../entities/item.entity';
+
+export class UpdateVisibilityDto {
+    @ApiProperty({
+        description: 'private: only you. shared: you and users you share it with. public: every user can read it.',
+        enum: ITEM_VISIBILITIES,
+        example: 'shared',
+    })
+    @IsIn(ITEM_VISIBILITIES)
+    visibility: ItemVisibility;
+}
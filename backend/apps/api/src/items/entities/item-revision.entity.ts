@@ -0,0 +1,43 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '@common/common';
+import { Item } from './item.entity';
+
+/**
+ * One field-level change made to an item by an update
+ */
+@Entity('item_revisions')
+@Index(['itemId', 'version'])
+export class ItemRevision {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Item, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'itemId' })
+    item: Item;
+
+    @Column()
+    itemId: number;
+
+    // Item version produced by the update
+    @Column()
+    version: number;
+
+    @Column()
+    field: string;
+
+    @Column({ type: 'json', nullable: true })
+    previousValue: any;
+
+    @Column({ type: 'json', nullable: true })
+    newValue: any;
+
+    @ManyToOne(() => User, { nullable: true })
+    @JoinColumn({ name: 'changedById' })
+    changedBy: User;
+
+    @Column({ nullable: true })
+    changedById: number;
+
+    @CreateDateColumn()
+    changedAt: Date;
+}
@@ -0,0 +1,39 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Unique } from 'typeorm';
+import { User } from '@common/common';
+import { Item } from './item.entity';
+
+export const ITEM_SHARE_ROLES = ['read', 'write'] as const;
+export type ItemShareRole = (typeof ITEM_SHARE_ROLES)[number];
+
+/**
+ * Grants another user access to an item that is not private
+ */
+@Entity('item_shares')
+@Unique(['itemId', 'userId'])
+export class ItemShare {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Item, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'itemId' })
+    item: Item;
+
+    @Column()
+    itemId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Column()
+    userId: number;
+
+    @Column({ type: 'enum', enum: ITEM_SHARE_ROLES })
+    role: ItemShareRole;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
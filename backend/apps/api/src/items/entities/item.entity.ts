@@ -1,5 +1,9 @@
-import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, ManyToOne, ManyToMany, JoinColumn, JoinTable, Index } from 'typeorm';
 import { User } from '@common/common';
+import { Tag } from '../../tags/entities/tag.entity';
+
+export const ITEM_VISIBILITIES = ['private', 'shared', 'public'] as const;
+export type ItemVisibility = (typeof ITEM_VISIBILITIES)[number];
 
 @Entity('items')
 export class Item {
@@ -22,9 +26,40 @@ export class Item {
     @Column({ nullable: true })
     createdById: number;
 
+    // private: owner only, shared: owner and users with a share grant, public: every user can read
+    @Column({ type: 'enum', enum: ITEM_VISIBILITIES, default: 'private' })
+    visibility: ItemVisibility;
+
+    @ManyToMany(() => Tag)
+    @JoinTable({
+        name: 'item_tags',
+        joinColumn: { name: 'itemId' },
+        inverseJoinColumn: { name: 'tagId' },
+    })
+    tags: Tag[];
+
     @CreateDateColumn()
     createdAt: Date;
 
     @UpdateDateColumn()
     updatedAt: Date;
+
+    // Set when the item is moved to the trash; trashed items are excluded from queries unless withDeleted is used
+    @DeleteDateColumn({ nullable: true })
+    deletedAt: Date | null;
+
+    // Incremented on every save, used for optimistic concurrency on updates
+    @VersionColumn({ default: 1 })
+    version: number;
+
+    // Full-text search document, name weighted above description. The GIN index is created by ItemsService
+    @Index('IDX_items_search_vector', { synchronize: false })
+    @Column({
+        type: 'tsvector',
+        select: false,
+        nullable: true,
+        generatedType: 'STORED',
+        asExpression: "setweight(to_tsvector('english', coalesce(name, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')",
+    })
+    searchVector: string;
 }
@@ -0,0 +1,38 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ItemAccessService, ItemAccessLevel } from '../item-access.service';
+import { ITEM_ACCESS_METADATA } from '../decorators/item-access.decorator';
+
+/**
+ * Enforces @ItemAccess on routes with an `:id` param. Routes without the decorator are let through.
+ * Items the user cannot see are reported as missing so their existence is not revealed.
+ */
+@Injectable()
+export class ItemAccessGuard implements CanActivate {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly itemAccessService: ItemAccessService,
+    ) {}
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const required = this.reflector.getAllAndOverride<ItemAccessLevel>(ITEM_ACCESS_METADATA, [context.getHandler(), context.getClass()]);
+        if (!required) {
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest();
+        const itemId = parseInt(request.params.id);
+        const access = Number.isNaN(itemId) ? null : await this.itemAccessService.getAccess(itemId, request.user?.id);
+
+        if (!access) {
+            throw new NotFoundException('Item not found');
+        }
+
+        if (!this.itemAccessService.satisfies(access, required)) {
+            throw new ForbiddenException(required === 'owner' ? 'Only the owner of the item can do this' : `You do not have ${required} access to this item`);
+        }
+
+        request.itemAccess = access;
+        return true;
+    }
+}
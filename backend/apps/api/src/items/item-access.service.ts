@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, SelectQueryBuilder } from 'typeorm';
+import { Item } from './entities/item.entity';
+import { ItemShare } from './entities/item-share.entity';
+
+export type ItemAccessLevel = 'read' | 'write' | 'owner';
+
+const ACCESS_RANK: Record<ItemAccessLevel, number> = { read: 1, write: 2, owner: 3 };
+
+/**
+ * Decides what a user may do with an item:
+ * - owner: everything, including delete, restore, sharing and visibility
+ * - write: read, update and tag (share grant with role write on a shared or public item)
+ * - read: view it (public item, or share grant on a shared or public item)
+ */
+@Injectable()
+export class ItemAccessService {
+    constructor(
+        @InjectRepository(Item)
+        private itemsRepository: Repository<Item>,
+        @InjectRepository(ItemShare)
+        private sharesRepository: Repository<ItemShare>,
+    ) {}
+
+    satisfies(access: ItemAccessLevel | null, required: ItemAccessLevel): boolean {
+        return access !== null && ACCESS_RANK[access] >= ACCESS_RANK[required];
+    }
+
+    /**
+     * Access of the user to the item with this id, or null if the item does not exist or is hidden from them.
+     * Trashed items are only accessible to their owner.
+     */
+    async getAccess(itemId: number, userId?: number): Promise<ItemAccessLevel | null> {
+        const item = await this.itemsRepository.findOne({
+            where: { id: itemId },
+            select: { id: true, createdById: true, visibility: true, deletedAt: true },
+            withDeleted: true,
+        });
+
+        return item ? this.resolveAccess(item, userId) : null;
+    }
+
+    async resolveAccess(item: Pick<Item, 'id' | 'createdById' | 'visibility' | 'deletedAt'>, userId?: number): Promise<ItemAccessLevel | null> {
+        if (userId && item.createdById === userId) {
+            return 'owner';
+        }
+        if (item.deletedAt || item.visibility === 'private') {
+            return null;
+        }
+
+        const share = userId
+            ? await this.sharesRepository.findOne({
+                  where: { itemId: item.id, userId },
+              })
+            : null;
+
+        if (share) {
+            return share.role;
+        }
+
+        return item.visibility === 'public' ? 'read' : null;
+    }
+
+    /**
+     * Restricts a query on alias `item` to items the user can read.
+     */
+    applyReadFilter(qb: SelectQueryBuilder<Item>, userId?: number): SelectQueryBuilder<Item> {
+        return qb.andWhere(
+            `(item.visibility = 'public' OR item.createdById = :accessUserId OR (item.visibility = 'shared' AND EXISTS (SELECT 1 FROM item_shares grantee WHERE grantee."itemId" = item.id AND grantee."userId" = :accessUserId)))`,
+            { accessUserId: userId || 0 },
+        );
+    }
+
+    /**
+     * The subset of `itemIds` the user can read.
+     */
+    async filterReadable(itemIds: number[], userId?: number): Promise<number[]> {
+        if (itemIds.length === 0) {
+            return [];
+        }
+
+        const qb = this.itemsRepository.createQueryBuilder('item').select('item.id').where({ id: In(itemIds) });
+        const items = await this.applyReadFilter(qb, userId).getMany();
+        return items.map((item) => item.id);
+    }
+}
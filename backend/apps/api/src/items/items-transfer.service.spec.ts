@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { Item } from './entities/item.entity';
+import { ItemsTransferService } from './items-transfer.service';
+import { ItemsService } from './items.service';
+import { ItemAccessService } from './item-access.service';
+import { MetadataSchemasService } from '../metadata-schemas/metadata-schemas.service';
+
+describe('ItemsTransferService.import', () => {
+    let existing: Item[];
+    let manager: { find: jest.Mock; create: jest.Mock; save: jest.Mock };
+    let applyChanges: jest.Mock;
+    let service: ItemsTransferService;
+
+    const csv = (text: string) => ({ buffer: Buffer.from(text), originalname: 'items.csv' });
+    const ndjson = (text: string) => ({ buffer: Buffer.from(text), originalname: 'items.ndjson' });
+    const createdNames = () => manager.save.mock.calls.flatMap(([, items]) => items.map((item: Item) => item.name));
+
+    beforeEach(() => {
+        existing = [
+            Object.assign(new Item(), { id: 1, name: 'Lamp', description: 'Desk lamp', createdById: 7, visibility: 'private' }),
+            Object.assign(new Item(), { id: 2, name: 'Chair', createdById: 8, visibility: 'public' }),
+        ];
+
+        // The transaction runs on this manager; it is rolled back unless save() was reached without an error
+        manager = {
+            find: jest.fn(async () => existing),
+            create: jest.fn((_, values) => Object.assign(new Item(), values)),
+            save: jest.fn(async (_, items) => items),
+        };
+        applyChanges = jest.fn(async (_, item, data) => ({ item, changed: data.description !== item.description }));
+
+        const itemsRepository = { manager: { transaction: (work: (manager: any) => Promise<unknown>) => work(manager) } };
+        service = new ItemsTransferService(
+            itemsRepository as any,
+            { applyChanges } as unknown as ItemsService,
+            { validate: async () => [] } as unknown as MetadataSchemasService,
+            new ItemAccessService({} as any, { findOne: async () => null } as any),
+        );
+    });
+
+    it('creates new items for the importing user', async () => {
+        const result = await service.import(csv('name,description\nDesk,Oak desk\n'), {}, '7');
+
+        expect(result).toMatchObject({ format: 'csv', total: 1, created: 1, updated: 0, skipped: 0, errors: [] });
+        expect(manager.save).toHaveBeenCalledWith(Item, [expect.objectContaining({ name: 'Desk', description: 'Oak desk', createdById: 7 })], { chunk: 500 });
+    });
+
+    it('rejects the whole file when a name exists and onConflict is fail', async () => {
+        const request = service.import(csv('name\nDesk\nLamp\n'), { onConflict: 'fail' }, '7');
+
+        await expect(request).rejects.toThrow(BadRequestException);
+        await expect(request).rejects.toMatchObject({
+            response: { message: 'Import rejected, nothing was imported', errors: [{ row: 2, field: 'name', message: 'Item already exists' }] },
+        });
+        expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('leaves existing items alone with onConflict skip', async () => {
+        const result = await service.import(csv('name\nDesk\nLamp\n'), { onConflict: 'skip' }, '7');
+
+        expect(result).toMatchObject({ created: 1, skipped: 1 });
+        expect(createdNames()).toEqual(['Desk']);
+        expect(applyChanges).not.toHaveBeenCalled();
+    });
+
+    it('updates the importing user\'s own items with onConflict upsert and skips unchanged ones', async () => {
+        const result = await service.import(ndjson('{"name":"Lamp","description":"Floor lamp"}\n{"name":"Desk"}\n'), { onConflict: 'upsert' }, '7');
+
+        expect(result).toMatchObject({ format: 'ndjson', created: 1, updated: 1, skipped: 0 });
+        expect(applyChanges).toHaveBeenCalledWith(manager, existing[0], { name: 'Lamp', description: 'Floor lamp', metadata: undefined }, '7');
+
+        const unchanged = await service.import(ndjson('{"name":"Lamp","description":"Desk lamp"}\n'), { onConflict: 'upsert' }, '7');
+        expect(unchanged).toMatchObject({ updated: 0, skipped: 1 });
+    });
+
+    it('does not upsert over items the user cannot write', async () => {
+        const request = service.import(csv('name,description\nChair,Mine now\n'), { onConflict: 'upsert' }, '7');
+
+        await expect(request).rejects.toMatchObject({
+            response: { errors: [{ row: 1, field: 'name', message: 'You do not have write access to the existing item' }] },
+        });
+        expect(applyChanges).not.toHaveBeenCalled();
+    });
+
+    it('reports what would happen on a dry run without saving', async () => {
+        const result = await service.import(csv('name\nDesk\nLamp\n'), { onConflict: 'skip', dryRun: true }, '7');
+
+        expect(result).toMatchObject({ dryRun: true, created: 1, skipped: 1, errors: [] });
+        expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('returns row errors on a dry run instead of throwing', async () => {
+        const result = await service.import(csv('name,metadata\nDesk\nStool,\n"Chair, tall","[1,2]"\n'), { dryRun: true }, '7');
+
+        expect(result).toMatchObject({ total: 3, created: 1 });
+        expect(result.errors).toEqual([
+            { row: 1, message: 'Expected 2 fields, found 1' },
+            expect.objectContaining({ row: 3, field: 'metadata' }),
+        ]);
+    });
+
+    it('reports a name used twice in the file', async () => {
+        const result = await service.import(ndjson('{"name":"Desk"}\n{"name":"Desk"}\n'), { dryRun: true }, '7');
+
+        expect(result.errors).toEqual([{ row: 2, field: 'name', message: 'Duplicate name, already used on row 1' }]);
+    });
+
+    it('requires a name column and a detectable format', async () => {
+        await expect(service.import(csv('title\nDesk\n'), {}, '7')).rejects.toThrow('CSV header must include a "name" column');
+        await expect(service.import({ buffer: Buffer.from('name\nDesk\n') }, {}, '7')).rejects.toThrow('Could not detect the file format');
+    });
+});
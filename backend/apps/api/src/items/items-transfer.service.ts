@@ -0,0 +1,304 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Readable } from 'stream';
+import { Item } from './entities/item.entity';
+import { ItemsService } from './items.service';
+import { MetadataSchemasService } from '../metadata-schemas/metadata-schemas.service';
+import { ItemAccessService } from './item-access.service';
+import { CreateItemDto } from './dto/create-item.dto';
+import { ImportItemsQueryDto, ItemTransferFormat } from './dto/import-items-query.dto';
+import { ExportItemsQueryDto } from './dto/export-items-query.dto';
+import { ImportResultDto, ImportRowErrorDto } from './dto/import-result.dto';
+import { parseCsv, toCsvLine, CsvParseError } from './utils/csv';
+
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 10000;
+const EXPORT_BATCH_SIZE = 500;
+const EXPORT_COLUMNS = ['id', 'name', 'description', 'metadata', 'createdById', 'createdAt', 'updatedAt'] as const;
+
+export interface ImportFile {
+    buffer: Buffer;
+    originalname?: string;
+    mimetype?: string;
+}
+
+interface ImportRow {
+    row: number;
+    data: Record<string, any>;
+}
+
+// Thrown inside the import transaction to roll it back (dry runs and rejected imports)
+class ImportRollback extends Error {}
+
+@Injectable()
+export class ItemsTransferService {
+    constructor(
+        @InjectRepository(Item)
+        private itemsRepository: Repository<Item>,
+        private itemsService: ItemsService,
+        private metadataSchemasService: MetadataSchemasService,
+        private itemAccessService: ItemAccessService,
+    ) {}
+
+    /**
+     * Imports items from a CSV or NDJSON file. Either every row is applied or, if any row has an error, none is.
+     * Dry runs go through the same steps inside a transaction that is rolled back.
+     */
+    async import(file: ImportFile, query: ImportItemsQueryDto, userId?: string): Promise<ImportResultDto> {
+        const { onConflict = 'fail', dryRun = false } = query;
+        const format = query.format || this.detectFormat(file);
+        const text = file.buffer.toString('utf8');
+
+        const errors: ImportRowErrorDto[] = [];
+        const rows = format === 'csv' ? this.readCsv(text, errors) : this.readNdjson(text, errors);
+        if (rows.length + errors.length > MAX_IMPORT_ROWS) {
+            throw new BadRequestException(`Import files are limited to ${MAX_IMPORT_ROWS} rows`);
+        }
+
+        const result: ImportResultDto = { dryRun, format, total: rows.length + errors.length, created: 0, updated: 0, skipped: 0, errors };
+        const validRows = await this.validateRows(rows, errors);
+
+        try {
+            await this.itemsRepository.manager.transaction(async (manager) => {
+                const existingByName = new Map<string, Item>();
+                const names = validRows.map((row) => row.data.name);
+                for (let i = 0; i < names.length; i += 1000) {
+                    const existing = await manager.find(Item, {
+                        where: { name: In(names.slice(i, i + 1000)) },
+                        lock: { mode: 'pessimistic_write' },
+                    });
+                    existing.forEach((item) => existingByName.set(item.name, item));
+                }
+
+                const toCreate: Item[] = [];
+                for (const { row, data } of validRows) {
+                    const existing = existingByName.get(data.name);
+
+                    if (!existing) {
+                        toCreate.push(manager.create(Item, { ...data, createdById: userId ? parseInt(userId) : null }));
+                        result.created++;
+                    } else if (onConflict === 'fail') {
+                        errors.push({ row, field: 'name', message: 'Item already exists' });
+                    } else if (onConflict === 'skip') {
+                        result.skipped++;
+                    } else if (!this.itemAccessService.satisfies(await this.itemAccessService.resolveAccess(existing, parseInt(userId) || undefined), 'write')) {
+                        errors.push({ row, field: 'name', message: 'You do not have write access to the existing item' });
+                    } else {
+                        const { changed } = await this.itemsService.applyChanges(manager, existing, data, userId);
+                        if (changed) {
+                            result.updated++;
+                        } else {
+                            result.skipped++;
+                        }
+                    }
+                }
+
+                if (errors.length === 0 && !dryRun && toCreate.length > 0) {
+                    await manager.save(Item, toCreate, { chunk: 500 });
+                }
+
+                if (errors.length > 0 || dryRun) {
+                    throw new ImportRollback();
+                }
+            });
+        } catch (error) {
+            if (!(error instanceof ImportRollback)) {
+                throw error;
+            }
+        }
+
+        errors.sort((a, b) => a.row - b.row);
+
+        if (errors.length > 0 && !dryRun) {
+            throw new BadRequestException({ message: 'Import rejected, nothing was imported', ...result });
+        }
+
+        return result;
+    }
+
+    /**
+     * Streams the items the user can read in id order, reading them from the database in batches.
+     */
+    export(query: ExportItemsQueryDto, userId?: string): { stream: Readable; contentType: string; filename: string } {
+        const format = query.format || 'csv';
+        const stream = Readable.from(this.exportLines(format, query.createdById, parseInt(userId) || undefined));
+
+        return format === 'csv'
+            ? { stream, contentType: 'text/csv; charset=utf-8', filename: 'items.csv' }
+            : { stream, contentType: 'application/x-ndjson; charset=utf-8', filename: 'items.ndjson' };
+    }
+
+    private async *exportLines(format: ItemTransferFormat, createdById?: number, userId?: number): AsyncGenerator<string> {
+        if (format === 'csv') {
+            yield toCsvLine([...EXPORT_COLUMNS]);
+        }
+
+        let lastId = 0;
+        while (true) {
+            const qb = this.itemsRepository
+                .createQueryBuilder('item')
+                .where('item.id > :lastId', { lastId })
+                .orderBy('item.id', 'ASC')
+                .limit(EXPORT_BATCH_SIZE);
+            if (createdById !== undefined) {
+                qb.andWhere('item.createdById = :createdById', { createdById });
+            }
+            const items = await this.itemAccessService.applyReadFilter(qb, userId).getMany();
+
+            for (const item of items) {
+                const record = {
+                    id: item.id,
+                    name: item.name,
+                    description: item.description ?? null,
+                    metadata: item.metadata ?? null,
+                    createdById: item.createdById ?? null,
+                    createdAt: item.createdAt.toISOString(),
+                    updatedAt: item.updatedAt.toISOString(),
+                };
+
+                yield format === 'csv'
+                    ? toCsvLine(EXPORT_COLUMNS.map((column) => (column === 'metadata' ? record.metadata && JSON.stringify(record.metadata) : record[column])))
+                    : JSON.stringify(record) + '\n';
+            }
+
+            if (items.length < EXPORT_BATCH_SIZE) {
+                return;
+            }
+            lastId = items[items.length - 1].id;
+        }
+    }
+
+    private detectFormat(file: ImportFile): ItemTransferFormat {
+        const name = (file.originalname || '').toLowerCase();
+        const type = (file.mimetype || '').toLowerCase();
+
+        if (name.endsWith('.csv') || type === 'text/csv') {
+            return 'csv';
+        }
+        if (name.endsWith('.ndjson') || name.endsWith('.jsonl') || type === 'application/x-ndjson' || type === 'application/jsonl') {
+            return 'ndjson';
+        }
+
+        throw new BadRequestException('Could not detect the file format, pass format=csv or format=ndjson');
+    }
+
+    private readCsv(text: string, errors: ImportRowErrorDto[]): ImportRow[] {
+        let records: string[][];
+        try {
+            records = parseCsv(text);
+        } catch (error) {
+            if (error instanceof CsvParseError) {
+                throw new BadRequestException(`Invalid CSV: ${error.message}`);
+            }
+            throw error;
+        }
+
+        if (records.length === 0) {
+            return [];
+        }
+
+        // Columns other than name, description and metadata (e.g. from an export) are ignored
+        const header = records[0].map((column) => column.trim());
+        if (!header.includes('name')) {
+            throw new BadRequestException('CSV header must include a "name" column');
+        }
+
+        const rows: ImportRow[] = [];
+        records.slice(1).forEach((record, index) => {
+            const row = index + 1;
+            if (record.length !== header.length) {
+                errors.push({ row, message: `Expected ${header.length} fields, found ${record.length}` });
+                return;
+            }
+
+            const data: Record<string, any> = {};
+            header.forEach((column, i) => {
+                if (column === 'name') {
+                    data.name = record[i];
+                } else if (column === 'description' && record[i] !== '') {
+                    data.description = record[i];
+                } else if (column === 'metadata' && record[i] !== '') {
+                    try {
+                        data.metadata = JSON.parse(record[i]);
+                    } catch {
+                        data.metadata = record[i]; // reported by validation as not an object
+                    }
+                }
+            });
+            rows.push({ row, data });
+        });
+
+        return rows;
+    }
+
+    private readNdjson(text: string, errors: ImportRowErrorDto[]): ImportRow[] {
+        const rows: ImportRow[] = [];
+
+        text.split(/\r?\n/).forEach((line, index) => {
+            const row = index + 1;
+            if (line.trim() === '') {
+                return;
+            }
+
+            let parsed: any;
+            try {
+                parsed = JSON.parse(line);
+            } catch {
+                errors.push({ row, message: 'Line is not valid JSON' });
+                return;
+            }
+
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                errors.push({ row, message: 'Line must be a JSON object' });
+                return;
+            }
+
+            const { name, description, metadata } = parsed;
+            rows.push({ row, data: { name, description: description ?? undefined, metadata: metadata ?? undefined } });
+        });
+
+        return rows;
+    }
+
+    /**
+     * Applies the CreateItemDto rules and metadata schemas to every row and rejects names used twice in the file.
+     */
+    private async validateRows(rows: ImportRow[], errors: ImportRowErrorDto[]): Promise<ImportRow[]> {
+        const valid: ImportRow[] = [];
+        const rowByName = new Map<string, number>();
+
+        for (const { row, data } of rows) {
+            const validationErrors = await validate(plainToInstance(CreateItemDto, data));
+            if (validationErrors.length > 0) {
+                for (const error of validationErrors) {
+                    for (const message of Object.values(error.constraints || {})) {
+                        errors.push({ row, field: error.property, message });
+                    }
+                }
+                continue;
+            }
+
+            const metadataErrors = await this.metadataSchemasService.validate(data.metadata);
+            if (metadataErrors.length > 0) {
+                for (const error of metadataErrors) {
+                    errors.push({ row, field: error.path, message: error.message });
+                }
+                continue;
+            }
+
+            const firstRow = rowByName.get(data.name);
+            if (firstRow !== undefined) {
+                errors.push({ row, field: 'name', message: `Duplicate name, already used on row ${firstRow}` });
+                continue;
+            }
+
+            rowByName.set(data.name, row);
+            valid.push({ row, data });
+        }
+
+        return valid;
+    }
+}
@@ -1,13 +1,33 @@
-import { Controller, Get, Post, Delete, Body, Query, Param, HttpCode, HttpStatus, UseGuards, Request, UseInterceptors } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Put, Patch, Delete, Body, Query, Param, HttpCode, HttpStatus, UseGuards, UseInterceptors, Request, ValidationPipe, UploadedFile, BadRequestException, UnauthorizedException, StreamableFile, ParseIntPipe } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth, ApiConsumes, ApiProduces } from '@nestjs/swagger';
 import { ItemsService } from './items.service';
+import { ItemsTransferService, MAX_IMPORT_FILE_BYTES } from './items-transfer.service';
 import { CreateItemDto } from './dto/create-item.dto';
+import { UpdateItemDto } from './dto/update-item.dto';
+import { ReplaceItemDto } from './dto/replace-item.dto';
 import { ItemResponseDto } from './dto/item-response.dto';
+import { ItemRevisionResponseDto } from './dto/item-revision-response.dto';
+import { ListItemsQueryDto } from './dto/list-items-query.dto';
+import { PaginatedItemsResponseDto } from './dto/paginated-items-response.dto';
+import { SearchItemsQueryDto } from './dto/search-items-query.dto';
+import { ItemSearchResultDto } from './dto/item-search-result.dto';
+import { ImportItemsQueryDto } from './dto/import-items-query.dto';
+import { ExportItemsQueryDto } from './dto/export-items-query.dto';
+import { ImportResultDto } from './dto/import-result.dto';
+import { TagItemsDto } from '../tags/dto/tag-items.dto';
+import { UpdateVisibilityDto } from './dto/update-visibility.dto';
+import { ShareItemDto } from './dto/share-item.dto';
+import { ItemShareResponseDto } from './dto/item-share-response.dto';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
-import { PosthogInterceptor } from '@posthog/posthog';
+import { ItemAccessGuard } from './guards/item-access.guard';
+import { ItemAccess } from './decorators/item-access.decorator';
+import { TrackEvent, TrackDiff } from '@posthog/posthog';
+import { RolesGuard, Permissions } from '@common/common';
 
 @ApiTags('items')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, ItemAccessGuard)
+@Permissions('items:read')
 @ApiBearerAuth('JWT-auth')
 @Controller('items')
 @ApiResponse({
@@ -18,11 +38,20 @@ import { PosthogInterceptor } from '@posthog/posthog';
     status: 401,
     description: 'Unauthorized - JWT token required',
 })
+@ApiResponse({
+    status: 403,
+    description: 'Forbidden - missing permission or not enough access to the item',
+})
 export class ItemsController {
-    constructor(private readonly itemsService: ItemsService) {}
+    constructor(
+        private readonly itemsService: ItemsService,
+        private readonly itemsTransferService: ItemsTransferService,
+    ) {}
 
     @Post()
-    @UseInterceptors(PosthogInterceptor)
+    @Permissions('items:write')
+    @TrackEvent('item_created', { properties: { resource: 'item' } })
+    @TrackDiff()
     @HttpCode(HttpStatus.CREATED)
     @ApiOperation({
         summary: 'Create a new item',
@@ -42,24 +71,76 @@ export class ItemsController {
         return this.itemsService.create(createItemDto, userId);
     }
 
+    @Post('import')
+    @Permissions('items:write')
+    @TrackEvent('items_imported', {
+        properties: { resource: 'item' },
+        responseFields: ['dryRun', 'format', 'total', 'created', 'updated', 'skipped'],
+    })
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }))
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Import items',
+        description:
+            'Imports items from a CSV (header with name, description, metadata as JSON) or NDJSON file. ' +
+            'Rows are validated like POST /items; if any row fails, nothing is imported and every error is reported.',
+    })
+    @ApiConsumes('multipart/form-data')
+    @ApiBody({
+        schema: {
+            type: 'object',
+            required: ['file'],
+            properties: {
+                file: { type: 'string', format: 'binary', description: 'CSV or NDJSON file (max 5 MB, 10000 rows)' },
+            },
+        },
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Import (or dry run) result',
+        type: ImportResultDto,
+    })
+    async import(
+        @UploadedFile() file: Express.Multer.File,
+        @Query(new ValidationPipe({ transform: true })) query: ImportItemsQueryDto,
+        @Request() req,
+    ) {
+        if (!file) {
+            throw new BadRequestException('A file is required');
+        }
+
+        const userId = req.user?.id?.toString();
+        return this.itemsTransferService.import(file, query, userId);
+    }
+
+    @Get('export')
+    @ApiOperation({
+        summary: 'Export items',
+        description: 'Streams the items you can read as CSV or NDJSON. The CSV can be imported again.',
+    })
+    @ApiProduces('text/csv', 'application/x-ndjson')
+    @ApiResponse({
+        status: 200,
+        description: 'Items file',
+    })
+    exportItems(@Query(new ValidationPipe({ transform: true })) query: ExportItemsQueryDto, @Request() req) {
+        const userId = req.user?.id?.toString();
+        const { stream, contentType, filename } = this.itemsTransferService.export(query, userId);
+        return new StreamableFile(stream, { type: contentType, disposition: `attachment; filename="${filename}"` });
+    }
+
     @Get('search')
     @ApiOperation({
         summary: 'Search items',
-        description: 'Searches items by name or description.',
-    })
-    @ApiQuery({
-        name: 'q',
-        description: 'Search query string',
-        required: true,
-        example: 'laptop',
+        description: 'Full-text search over name and description, ranked by relevance (name matches weigh more) with highlighted snippets.',
     })
     @ApiResponse({
         status: 200,
-        description: 'Search results',
-        type: [ItemResponseDto],
+        description: 'Search results, most relevant first',
+        type: [ItemSearchResultDto],
     })
-    async search(@Query('q') query: string, @Request() req) {
-        if (!query) {
+    async search(@Query(new ValidationPipe({ transform: true })) query: SearchItemsQueryDto, @Request() req) {
+        if (!query.q) {
             return [];
         }
 
@@ -67,26 +148,288 @@ export class ItemsController {
         return this.itemsService.search(query, userId);
     }
 
-    @Get()
+    @Get('trash')
     @ApiOperation({
-        summary: 'Get all items',
-        description: 'Retrieves all items',
+        summary: 'List trashed items',
+        description: 'Retrieves your deleted items that have not been purged yet, most recently deleted first',
     })
     @ApiResponse({
         status: 200,
-        description: 'List of all items',
+        description: 'Trashed items',
         type: [ItemResponseDto],
     })
-    async findAll(@Request() req) {
-        return this.itemsService.findAll();
+    async findTrash(@Request() req) {
+        // The trash is per owner, so there is nothing to list without an authenticated user
+        if (!req.user?.id) {
+            throw new UnauthorizedException();
+        }
+
+        return this.itemsService.findTrash(req.user.id.toString());
+    }
+
+    @Get()
+    @ApiOperation({
+        summary: 'List items',
+        description: 'Retrieves a page of items. Supports offset or cursor pagination, sorting and filtering by creator, dates and metadata.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Page of items',
+        type: PaginatedItemsResponseDto,
+    })
+    async findAll(@Query(new ValidationPipe({ transform: true })) query: ListItemsQueryDto, @Request() req) {
+        const userId = req.user?.id?.toString();
+        return this.itemsService.findAll(query, userId);
+    }
+
+    @Get(':id')
+    @ItemAccess('read')
+    @ApiOperation({
+        summary: 'Get an item',
+        description: 'Retrieves an item you own, that is shared with you or that is public',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Item',
+        type: ItemResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Item not found',
+    })
+    async findOne(@Param('id') id: string) {
+        return this.itemsService.findOne(parseInt(id));
+    }
+
+    @Get(':id/revisions')
+    @ItemAccess('read')
+    @ApiOperation({
+        summary: 'Get item change history',
+        description: 'Retrieves the field-level changes made to an item, newest first',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Revisions of the item',
+        type: [ItemRevisionResponseDto],
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Item not found',
+    })
+    async findRevisions(@Param('id') id: string) {
+        return this.itemsService.findRevisions(parseInt(id));
+    }
+
+    @Put(':id')
+    @Permissions('items:write')
+    @ItemAccess('write')
+    @TrackEvent('item_updated', { properties: { resource: 'item' } })
+    @TrackDiff()
+    @ApiOperation({
+        summary: 'Replace an item',
+        description: 'Replaces all editable fields of an item. Fields left out are cleared.',
+    })
+    @ApiBody({
+        type: ReplaceItemDto,
+        description: 'Complete item data and the version it is based on',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Item successfully updated',
+        type: ItemResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Item not found',
+    })
+    @ApiResponse({
+        status: 409,
+        description: 'Item was modified since the given version',
+    })
+    async replace(@Param('id') id: string, @Body() replaceItemDto: ReplaceItemDto, @Request() req) {
+        const userId = req.user?.id?.toString();
+        return this.itemsService.update(parseInt(id), replaceItemDto, userId, true);
+    }
+
+    @Patch(':id')
+    @Permissions('items:write')
+    @ItemAccess('write')
+    @TrackEvent('item_updated', { properties: { resource: 'item' } })
+    @TrackDiff()
+    @ApiOperation({
+        summary: 'Update an item',
+        description: 'Updates only the fields present in the request body',
+    })
+    @ApiBody({
+        type: UpdateItemDto,
+        description: 'Fields to change and the version they are based on',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Item successfully updated',
+        type: ItemResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Item not found',
+    })
+    @ApiResponse({
+        status: 409,
+        description: 'Item was modified since the given version',
+    })
+    async update(@Param('id') id: string, @Body() updateItemDto: UpdateItemDto, @Request() req) {
+        const userId = req.user?.id?.toString();
+        return this.itemsService.update(parseInt(id), updateItemDto, userId);
+    }
+
+    @Post(':id/restore')
+    @Permissions('items:write')
+    @ItemAccess('owner')
+    @TrackEvent('item_restored', { properties: { resource: 'item' } })
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Restore an item',
+        description: 'Moves a deleted item back out of the trash',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Item successfully restored',
+        type: ItemResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Item not found in trash',
+    })
+    async restore(@Param('id') id: string) {
+        return this.itemsService.restore(parseInt(id));
+    }
+
+    @Post(':id/tags')
+    @Permissions('items:write')
+    @ItemAccess('write')
+    @TrackEvent('item_tagged', { properties: { resource: 'item' } })
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Tag an item',
+        description: 'Adds tags to an item, creating tags that do not exist yet',
+    })
+    @ApiBody({
+        type: TagItemsDto,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Item with its tags',
+        type: ItemResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Item not found',
+    })
+    async addTags(@Param('id') id: string, @Body() tagItemsDto: TagItemsDto) {
+        return this.itemsService.addTags(parseInt(id), tagItemsDto.tags);
+    }
+
+    @Delete(':id/tags/:tag')
+    @Permissions('items:write')
+    @ItemAccess('write')
+    @TrackEvent('item_untagged', { properties: { resource: 'item' } })
+    @ApiOperation({
+        summary: 'Untag an item',
+        description: 'Removes a tag from an item',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Item with its tags',
+        type: ItemResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Item not found',
+    })
+    async removeTag(@Param('id') id: string, @Param('tag') tag: string) {
+        return this.itemsService.removeTag(parseInt(id), tag);
+    }
+
+    @Put(':id/visibility')
+    @Permissions('items:write')
+    @ItemAccess('owner')
+    @TrackEvent('item_visibility_changed', { properties: { resource: 'item' } })
+    @ApiOperation({
+        summary: 'Change item visibility',
+        description: 'private: only you. shared: you and users you share it with. public: every user can read it.',
+    })
+    @ApiBody({
+        type: UpdateVisibilityDto,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Item',
+        type: ItemResponseDto,
+    })
+    async setVisibility(@Param('id') id: string, @Body() updateVisibilityDto: UpdateVisibilityDto) {
+        return this.itemsService.setVisibility(parseInt(id), updateVisibilityDto.visibility);
+    }
+
+    @Get(':id/shares')
+    @ItemAccess('owner')
+    @ApiOperation({
+        summary: 'List share grants',
+        description: 'Users the item is shared with. Grants take effect while the item is shared or public.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Share grants',
+        type: [ItemShareResponseDto],
+    })
+    async findShares(@Param('id') id: string) {
+        return this.itemsService.findShares(parseInt(id));
+    }
+
+    @Put(':id/shares/:userId')
+    @Permissions('items:write')
+    @ItemAccess('owner')
+    @TrackEvent('item_shared', { properties: { resource: 'item' } })
+    @ApiOperation({
+        summary: 'Share an item',
+        description: 'Grants a user read or write access, or changes their role. Set the item visibility to shared for the grant to take effect.',
+    })
+    @ApiBody({
+        type: ShareItemDto,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Share grants',
+        type: [ItemShareResponseDto],
+    })
+    async share(@Param('id') id: string, @Param('userId', ParseIntPipe) userId: number, @Body() shareItemDto: ShareItemDto, @Request() req) {
+        return this.itemsService.share(parseInt(id), userId, shareItemDto.role, req.user?.id?.toString());
+    }
+
+    @Delete(':id/shares/:userId')
+    @Permissions('items:write')
+    @ItemAccess('owner')
+    @TrackEvent('item_unshared', { properties: { resource: 'item' } })
+    @ApiOperation({
+        summary: 'Stop sharing an item',
+        description: 'Removes the grant of a user',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Share grants',
+        type: [ItemShareResponseDto],
+    })
+    async unshare(@Param('id') id: string, @Param('userId', ParseIntPipe) userId: number) {
+        return this.itemsService.unshare(parseInt(id), userId);
     }
 
     @Delete(':id')
-    @UseInterceptors(PosthogInterceptor)
+    @Permissions('items:write')
+    @ItemAccess('owner')
+    @TrackEvent('item_deleted', { properties: { resource: 'item' } })
     @HttpCode(HttpStatus.NO_CONTENT)
     @ApiOperation({
         summary: 'Delete an item',
-        description: 'Deletes an item by ID',
+        description: 'Moves an item to the trash. It can be restored until it is purged after the retention period.',
     })
     @ApiResponse({
         status: 204,
@@ -96,8 +439,7 @@ export class ItemsController {
         status: 404,
         description: 'Item not found',
     })
-    async delete(@Param('id') id: string, @Request() req) {
-        const userId = req.user?.id?.toString();
-        await this.itemsService.delete(parseInt(id), userId);
+    async delete(@Param('id') id: string) {
+        await this.itemsService.delete(parseInt(id));
     }
 }
@@ -2,11 +2,20 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ItemsController } from './items.controller';
 import { ItemsService } from './items.service';
+import { ItemsTransferService } from './items-transfer.service';
 import { Item } from './entities/item.entity';
+import { ItemRevision } from './entities/item-revision.entity';
+import { ItemShare } from './entities/item-share.entity';
+import { ItemAccessService } from './item-access.service';
+import { ItemAccessGuard } from './guards/item-access.guard';
+import { User } from '@common/common';
+import { MetadataSchemasModule } from '../metadata-schemas/metadata-schemas.module';
+import { TagsModule } from '../tags/tags.module';
 
 @Module({
-    imports: [TypeOrmModule.forFeature([Item])],
+    imports: [TypeOrmModule.forFeature([Item, ItemRevision, ItemShare, User]), MetadataSchemasModule, TagsModule],
     controllers: [ItemsController],
-    providers: [ItemsService],
+    providers: [ItemsService, ItemsTransferService, ItemAccessService, ItemAccessGuard],
+    exports: [ItemsService, ItemAccessService],
 })
 export class ItemsModule {}
@@ -0,0 +1,293 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { User, ApiKey } from '@common/common';
+import { PosthogService } from '@posthog/posthog';
+import { ItemsService } from './items.service';
+import { ItemAccessService } from './item-access.service';
+import { Item } from './entities/item.entity';
+import { ItemShare } from './entities/item-share.entity';
+import { ItemRevision } from './entities/item-revision.entity';
+import { Tag } from '../tags/entities/tag.entity';
+import { TagsService } from '../tags/tags.service';
+import { Collection } from '../collections/entities/collection.entity';
+import { MetadataSchemasService } from '../metadata-schemas/metadata-schemas.service';
+
+describe('ItemsService', () => {
+    let dataSource: DataSource;
+    let service: ItemsService;
+    let executed: { query: string; parameters: any[] }[];
+    let respond: (query: string) => any[];
+
+    const lastQuery = () => executed[executed.length - 1];
+
+    beforeAll(async () => {
+        // Metadata only, no connection: the generated SQL is captured instead of run
+        dataSource = new DataSource({ type: 'postgres', entities: [Item, ItemRevision, ItemShare, Tag, Collection, User, ApiKey] });
+        await (dataSource as any).buildMetadatas();
+    });
+
+    beforeEach(() => {
+        executed = [];
+        respond = () => [];
+        jest.spyOn(dataSource, 'createQueryRunner').mockReturnValue({
+            query: async (query: string, parameters: any[]) => {
+                executed.push({ query, parameters });
+                return { records: respond(query) };
+            },
+            release: async () => undefined,
+            broadcaster: { broadcast: async () => undefined },
+        } as any);
+
+        const itemsRepository = dataSource.getRepository(Item);
+        const itemAccessService = new ItemAccessService(itemsRepository, dataSource.getRepository(ItemShare));
+        service = new ItemsService(
+            itemsRepository,
+            dataSource.getRepository(ItemRevision),
+            dataSource.getRepository(ItemShare),
+            dataSource.getRepository(User),
+            {} as PosthogService,
+            { assertValid: jest.fn() } as unknown as MetadataSchemasService,
+            new TagsService(dataSource.getRepository(Tag), itemsRepository, itemAccessService),
+            itemAccessService,
+            new ConfigService({}),
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('creator', () => {
+        it('returns only the id, email and name of the creator', async () => {
+            await service.findOne(1);
+
+            const { query } = lastQuery();
+            expect(query).toContain('"createdBy"."email" AS "createdBy_email"');
+            expect(query).toContain('"createdBy"."name" AS "createdBy_name"');
+            expect(query).not.toContain('"createdBy"."password"');
+            expect(query).not.toContain('"createdBy"."isActive"');
+        });
+
+        it('leaves the creator details out of listings and search results the same way', async () => {
+            await service.findAll({}, '7');
+            expect(executed.some(({ query }) => query.includes('"createdBy"."password"'))).toBe(false);
+
+            await service.search({ q: 'lamp' }, '7');
+            expect(lastQuery().query).not.toContain('"createdBy"."password"');
+        });
+
+        it('never selects password hashes by default', () => {
+            expect(dataSource.getMetadata(User).findColumnWithPropertyName('password').isSelect).toBe(false);
+        });
+    });
+
+    describe('trash', () => {
+        it('lists only the trash of the given owner', async () => {
+            await service.findTrash('7');
+
+            const { query, parameters } = lastQuery();
+            expect(query).toContain('"item"."deletedAt" IS NOT NULL');
+            expect(query).toContain('"item"."createdById" = $1');
+            expect(parameters).toEqual([7]);
+        });
+
+        it('reports items missing from the trash as not found', async () => {
+            await expect(service.restore(1)).rejects.toBeInstanceOf(NotFoundException);
+        });
+
+        it('reports deleting a missing item as not found', async () => {
+            await expect(service.delete(1)).rejects.toBeInstanceOf(NotFoundException);
+        });
+    });
+
+    describe('update', () => {
+        let stored: Item | null;
+        let manager: { findOne: jest.Mock; save: jest.Mock; create: jest.Mock };
+
+        beforeEach(() => {
+            stored = Object.assign(new Item(), { id: 1, name: 'Lamp', description: 'Desk lamp', metadata: { color: 'red' }, version: 3 });
+
+            // The row lock and the writes happen in the transaction, so the manager stands in for the database
+            manager = {
+                findOne: jest.fn(async (_, { where }) => (where.id === stored?.id ? { ...stored } : null)),
+                save: jest.fn(async (_, entity) => (Array.isArray(entity) ? entity : { ...entity, version: entity.version + 1 })),
+                create: jest.fn((_, values) => values),
+            };
+            jest.spyOn(dataSource.manager, 'transaction').mockImplementation((async (work: (manager: any) => Promise<unknown>) => work(manager)) as any);
+        });
+
+        const savedRevisions = () => manager.save.mock.calls.filter(([target]) => target === ItemRevision).flatMap(([, revisions]) => revisions);
+
+        it('locks the row before comparing versions', async () => {
+            await service.update(1, { version: 3, name: 'Floor lamp' }, '7');
+
+            expect(manager.findOne).toHaveBeenCalledWith(Item, { where: { id: 1 }, lock: { mode: 'pessimistic_write' } });
+        });
+
+        it('rejects an update based on an older version and writes nothing', async () => {
+            await expect(service.update(1, { version: 2, name: 'Floor lamp' }, '7')).rejects.toThrow(ConflictException);
+            await expect(service.update(1, { version: 2, name: 'Floor lamp' }, '7')).rejects.toThrow('current version is 3');
+
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+
+        it('reports a missing item as not found', async () => {
+            stored = null;
+
+            await expect(service.update(1, { version: 3, name: 'Floor lamp' }, '7')).rejects.toThrow(NotFoundException);
+        });
+
+        it('records one revision per changed field with the new version and the author', async () => {
+            await service.update(1, { version: 3, name: 'Floor lamp', description: 'Desk lamp', metadata: { color: 'blue' } }, '7');
+
+            expect(manager.save).toHaveBeenCalledWith(Item, expect.objectContaining({ name: 'Floor lamp', metadata: { color: 'blue' } }));
+            expect(savedRevisions()).toEqual([
+                { field: 'name', previousValue: 'Lamp', newValue: 'Floor lamp', itemId: 1, version: 4, changedById: 7 },
+                { field: 'metadata', previousValue: { color: 'red' }, newValue: { color: 'blue' }, itemId: 1, version: 4, changedById: 7 },
+            ]);
+        });
+
+        it('keeps the version when nothing changed', async () => {
+            await service.update(1, { version: 3, name: 'Lamp' }, '7');
+
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+
+        it('clears the fields missing from a full replacement', async () => {
+            await service.update(1, { version: 3, name: 'Lamp' }, '7', true);
+
+            expect(savedRevisions()).toEqual([
+                expect.objectContaining({ field: 'description', previousValue: 'Desk lamp', newValue: null }),
+                expect.objectContaining({ field: 'metadata', previousValue: { color: 'red' }, newValue: null }),
+            ]);
+        });
+
+        it('rejects a name taken by another item', async () => {
+            manager.findOne.mockImplementation(async (_, { where }) => (where.id === 1 ? { ...stored } : { id: 2, name: 'Floor lamp' }));
+
+            await expect(service.update(1, { version: 3, name: 'Floor lamp' }, '7')).rejects.toThrow(BadRequestException);
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('findAll pagination', () => {
+        const row = (id: number, name: string, createdAt: string) => ({
+            item_id: id,
+            item_name: name,
+            item_createdAt: new Date(createdAt),
+            item_updatedAt: new Date(createdAt),
+            item_version: 1,
+        });
+
+        // Three matching items, newest first; the page query gets as many rows as it asks for
+        const rows = [row(9, 'Lamp', '2024-01-03T10:00:00.123Z'), row(8, 'Desk', '2024-01-02T10:00:00.000Z'), row(7, 'Chair', '2024-01-02T10:00:00.000Z')];
+        beforeEach(() => {
+            respond = (query) => {
+                if (query.includes('COUNT(')) {
+                    return [{ cnt: String(rows.length) }];
+                }
+                const limit = query.match(/LIMIT (\d+)/);
+                return limit ? rows.slice(0, Number(limit[1])) : [];
+            };
+        });
+
+        const pageQuery = () => executed.find(({ query }) => query.includes('LIMIT'));
+
+        it('returns a cursor for the next page from the last item', async () => {
+            const page = await service.findAll({ limit: 2 }, '7');
+
+            expect(page.data.map((item) => item.id)).toEqual([9, 8]);
+            expect(page).toMatchObject({ total: 3, limit: 2, offset: 0 });
+            expect(JSON.parse(Buffer.from(page.nextCursor, 'base64url').toString())).toEqual({ s: 'createdAt', o: 'DESC', v: '2024-01-02T10:00:00.000Z', id: 8 });
+        });
+
+        it('returns no cursor on the last page', async () => {
+            const page = await service.findAll({ limit: 3 }, '7');
+
+            expect(page.nextCursor).toBeNull();
+        });
+
+        it('continues after the cursor position, using the id to break ties, instead of an offset', async () => {
+            const { nextCursor } = await service.findAll({ limit: 2 }, '7');
+            executed = [];
+
+            const page = await service.findAll({ limit: 2, offset: 40, cursor: nextCursor }, '7');
+
+            const { query, parameters } = pageQuery();
+            expect(query).toContain(
+                `(date_trunc('milliseconds', "item"."createdAt") < $2 OR (date_trunc('milliseconds', "item"."createdAt") = $2 AND "item"."id" < $3))`,
+            );
+            expect(parameters.slice(1, 3)).toEqual([new Date('2024-01-02T10:00:00.000Z'), 8]);
+            expect(query).not.toContain('OFFSET');
+            expect(page.offset).toBeNull();
+        });
+
+        it('compares names in ascending order for a name cursor', async () => {
+            const cursor = Buffer.from(JSON.stringify({ s: 'name', o: 'ASC', v: 'Desk', id: 8 })).toString('base64url');
+
+            await service.findAll({ limit: 2, sortBy: 'name', sortOrder: 'ASC', cursor }, '7');
+
+            const { query, parameters } = pageQuery();
+            expect(query).toContain('("item"."name" > $2 OR ("item"."name" = $2 AND "item"."id" > $3))');
+            expect(parameters.slice(1, 3)).toEqual(['Desk', 8]);
+        });
+
+        it('rejects a cursor issued for a different sort', async () => {
+            const { nextCursor } = await service.findAll({ limit: 2 }, '7');
+
+            await expect(service.findAll({ limit: 2, sortBy: 'name', cursor: nextCursor }, '7')).rejects.toThrow('Cursor was issued for a different sort order');
+        });
+
+        it.each([
+            ['not base64 JSON', 'not-a-cursor'],
+            ['without an id', Buffer.from(JSON.stringify({ s: 'createdAt', o: 'DESC', v: '2024-01-02T10:00:00.000Z' })).toString('base64url')],
+            ['with an invalid date', Buffer.from(JSON.stringify({ s: 'createdAt', o: 'DESC', v: 'yesterday', id: 8 })).toString('base64url')],
+        ])('rejects a cursor %s', async (_, cursor) => {
+            await expect(service.findAll({ limit: 2, cursor }, '7')).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('search', () => {
+        const searchQuery = () => executed.find(({ query }) => query.includes('to_tsquery'));
+
+        it('matches every word and the last one as a prefix', async () => {
+            await service.search({ q: 'Wireless  desk la' }, '7');
+
+            const { query, parameters } = searchQuery();
+            expect(query).toContain('"item"."searchVector" @@ to_tsquery($1, $2)');
+            expect(parameters.slice(0, 2)).toEqual(['english', 'wireless & desk & la:*']);
+        });
+
+        it('drops tsquery operators from the input', async () => {
+            await service.search({ q: "lamp | !(desk) & 'x':*" }, '7');
+
+            expect(searchQuery().parameters[1]).toBe('lamp & desk & x:*');
+        });
+
+        it('returns nothing without running a query when there are no words', async () => {
+            await expect(service.search({ q: '!? &' }, '7')).resolves.toEqual([]);
+
+            expect(executed).toHaveLength(0);
+        });
+
+        it('orders by rank and only returns items the user can read', async () => {
+            await service.search({ q: 'lamp' }, '7');
+
+            const { query } = searchQuery();
+            expect(query).toContain(`"item"."visibility" = 'public'`);
+            expect(query).toContain('ORDER BY rank DESC, "item"."id" DESC');
+        });
+
+        it('returns HTML-escaped highlights with the matches marked', async () => {
+            respond = (query) =>
+                query.includes('to_tsquery')
+                    ? [{ item_id: 1, item_name: 'Lamp <b>', item_version: 1, rank: '0.6', name_highlight: '\uE000Lamp\uE001 <b>', description_highlight: null }]
+                    : [];
+
+            const [result] = await service.search({ q: 'lamp' }, '7');
+
+            expect(result).toMatchObject({ id: 1, rank: 0.6, highlights: { name: '<mark>Lamp</mark> &lt;b&gt;', description: null } });
+        });
+    });
+});
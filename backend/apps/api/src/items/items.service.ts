@@ -1,17 +1,92 @@
-import { BadRequestException, Injectable } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Like } from 'typeorm';
+import { Repository, EntityManager, In, Not, LessThan, SelectQueryBuilder } from 'typeorm';
 import { Item } from './entities/item.entity';
+import { ItemRevision } from './entities/item-revision.entity';
+import { ItemShare, ItemShareRole } from './entities/item-share.entity';
+import { ItemVisibility } from './entities/item.entity';
 import { CreateItemDto } from './dto/create-item.dto';
+import { UpdateItemDto } from './dto/update-item.dto';
+import { ReplaceItemDto } from './dto/replace-item.dto';
+import { ListItemsQueryDto, ItemSortField } from './dto/list-items-query.dto';
+import { SearchItemsQueryDto } from './dto/search-items-query.dto';
 import { PosthogService } from '@posthog/posthog';
+import { MetadataSchemasService } from '../metadata-schemas/metadata-schemas.service';
+import { TagsService } from '../tags/tags.service';
+import { ItemAccessService } from './item-access.service';
+import { User } from '@common/common';
 
+// Fields that an update may change and that are recorded in the revision history
+const REVISIONED_FIELDS = ['name', 'description', 'metadata'] as const;
+
+// Sort expressions; timestamps are truncated to milliseconds so cursor values round-trip through JS dates
+const SORT_EXPRESSIONS: Record<ItemSortField, string> = {
+    name: 'item.name',
+    createdAt: "date_trunc('milliseconds', item.createdAt)",
+    updatedAt: "date_trunc('milliseconds', item.updatedAt)",
+};
+
+// Only these fields of the creator are returned with items; the rest of the user row stays private
+const AUTHOR_FIELDS = ['createdBy.id', 'createdBy.email', 'createdBy.name'];
+
+// Text search configuration, must match the one in Item.searchVector
+const SEARCH_CONFIG = 'english';
+
+// ts_headline wraps matches in these private-use characters so the text can be HTML-escaped before adding <mark> tags
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+interface ItemCursor {
+    s: ItemSortField;
+    o: 'ASC' | 'DESC';
+    v: string;
+    id: number;
+}
 @Injectable()
-export class ItemsService {
+export class ItemsService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(ItemsService.name);
+    private purgeTimer: NodeJS.Timeout | null = null;
+    private readonly trashRetentionDays: number;
+    private readonly purgeIntervalMs: number;
+
     constructor(
         @InjectRepository(Item)
         private itemsRepository: Repository<Item>,
+        @InjectRepository(ItemRevision)
+        private revisionsRepository: Repository<ItemRevision>,
+        @InjectRepository(ItemShare)
+        private sharesRepository: Repository<ItemShare>,
+        @InjectRepository(User)
+        private usersRepository: Repository<User>,
         private posthogService: PosthogService,
-    ) {}
+        private metadataSchemasService: MetadataSchemasService,
+        private tagsService: TagsService,
+        private itemAccessService: ItemAccessService,
+        config: ConfigService,
+    ) {
+        this.trashRetentionDays = parseFloat(config.get('ITEMS_TRASH_RETENTION_DAYS')) || 30;
+        this.purgeIntervalMs = (parseFloat(config.get('ITEMS_TRASH_PURGE_INTERVAL_MINUTES')) || 60) * 60 * 1000;
+    }
+
+    async onModuleInit() {
+        // TypeORM cannot declare GIN indexes, so the search index is created here (the entity marks it synchronize: false)
+        try {
+            await this.itemsRepository.query('CREATE INDEX IF NOT EXISTS "IDX_items_search_vector" ON "items" USING GIN ("searchVector")');
+        } catch (error) {
+            this.logger.warn(`⚠️ Could not create items search index: ${error.message}`);
+        }
+
+        this.purgeTimer = setInterval(() => void this.purgeTrash(), this.purgeIntervalMs);
+        this.purgeTimer.unref();
+    }
+
+    onModuleDestroy() {
+        if (this.purgeTimer) {
+            clearInterval(this.purgeTimer);
+            this.purgeTimer = null;
+        }
+    }
 
     async create(createItemDto: CreateItemDto, userId?: string) {
         //throw an error if the item already exists
@@ -23,6 +98,8 @@ export class ItemsService {
             throw new BadRequestException('Item already exists');
         }
 
+        await this.metadataSchemasService.assertValid(createItemDto.metadata);
+
         const item = this.itemsRepository.create({
             ...createItemDto,
             createdById: userId ? parseInt(userId) : null,
@@ -35,43 +112,456 @@ export class ItemsService {
         return savedItem;
     }
 
-    async search(query: string, userId?: string) {
-        const items = await this.itemsRepository.find({
-            where: [{ name: Like(`%${query}%`) }, { description: Like(`%${query}%`) }],
-            relations: ['createdBy'],
-        });
+    async search(query: SearchItemsQueryDto, userId?: string) {
+        const { limit = 20, offset = 0 } = query;
+        const tsquery = this.toPrefixTsquery(query.q || '');
+        if (!tsquery) {
+            return [];
+        }
+
+        const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+        const snippetOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=20, MinWords=5`;
+
+        const qb = this.itemsRepository
+            .createQueryBuilder('item')
+            .leftJoin('item.createdBy', 'createdBy')
+            .addSelect(AUTHOR_FIELDS)
+            .addSelect('ts_rank(item.searchVector, to_tsquery(:config, :tsquery))', 'rank')
+            .addSelect('ts_headline(:config, item.name, to_tsquery(:config, :tsquery), :headlineOptions)', 'name_highlight')
+            .addSelect('ts_headline(:config, item.description, to_tsquery(:config, :tsquery), :snippetOptions)', 'description_highlight')
+            .where('item.searchVector @@ to_tsquery(:config, :tsquery)')
+            .setParameters({ config: SEARCH_CONFIG, tsquery, headlineOptions, snippetOptions });
+        this.itemAccessService.applyReadFilter(qb, parseInt(userId) || undefined);
+        this.applyMetadataFilters(qb, query.metadata);
+        this.applyGroupingFilters(qb, query, userId);
+
+        const { entities, raw } = await qb.orderBy('rank', 'DESC').addOrderBy('item.id', 'DESC').limit(limit).offset(offset).getRawAndEntities();
+        const rawById = new Map(raw.map((row) => [row.item_id, row]));
 
         // Note: We do NOT track search events - only errors are tracked
-        return items;
+        return (await this.attachTags(entities)).map((item) => {
+            const row = rawById.get(item.id);
+            return {
+                ...item,
+                rank: Number(row?.rank ?? 0),
+                highlights: {
+                    name: this.toHighlightHtml(row?.name_highlight ?? item.name),
+                    description: row?.description_highlight != null ? this.toHighlightHtml(row.description_highlight) : null,
+                },
+            };
+        });
     }
 
-    async delete(id: number, userId?: string): Promise<void> {
+    async delete(id: number): Promise<void> {
         const item = await this.itemsRepository.findOne({
             where: { id },
         });
 
         if (!item) {
-            throw new BadRequestException('Item not found');
+            throw new NotFoundException('Item not found');
+        }
+
+        // Moves the item to the trash; it is purged after the retention period
+        await this.itemsRepository.softRemove(item);
+    }
+
+    async findTrash(userId: string) {
+        return this.itemsRepository
+            .createQueryBuilder('item')
+            .withDeleted()
+            .leftJoin('item.createdBy', 'createdBy')
+            .addSelect(AUTHOR_FIELDS)
+            .leftJoinAndSelect('item.tags', 'tags')
+            .where('item.deletedAt IS NOT NULL')
+            .andWhere('item.createdById = :userId', { userId: parseInt(userId) })
+            .orderBy('item.deletedAt', 'DESC')
+            .getMany();
+    }
+
+    async restore(id: number) {
+        const item = await this.itemsRepository.findOne({
+            where: { id },
+            withDeleted: true,
+        });
+
+        if (!item || !item.deletedAt) {
+            throw new NotFoundException('Item not found in trash');
+        }
+
+        // Names are unique among live items, so another item may have taken it meanwhile
+        const existingItem = await this.itemsRepository.findOne({
+            where: { name: item.name },
+        });
+
+        if (existingItem) {
+            throw new BadRequestException('An item with the same name already exists');
+        }
+
+        await this.itemsRepository.recover(item);
+        return this.findOne(id);
+    }
+
+    /**
+     * Permanently deletes items that have been in the trash longer than the retention period.
+     */
+    async purgeTrash(): Promise<number> {
+        const cutoff = new Date(Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000);
+
+        try {
+            const result = await this.itemsRepository.delete({ deletedAt: LessThan(cutoff) });
+            if (result.affected) {
+                this.logger.log(`✅ Purged ${result.affected} item(s) trashed before ${cutoff.toISOString()}`);
+            }
+            return result.affected || 0;
+        } catch (error) {
+            this.logger.error(`❌ Failed to purge trashed items: ${error.message}`);
+            return 0;
+        }
+    }
+
+    /**
+     * Applies changes to an item, rejecting them if the item changed since `version`.
+     * With `replace`, fields missing from the DTO are cleared instead of kept.
+     */
+    async update(id: number, dto: UpdateItemDto | ReplaceItemDto, userId?: string, replace = false) {
+        const { version, ...fields } = dto;
+
+        const { item: updated } = await this.itemsRepository.manager.transaction(async (manager) => {
+            // Lock the row so concurrent updates with the same version cannot both pass the check
+            const item = await manager.findOne(Item, {
+                where: { id },
+                lock: { mode: 'pessimistic_write' },
+            });
+
+            if (!item) {
+                throw new NotFoundException('Item not found');
+            }
+
+            if (item.version !== version) {
+                throw new ConflictException(`Item has been modified since version ${version} (current version is ${item.version})`);
+            }
+
+            return this.applyChanges(manager, item, fields, userId, replace);
+        });
+
+        return this.findOne(updated.id);
+    }
+
+    /**
+     * Writes the fields that differ from the item and records one revision per changed field.
+     * Must run inside a transaction that holds the item row.
+     */
+    async applyChanges(
+        manager: EntityManager,
+        item: Item,
+        fields: Partial<Pick<Item, (typeof REVISIONED_FIELDS)[number]>>,
+        userId?: string,
+        replace = false,
+    ): Promise<{ item: Item; changed: boolean }> {
+        const changes: { field: string; previousValue: any; newValue: any }[] = [];
+        for (const field of REVISIONED_FIELDS) {
+            if (!replace && fields[field] === undefined) {
+                continue;
+            }
+
+            const newValue = fields[field] ?? null;
+            if (JSON.stringify(item[field] ?? null) !== JSON.stringify(newValue)) {
+                changes.push({ field, previousValue: item[field] ?? null, newValue });
+            }
+        }
+
+        if (changes.length === 0) {
+            return { item, changed: false };
+        }
+
+        const nameChange = changes.find((change) => change.field === 'name');
+        if (nameChange) {
+            if (!nameChange.newValue) {
+                throw new BadRequestException('Item name cannot be empty');
+            }
+
+            const existingItem = await manager.findOne(Item, {
+                where: { name: nameChange.newValue, id: Not(item.id) },
+            });
+
+            if (existingItem) {
+                throw new BadRequestException('Item already exists');
+            }
+        }
+
+        if (changes.some((change) => change.field === 'metadata')) {
+            await this.metadataSchemasService.assertValid(fields.metadata);
         }
 
-        // Optional: Check if user owns the item
-        if (userId && item.createdById !== parseInt(userId)) {
-            throw new BadRequestException('You can only delete your own items');
+        for (const change of changes) {
+            item[change.field] = change.newValue;
         }
+        const savedItem = await manager.save(Item, item);
 
-        await this.itemsRepository.remove(item);
+        await manager.save(
+            ItemRevision,
+            changes.map((change) =>
+                manager.create(ItemRevision, {
+                    ...change,
+                    itemId: item.id,
+                    version: savedItem.version,
+                    changedById: userId ? parseInt(userId) : null,
+                }),
+            ),
+        );
+
+        return { item: savedItem, changed: true };
     }
 
-    async findAll() {
-        return this.itemsRepository.find({
-            relations: ['createdBy'],
+    async findRevisions(id: number) {
+        const item = await this.itemsRepository.findOne({
+            where: { id },
+            withDeleted: true,
         });
+
+        if (!item) {
+            throw new NotFoundException('Item not found');
+        }
+
+        return this.revisionsRepository.find({
+            where: { itemId: id },
+            order: { version: 'DESC', id: 'ASC' },
+        });
+    }
+
+    async findAll(query: ListItemsQueryDto = {}, userId?: string) {
+        const { limit = 20, offset = 0, cursor, sortBy = 'createdAt', sortOrder = 'DESC' } = query;
+
+        const qb = this.itemsRepository.createQueryBuilder('item').leftJoin('item.createdBy', 'createdBy').addSelect(AUTHOR_FIELDS);
+
+        if (query.createdById !== undefined) {
+            qb.andWhere('item.createdById = :createdById', { createdById: query.createdById });
+        }
+        if (query.createdAfter) {
+            qb.andWhere('item.createdAt >= :createdAfter', { createdAfter: new Date(query.createdAfter) });
+        }
+        if (query.createdBefore) {
+            qb.andWhere('item.createdAt < :createdBefore', { createdBefore: new Date(query.createdBefore) });
+        }
+        if (query.updatedAfter) {
+            qb.andWhere('item.updatedAt >= :updatedAfter', { updatedAfter: new Date(query.updatedAfter) });
+        }
+        if (query.updatedBefore) {
+            qb.andWhere('item.updatedAt < :updatedBefore', { updatedBefore: new Date(query.updatedBefore) });
+        }
+        this.itemAccessService.applyReadFilter(qb, parseInt(userId) || undefined);
+        this.applyMetadataFilters(qb, query.metadata);
+        this.applyGroupingFilters(qb, query, userId);
+
+        const total = await qb.clone().getCount();
+
+        const sortExpression = SORT_EXPRESSIONS[sortBy];
+        if (cursor) {
+            const position = this.decodeCursor(cursor, sortBy, sortOrder);
+            const op = sortOrder === 'ASC' ? '>' : '<';
+            qb.andWhere(`(${sortExpression} ${op} :cursorValue OR (${sortExpression} = :cursorValue AND item.id ${op} :cursorId))`, {
+                cursorValue: sortBy === 'name' ? position.v : new Date(position.v),
+                cursorId: position.id,
+            });
+        } else {
+            qb.offset(offset);
+        }
+
+        // Fetch one extra row to know whether there is a next page
+        const rows = await qb.orderBy(sortExpression, sortOrder).addOrderBy('item.id', sortOrder).limit(limit + 1).getMany();
+        const data = await this.attachTags(rows.slice(0, limit));
+        const last = data[data.length - 1];
+
+        return {
+            data,
+            total,
+            limit,
+            offset: cursor ? null : offset,
+            nextCursor: rows.length > limit ? this.encodeCursor(last, sortBy, sortOrder) : null,
+        };
     }
 
     async findOne(id: number) {
-        return this.itemsRepository.findOne({
+        return this.itemsRepository
+            .createQueryBuilder('item')
+            .leftJoin('item.createdBy', 'createdBy')
+            .addSelect(AUTHOR_FIELDS)
+            .leftJoinAndSelect('item.tags', 'tags')
+            .where('item.id = :id', { id })
+            .getOne();
+    }
+
+    async addTags(id: number, names: string[]) {
+        await this.assertExists(id);
+        const tags = await this.tagsService.findOrCreate(names);
+
+        // Tags the item already has are left as they are
+        await this.itemsRepository.manager
+            .createQueryBuilder()
+            .insert()
+            .into('item_tags', ['itemId', 'tagId'])
+            .values(tags.map((tag) => ({ itemId: id, tagId: tag.id })))
+            .orIgnore()
+            .execute();
+
+        return this.findOne(id);
+    }
+
+    async removeTag(id: number, name: string) {
+        await this.assertExists(id);
+        const normalized = this.tagsService.normalize(name);
+
+        await this.itemsRepository.manager
+            .createQueryBuilder()
+            .delete()
+            .from('item_tags')
+            .where('"itemId" = :id AND "tagId" IN (SELECT id FROM tags WHERE name = :name)', { id, name: normalized })
+            .execute();
+
+        return this.findOne(id);
+    }
+
+    async setVisibility(id: number, visibility: ItemVisibility) {
+        await this.assertExists(id);
+        await this.itemsRepository.update(id, { visibility });
+        return this.findOne(id);
+    }
+
+    async findShares(id: number) {
+        const shares = await this.sharesRepository.find({
+            where: { itemId: id },
+            relations: ['user'],
+            order: { createdAt: 'ASC' },
+        });
+
+        return shares.map((share) => ({ userId: share.userId, email: share.user.email, role: share.role, createdAt: share.createdAt }));
+    }
+
+    async share(id: number, targetUserId: number, role: ItemShareRole, ownerId?: string) {
+        await this.assertExists(id);
+
+        if (ownerId && targetUserId === parseInt(ownerId)) {
+            throw new BadRequestException('You cannot share an item with yourself');
+        }
+
+        const user = await this.usersRepository.findOne({
+            where: { id: targetUserId },
+        });
+
+        if (!user) {
+            throw new BadRequestException('User not found');
+        }
+
+        await this.sharesRepository.upsert({ itemId: id, userId: targetUserId, role }, ['itemId', 'userId']);
+        return this.findShares(id);
+    }
+
+    async unshare(id: number, targetUserId: number) {
+        await this.sharesRepository.delete({ itemId: id, userId: targetUserId });
+        return this.findShares(id);
+    }
+
+    private encodeCursor(item: Item, sortBy: ItemSortField, sortOrder: 'ASC' | 'DESC'): string {
+        const value = sortBy === 'name' ? item.name : item[sortBy].toISOString();
+        const cursor: ItemCursor = { s: sortBy, o: sortOrder, v: value, id: item.id };
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    private decodeCursor(cursor: string, sortBy: ItemSortField, sortOrder: 'ASC' | 'DESC'): ItemCursor {
+        let decoded: ItemCursor;
+        try {
+            decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        } catch {
+            throw new BadRequestException('Invalid cursor');
+        }
+
+        if (!decoded || typeof decoded.v !== 'string' || !Number.isInteger(decoded.id)) {
+            throw new BadRequestException('Invalid cursor');
+        }
+        if (decoded.s !== sortBy || decoded.o !== sortOrder) {
+            throw new BadRequestException('Cursor was issued for a different sort order');
+        }
+        if (sortBy !== 'name' && isNaN(Date.parse(decoded.v))) {
+            throw new BadRequestException('Invalid cursor');
+        }
+
+        return decoded;
+    }
+
+    private applyMetadataFilters(qb: SelectQueryBuilder<Item>, metadata?: Record<string, string>) {
+        Object.entries(metadata || {}).forEach(([key, value], index) => {
+            // Keys and values are bound as parameters, values are compared as text
+            qb.andWhere(`item.metadata ->> :metadataKey${index} = :metadataValue${index}`, {
+                [`metadataKey${index}`]: key,
+                [`metadataValue${index}`]: String(value),
+            });
+        });
+    }
+
+    /**
+     * Turns free text into a tsquery where every word must match and the last one may be a prefix.
+     * Only letters and digits are kept, so tsquery operators in user input have no effect.
+     */
+    private toPrefixTsquery(text: string): string | null {
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+        if (!words) {
+            return null;
+        }
+
+        return words.map((word, index) => (index === words.length - 1 ? `${word}:*` : word)).join(' & ');
+    }
+
+    private toHighlightHtml(text: string): string {
+        const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+        return escaped.split(HIGHLIGHT_START).join('<mark>').split(HIGHLIGHT_END).join('</mark>');
+    }
+
+    private async assertExists(id: number): Promise<void> {
+        const exists = await this.itemsRepository.exists({
             where: { id },
-            relations: ['createdBy'],
         });
+
+        if (!exists) {
+            throw new NotFoundException('Item not found');
+        }
+    }
+
+    /**
+     * Restricts a query to items having every tag in `tags` and, with `collectionId`, to items in that collection of the user.
+     */
+    private applyGroupingFilters(qb: SelectQueryBuilder<Item>, filters: { tags?: string[]; collectionId?: number }, userId?: string) {
+        (filters.tags || []).forEach((tag, index) => {
+            qb.andWhere(
+                `EXISTS (SELECT 1 FROM item_tags it JOIN tags t ON t.id = it."tagId" WHERE it."itemId" = item.id AND t.name = :tag${index})`,
+                { [`tag${index}`]: this.tagsService.normalize(tag) },
+            );
+        });
+
+        if (filters.collectionId !== undefined) {
+            // Without a user nothing matches, since collections are private
+            qb.andWhere(
+                'EXISTS (SELECT 1 FROM collection_items ci JOIN collections c ON c.id = ci."collectionId" WHERE ci."itemId" = item.id AND c.id = :collectionId AND c."ownerId" = :collectionOwnerId)',
+                { collectionId: filters.collectionId, collectionOwnerId: parseInt(userId) || 0 },
+            );
+        }
+    }
+
+    /**
+     * Loads tags for a page of items in one query, since joining them into the page query would break its LIMIT.
+     */
+    private async attachTags(items: Item[]): Promise<Item[]> {
+        if (items.length === 0) {
+            return items;
+        }
+
+        const withTags = await this.itemsRepository.find({
+            where: { id: In(items.map((item) => item.id)) },
+            relations: ['tags'],
+            select: { id: true, tags: { id: true, name: true } },
+            withDeleted: true,
+        });
+
+        const tagsById = new Map(withTags.map((item) => [item.id, item.tags.sort((a, b) => a.name.localeCompare(b.name))]));
+        return items.map((item) => Object.assign(item, { tags: tagsById.get(item.id) || [] }));
     }
 }
@@ -0,0 +1,51 @@
+import { CsvParseError, parseCsv, toCsvLine } from './csv';
+
+describe('csv', () => {
+    describe('parseCsv', () => {
+        it('splits records and fields', () => {
+            expect(parseCsv('name,description\nLamp,Desk lamp\nChair,\n')).toEqual([
+                ['name', 'description'],
+                ['Lamp', 'Desk lamp'],
+                ['Chair', ''],
+            ]);
+        });
+
+        it('reads quoted fields with commas, escaped quotes and line breaks', () => {
+            expect(parseCsv('name,description\r\n"Lamp, large","Says ""hi""\r\non two lines"\r\n')).toEqual([
+                ['name', 'description'],
+                ['Lamp, large', 'Says "hi"\r\non two lines'],
+            ]);
+        });
+
+        it('skips a byte order mark and blank lines', () => {
+            expect(parseCsv('\uFEFFname\n\nLamp\r\n\r\nChair')).toEqual([['name'], ['Lamp'], ['Chair']]);
+        });
+
+        it('keeps lines made of empty fields', () => {
+            expect(parseCsv('name,description\n,\n')).toEqual([
+                ['name', 'description'],
+                ['', ''],
+            ]);
+        });
+
+        it('rejects an unterminated quoted field', () => {
+            expect(() => parseCsv('name\n"Lamp\n')).toThrow(new CsvParseError('Unterminated quoted field on record 2'));
+        });
+
+        it('rejects a quote inside an unquoted field', () => {
+            expect(() => parseCsv('name\nLa"mp\n')).toThrow(CsvParseError);
+        });
+    });
+
+    describe('toCsvLine', () => {
+        it('quotes only the fields that need it', () => {
+            expect(toCsvLine([1, 'Lamp', 'a, b', 'say "hi"', 'two\nlines', null, undefined])).toBe('1,Lamp,"a, b","say ""hi""","two\nlines",,\r\n');
+        });
+
+        it('round-trips through parseCsv', () => {
+            const record = ['Lamp, large', '{"color":"red"}', 'line\r\nbreak', ''];
+
+            expect(parseCsv(toCsvLine(['name', 'metadata', 'description', 'extra']) + toCsvLine(record))[1]).toEqual(record);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: comma separated, double-quoted fields, "" escapes and quoted line breaks.
+ */
+
+export class CsvParseError extends Error {}
+
+/**
+ * Parses CSV text into records (arrays of fields). Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // skip BOM
+
+    const endRecord = () => {
+        record.push(field);
+        if (record.length > 1 || record[0] !== '') {
+            records.push(record);
+        }
+        record = [];
+        field = '';
+    };
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            if (field !== '') {
+                throw new CsvParseError(`Unexpected quote in unquoted field on record ${records.length + 1}`);
+            }
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            endRecord();
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new CsvParseError(`Unterminated quoted field on record ${records.length + 1}`);
+    }
+    endRecord();
+
+    return records;
+}
+
+/**
+ * Formats one CSV line (with trailing CRLF), quoting fields that need it.
+ */
+export function toCsvLine(values: (string | number | null | undefined)[]): string {
+    return (
+        values
+            .map((value) => {
+                const text = value === null || value === undefined ? '' : String(value);
+                return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+            })
+            .join(',') + '\r\n'
+    );
+}
@@ -18,8 +18,8 @@ async function bootstrap() {
     // Enable validation
     app.useGlobalPipes(new ValidationPipe());
 
-    // PostHog interceptor is applied selectively to specific controllers/methods
-    // See items.controller.ts for usage
+    // PostHog interceptor is registered globally by PosthogModule (globalInterceptor: true)
+    // Routes choose what is tracked with @TrackEvent, @TrackDiff and @SkipTracking - see items.controller.ts
 
     // Swagger/OpenAPI Documentation
     const config = new DocumentBuilder()
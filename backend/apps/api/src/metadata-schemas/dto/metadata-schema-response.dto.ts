@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MetadataSchemaResponseDto {
+    @ApiProperty({
+        description: 'Metadata category the schema applies to',
+        example: 'electronics',
+    })
+    category: string;
+
+    @ApiProperty({
+        description: 'What the category is for',
+        example: 'Electronic devices and accessories',
+        nullable: true,
+    })
+    description: string | null;
+
+    @ApiProperty({
+        description: 'JSON Schema (draft-07) for item metadata in this category',
+        example: {
+            type: 'object',
+            properties: {
+                category: { const: 'electronics' },
+                price: { type: 'number', minimum: 0 },
+            },
+            required: ['price'],
+        },
+    })
+    schema: Record<string, any>;
+
+    @ApiProperty({
+        description: 'Last change of the schema',
+        example: '2024-01-15T10:30:00.000Z',
+    })
+    updatedAt: Date;
+}
@@ -0,0 +1,28 @@
+import { IsString, IsOptional, IsObject } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpsertMetadataSchemaDto {
+    @ApiProperty({
+        description: 'JSON Schema (draft-07) for the whole metadata object, including the category property',
+        example: {
+            type: 'object',
+            properties: {
+                category: { const: 'electronics' },
+                price: { type: 'number', minimum: 0 },
+                brand: { type: 'string' },
+            },
+            required: ['price'],
+        },
+    })
+    @IsObject()
+    schema: Record<string, any>;
+
+    @ApiProperty({
+        description: 'What the category is for',
+        example: 'Electronic devices and accessories',
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    description?: string;
+}
@@ -0,0 +1,25 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * JSON Schema that item metadata must match when its `category` equals `category`
+ */
+@Entity('item_metadata_schemas')
+export class MetadataSchema {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ unique: true })
+    category: string;
+
+    @Column({ nullable: true })
+    description: string;
+
+    @Column({ type: 'json' })
+    schema: Record<string, any>;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
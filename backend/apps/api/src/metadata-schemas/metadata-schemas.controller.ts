@@ -0,0 +1,101 @@
+import { Controller, Get, Put, Delete, Body, Param, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { MetadataSchemasService } from './metadata-schemas.service';
+import { UpsertMetadataSchemaDto } from './dto/upsert-metadata-schema.dto';
+import { MetadataSchemaResponseDto } from './dto/metadata-schema-response.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard, Permissions } from '@common/common';
+
+@ApiTags('metadata-schemas')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('items:read')
+@ApiBearerAuth('JWT-auth')
+@Controller('metadata-schemas')
+@ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
+})
+export class MetadataSchemasController {
+    constructor(private readonly metadataSchemasService: MetadataSchemasService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'List metadata schemas',
+        description: 'Returns the JSON Schema for every metadata category, so clients can build forms',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Metadata schemas',
+        type: [MetadataSchemaResponseDto],
+    })
+    async findAll() {
+        return this.metadataSchemasService.findAll();
+    }
+
+    @Get(':category')
+    @ApiOperation({
+        summary: 'Get a metadata schema',
+        description: 'Returns the JSON Schema for one metadata category',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Metadata schema',
+        type: MetadataSchemaResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'No schema for this category',
+    })
+    async findOne(@Param('category') category: string) {
+        return this.metadataSchemasService.findOne(category);
+    }
+
+    @Put(':category')
+    @Permissions('metadata-schemas:manage')
+    @ApiOperation({
+        summary: 'Create or replace a metadata schema (admin)',
+        description: 'Items whose metadata.category equals the category must match the schema when they are created or updated',
+    })
+    @ApiBody({
+        type: UpsertMetadataSchemaDto,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Schema saved',
+        type: MetadataSchemaResponseDto,
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid category or JSON Schema',
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Requires the metadata-schemas:manage permission',
+    })
+    async upsert(@Param('category') category: string, @Body() upsertMetadataSchemaDto: UpsertMetadataSchemaDto) {
+        return this.metadataSchemasService.upsert(category, upsertMetadataSchemaDto);
+    }
+
+    @Delete(':category')
+    @Permissions('metadata-schemas:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Delete a metadata schema (admin)',
+        description: 'Metadata in this category is no longer validated',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Schema deleted',
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Requires the metadata-schemas:manage permission',
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'No schema for this category',
+    })
+    async remove(@Param('category') category: string) {
+        await this.metadataSchemasService.remove(category);
+    }
+}
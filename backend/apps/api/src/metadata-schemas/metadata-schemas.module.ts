@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MetadataSchemasController } from './metadata-schemas.controller';
+import { MetadataSchemasService } from './metadata-schemas.service';
+import { MetadataSchema } from './entities/metadata-schema.entity';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([MetadataSchema])],
+    controllers: [MetadataSchemasController],
+    providers: [MetadataSchemasService],
+    exports: [MetadataSchemasService],
+})
+export class MetadataSchemasModule {}
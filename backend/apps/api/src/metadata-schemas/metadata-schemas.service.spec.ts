@@ -0,0 +1,55 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { MetadataSchemasService } from './metadata-schemas.service';
+import { MetadataSchema } from './entities/metadata-schema.entity';
+
+describe('MetadataSchemasService', () => {
+    // Stored rows are cloned on read, like entities loaded from the database
+    let rows: Map<string, MetadataSchema>;
+    let service: MetadataSchemasService;
+
+    const productSchema = {
+        $id: 'https://example.com/schemas/product.json',
+        type: 'object',
+        properties: { category: { const: 'product' }, price: { type: 'number' } },
+        required: ['price'],
+    };
+
+    beforeEach(() => {
+        rows = new Map();
+        const repository = {
+            findOne: jest.fn(async ({ where }) => (rows.has(where.category) ? structuredClone(rows.get(where.category)) : null)),
+            create: jest.fn((entity) => ({ ...entity })),
+            merge: jest.fn((entity, changes) => Object.assign(entity, changes)),
+            save: jest.fn(async (entity) => {
+                rows.set(entity.category, structuredClone({ ...entity, updatedAt: new Date() }));
+                return entity;
+            }),
+        };
+        service = new MetadataSchemasService(repository as unknown as Repository<MetadataSchema>);
+    });
+
+    it('validates metadata against a schema that declares $id after saving it', async () => {
+        await service.upsert('product', { schema: productSchema });
+
+        await expect(service.validate({ category: 'product', price: 10 })).resolves.toEqual([]);
+        await expect(service.validate({ category: 'product', price: 'free' })).resolves.toEqual([
+            { path: '/metadata/price', message: 'must be number' },
+        ]);
+    });
+
+    it('accepts the same $id schema again on re-upsert', async () => {
+        await service.upsert('product', { schema: productSchema });
+        await service.validate({ category: 'product', price: 10 });
+
+        await expect(service.upsert('product', { schema: productSchema, description: 'Products' })).resolves.toMatchObject({
+            description: 'Products',
+        });
+        await expect(service.validate({ category: 'product', price: 10 })).resolves.toEqual([]);
+    });
+
+    it('rejects an invalid schema', async () => {
+        await expect(service.upsert('product', { schema: { type: 'banana' } })).rejects.toBeInstanceOf(BadRequestException);
+        expect(rows.size).toBe(0);
+    });
+});
@@ -0,0 +1,157 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { MetadataSchema } from './entities/metadata-schema.entity';
+import { UpsertMetadataSchemaDto } from './dto/upsert-metadata-schema.dto';
+
+// Compiled schemas are reused for this long, so other instances pick up schema changes within this window
+const VALIDATOR_CACHE_TTL_MS = 30 * 1000;
+
+const CATEGORY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export interface MetadataValidationError {
+    /** JSON Pointer to the offending value, e.g. `/metadata/dimensions/0/width` */
+    path: string;
+    message: string;
+}
+
+interface CachedValidator {
+    validate: ValidateFunction | null;
+    loadedAt: number;
+}
+
+@Injectable()
+export class MetadataSchemasService {
+    private readonly validators = new Map<string, CachedValidator>();
+
+    constructor(
+        @InjectRepository(MetadataSchema)
+        private schemasRepository: Repository<MetadataSchema>,
+    ) {}
+
+    async findAll() {
+        return this.schemasRepository.find({
+            order: { category: 'ASC' },
+        });
+    }
+
+    async findOne(category: string) {
+        const schema = await this.schemasRepository.findOne({
+            where: { category },
+        });
+
+        if (!schema) {
+            throw new NotFoundException(`No metadata schema for category "${category}"`);
+        }
+
+        return schema;
+    }
+
+    async upsert(category: string, dto: UpsertMetadataSchemaDto) {
+        if (!CATEGORY_PATTERN.test(category)) {
+            throw new BadRequestException('Category must be 1-64 letters, digits, "-" or "_"');
+        }
+
+        try {
+            this.compile(dto.schema);
+        } catch (error) {
+            throw new BadRequestException(`Invalid JSON Schema: ${error.message}`);
+        }
+
+        const existing = await this.schemasRepository.findOne({
+            where: { category },
+        });
+        const schema = this.schemasRepository.merge(existing || this.schemasRepository.create({ category }), {
+            schema: dto.schema,
+            description: dto.description ?? null,
+        });
+
+        const saved = await this.schemasRepository.save(schema);
+        this.validators.delete(category);
+        return saved;
+    }
+
+    async remove(category: string): Promise<void> {
+        const schema = await this.findOne(category);
+        await this.schemasRepository.remove(schema);
+        this.validators.delete(category);
+    }
+
+    /**
+     * Checks metadata against the schema of its `category`. Metadata without a category,
+     * or whose category has no schema, is accepted as is.
+     */
+    async validate(metadata: Record<string, any> | null | undefined): Promise<MetadataValidationError[]> {
+        const category = metadata?.category;
+        if (typeof category !== 'string') {
+            return [];
+        }
+
+        const validate = await this.getValidator(category);
+        if (!validate || validate(metadata)) {
+            return [];
+        }
+
+        return validate.errors.map((error) => this.toValidationError(error));
+    }
+
+    /**
+     * Like validate, but throws a BadRequestException listing every error.
+     */
+    async assertValid(metadata: Record<string, any> | null | undefined): Promise<void> {
+        const errors = await this.validate(metadata);
+        if (errors.length === 0) {
+            return;
+        }
+
+        throw new BadRequestException({
+            statusCode: 400,
+            error: 'Bad Request',
+            message: errors.map((error) => `${error.path} ${error.message}`),
+            errors,
+        });
+    }
+
+    private async getValidator(category: string): Promise<ValidateFunction | null> {
+        const cached = this.validators.get(category);
+        if (cached && Date.now() - cached.loadedAt < VALIDATOR_CACHE_TTL_MS) {
+            return cached.validate;
+        }
+
+        const schema = await this.schemasRepository.findOne({
+            where: { category },
+        });
+        const validate = schema ? this.compile(schema.schema) : null;
+        this.validators.set(category, { validate, loadedAt: Date.now() });
+        return validate;
+    }
+
+    /**
+     * Compiles with a fresh Ajv instance. A shared one would keep every compiled schema registered,
+     * so recompiling a schema that declares `$id` would fail with "already exists".
+     */
+    private compile(schema: Record<string, any>): ValidateFunction {
+        const ajv = new Ajv({ allErrors: true });
+        addFormats(ajv);
+        return ajv.compile(schema);
+    }
+
+    private toValidationError(error: ErrorObject): MetadataValidationError {
+        let path = `/metadata${error.instancePath}`;
+
+        // Point at the property itself rather than its parent object
+        if (error.keyword === 'required') {
+            path += `/${this.escapePointer(error.params.missingProperty)}`;
+        } else if (error.keyword === 'additionalProperties') {
+            path += `/${this.escapePointer(error.params.additionalProperty)}`;
+        }
+
+        return { path, message: error.message || 'is invalid' };
+    }
+
+    private escapePointer(segment: string): string {
+        return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+    }
+}
@@ -0,0 +1,67 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Request } from 'express';
+import { Strategy } from 'passport';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { ApiKey, API_KEY_PREFIX, AuthenticatedUser } from '@common/common';
+
+// lastUsedAt is only written when it is older than this, to avoid a database write per request
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+/**
+ * Passport strategy that reads an API key from `X-API-Key` or `Authorization: Bearer pak_...`
+ * and hands it to the verify callback.
+ */
+class HeaderApiKeyStrategy extends Strategy {
+    name = 'api-key';
+
+    constructor(private readonly verify: (apiKey: string, done: (error: any, user?: any) => void) => void) {
+        super();
+    }
+
+    authenticate(req: Request) {
+        const header = req.headers['x-api-key'];
+        const bearer = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+        const apiKey = (Array.isArray(header) ? header[0] : header) || (bearer?.startsWith(API_KEY_PREFIX) ? bearer : undefined);
+
+        if (!apiKey) {
+            return this.fail(401);
+        }
+
+        this.verify(apiKey, (error, user) => {
+            if (error) {
+                return this.error(error);
+            }
+            return user ? this.success(user) : this.fail(401);
+        });
+    }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(HeaderApiKeyStrategy, 'api-key') {
+    constructor(
+        @InjectRepository(ApiKey)
+        private apiKeysRepository: Repository<ApiKey>,
+    ) {
+        super();
+    }
+
+    async validate(apiKey: string): Promise<AuthenticatedUser> {
+        const key = await this.apiKeysRepository.findOne({
+            where: { keyHash: createHash('sha256').update(apiKey).digest('hex') },
+            relations: ['user'],
+        });
+
+        if (!key || !key.user?.isActive || (key.expiresAt && key.expiresAt.getTime() <= Date.now())) {
+            throw new UnauthorizedException('Invalid or expired API key');
+        }
+
+        if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+            await this.apiKeysRepository.update(key.id, { lastUsedAt: new Date() });
+        }
+
+        return Object.assign(key.user, { twoFactorVerified: false, apiKeyScopes: key.scopes });
+    }
+}
@@ -3,7 +3,7 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { User } from '@common/common';
+import { User, AuthenticatedUser } from '@common/common';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -18,7 +18,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         });
     }
 
-    async validate(payload: any) {
+    async validate(payload: any): Promise<AuthenticatedUser> {
         const user = await this.usersRepository.findOne({
             where: { id: payload.sub },
         });
@@ -27,6 +27,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
             throw new UnauthorizedException();
         }
 
-        return user;
+        // Tokens issued before a logout from all devices
+        if ((payload.tv ?? 0) !== user.tokenVersion) {
+            throw new UnauthorizedException('Token has been revoked');
+        }
+
+        return Object.assign(user, { twoFactorVerified: payload.mfa === true });
     }
 }
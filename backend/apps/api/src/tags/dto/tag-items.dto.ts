@@ -0,0 +1,15 @@
+import { IsArray, ArrayNotEmpty, ArrayMaxSize, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TagItemsDto {
+    @ApiProperty({
+        description: 'Tags to add. Names are trimmed and lowercased; unknown tags are created.',
+        example: ['wireless', 'home office'],
+        type: [String],
+    })
+    @IsArray()
+    @ArrayNotEmpty()
+    @ArrayMaxSize(20)
+    @IsString({ each: true })
+    tags: string[];
+}
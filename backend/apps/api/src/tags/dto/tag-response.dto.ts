@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TagResponseDto {
+    @ApiProperty({
+        description: 'Unique identifier of the tag',
+        example: 1,
+    })
+    id: number;
+
+    @ApiProperty({
+        description: 'Tag name (lowercase)',
+        example: 'wireless',
+    })
+    name: string;
+}
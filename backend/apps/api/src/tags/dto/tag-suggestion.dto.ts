@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TagSuggestionDto {
+    @ApiProperty({
+        description: 'Tag name (lowercase)',
+        example: 'wireless',
+    })
+    name: string;
+
+    @ApiProperty({
+        description: 'Number of items with this tag',
+        example: 12,
+    })
+    itemCount: number;
+}
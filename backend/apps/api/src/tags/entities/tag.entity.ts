@@ -0,0 +1,14 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+
+@Entity('tags')
+export class Tag {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    // Normalized: trimmed, lowercase, single spaces
+    @Column({ unique: true, length: 50 })
+    name: string;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
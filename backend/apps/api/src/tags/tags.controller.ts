@@ -0,0 +1,47 @@
+import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { TagSuggestionDto } from './dto/tag-suggestion.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard, Permissions } from '@common/common';
+
+@ApiTags('tags')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('items:read')
+@ApiBearerAuth('JWT-auth')
+@Controller('tags')
+@ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
+})
+export class TagsController {
+    constructor(private readonly tagsService: TagsService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'Autocomplete tags',
+        description: 'Returns tags starting with the given prefix, most used first. Only items you can read are counted',
+    })
+    @ApiQuery({
+        name: 'q',
+        description: 'Tag prefix (empty returns the most used tags)',
+        required: false,
+        example: 'wire',
+    })
+    @ApiQuery({
+        name: 'limit',
+        description: 'Maximum number of tags to return (default: 10, max: 50)',
+        required: false,
+        type: Number,
+        example: 10,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Matching tags',
+        type: [TagSuggestionDto],
+    })
+    async suggest(@Request() req, @Query('q') q?: string, @Query('limit') limit?: string) {
+        const limitNum = limit ? Math.min(parseInt(limit, 10) || 10, 50) : 10;
+        return this.tagsService.suggest(q || '', limitNum, req.user?.id);
+    }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+import { Tag } from './entities/tag.entity';
+import { Item } from '../items/entities/item.entity';
+import { ItemShare } from '../items/entities/item-share.entity';
+import { ItemAccessService } from '../items/item-access.service';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Tag, Item, ItemShare])],
+    controllers: [TagsController],
+    // ItemAccessService is provided here too because ItemsModule imports this module
+    providers: [TagsService, ItemAccessService],
+    exports: [TagsService],
+})
+export class TagsModule {}
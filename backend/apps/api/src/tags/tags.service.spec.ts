@@ -0,0 +1,56 @@
+import { DataSource } from 'typeorm';
+import { User, ApiKey } from '@common/common';
+import { TagsService } from './tags.service';
+import { Tag } from './entities/tag.entity';
+import { Item } from '../items/entities/item.entity';
+import { ItemShare } from '../items/entities/item-share.entity';
+import { ItemRevision } from '../items/entities/item-revision.entity';
+import { ItemAccessService } from '../items/item-access.service';
+import { Collection } from '../collections/entities/collection.entity';
+
+describe('TagsService.suggest', () => {
+    let dataSource: DataSource;
+    let service: TagsService;
+    let executed: { query: string; parameters: any[] }[];
+
+    beforeAll(async () => {
+        // Metadata only, no connection: the generated SQL is captured instead of run
+        dataSource = new DataSource({ type: 'postgres', entities: [Item, ItemRevision, ItemShare, Tag, Collection, User, ApiKey] });
+        await (dataSource as any).buildMetadatas();
+    });
+
+    beforeEach(() => {
+        executed = [];
+        jest.spyOn(dataSource, 'createQueryRunner').mockReturnValue({
+            query: async (query: string, parameters: any[]) => {
+                executed.push({ query, parameters });
+                return { records: [{ name: 'wireless', itemCount: '2' }] };
+            },
+            release: async () => undefined,
+        } as any);
+
+        const itemsRepository = dataSource.getRepository(Item);
+        service = new TagsService(dataSource.getRepository(Tag), itemsRepository, new ItemAccessService(itemsRepository, dataSource.getRepository(ItemShare)));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('counts only items the user can read', async () => {
+        await expect(service.suggest('wire', 10, 7)).resolves.toEqual([{ name: 'wireless', itemCount: 2 }]);
+
+        const [{ query, parameters }] = executed;
+        expect(query).toContain(`"item"."visibility" = 'public'`);
+        expect(query).toContain('EXISTS (SELECT 1 FROM item_shares grantee');
+        expect(parameters).toContain(7);
+    });
+
+    it('leaves out tags that have no readable item', async () => {
+        await service.suggest('wire', 10, 7);
+
+        const [{ query }] = executed;
+        expect(query).toContain('INNER JOIN "tags" "tag"');
+        expect(query).toContain('"item"."deletedAt" IS NULL');
+    });
+});
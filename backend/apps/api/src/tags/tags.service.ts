@@ -0,0 +1,76 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Tag } from './entities/tag.entity';
+import { Item } from '../items/entities/item.entity';
+import { ItemAccessService } from '../items/item-access.service';
+
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _.-]{0,49}$/u;
+
+@Injectable()
+export class TagsService {
+    constructor(
+        @InjectRepository(Tag)
+        private tagsRepository: Repository<Tag>,
+        @InjectRepository(Item)
+        private itemsRepository: Repository<Item>,
+        private itemAccessService: ItemAccessService,
+    ) {}
+
+    /**
+     * Trims, lowercases and collapses whitespace. Throws for names that are empty, too long or contain punctuation.
+     */
+    normalize(name: string): string {
+        const normalized = name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+        if (!TAG_PATTERN.test(normalized)) {
+            throw new BadRequestException(`Invalid tag "${name}": use 1-50 letters, digits, spaces, "_", "-" or "."`);
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Returns the tags with these names, creating the missing ones.
+     */
+    async findOrCreate(names: string[]): Promise<Tag[]> {
+        const normalized = [...new Set(names.map((name) => this.normalize(name)))];
+
+        await this.tagsRepository
+            .createQueryBuilder()
+            .insert()
+            .into(Tag)
+            .values(normalized.map((name) => ({ name })))
+            .orIgnore()
+            .execute();
+
+        return this.tagsRepository.find({
+            where: { name: In(normalized) },
+        });
+    }
+
+    /**
+     * Tag names starting with `prefix`, most used first. Only items the user can read and that are not
+     * in the trash are counted; tags without any such item are left out.
+     */
+    async suggest(prefix: string, limit: number, userId?: number): Promise<{ name: string; itemCount: number }[]> {
+        const escaped = prefix.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[\\%_]/g, (char) => `\\${char}`);
+
+        const qb = this.itemsRepository
+            .createQueryBuilder('item')
+            .innerJoin('item.tags', 'tag')
+            .select('tag.name', 'name')
+            .addSelect('COUNT(item.id)', 'itemCount')
+            .where('tag.name LIKE :prefix', { prefix: `${escaped}%` });
+        this.itemAccessService.applyReadFilter(qb, userId);
+
+        const rows = await qb
+            .groupBy('tag.id')
+            .orderBy('"itemCount"', 'DESC')
+            .addOrderBy('tag.name', 'ASC')
+            .limit(limit)
+            .getRawMany();
+
+        return rows.map((row) => ({ name: row.name, itemCount: Number(row.itemCount) }));
+    }
+}
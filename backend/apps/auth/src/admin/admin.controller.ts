@@ -0,0 +1,125 @@
+import { Controller, Get, Put, Post, Body, Param, Query, UseGuards, ParseIntPipe, ValidationPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { RolesGuard, Permissions, TwoFactorGuard, RequireTwoFactor } from '@common/common';
+import { AdminService } from './admin.service';
+import { UpdateUserRolesDto } from './dto/update-user-roles.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { AdminUserResponseDto, PaginatedUsersResponseDto } from './dto/admin-user-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('admin')
+@UseGuards(JwtAuthGuard, RolesGuard, TwoFactorGuard)
+@Permissions('users:manage')
+@ApiBearerAuth('JWT-auth')
+@Controller('admin')
+@ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
+})
+@ApiResponse({
+    status: 403,
+    description: 'Requires the users:manage permission',
+})
+export class AdminController {
+    constructor(private readonly adminService: AdminService) {}
+
+    @Get('roles')
+    @ApiOperation({
+        summary: 'List roles',
+        description: 'Returns every role with the permissions it grants',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Permissions by role',
+        schema: {
+            type: 'object',
+            example: {
+                user: ['items:read', 'items:write'],
+                admin: ['items:read', 'items:write', 'metadata-schemas:manage', 'users:manage', 'analytics:manage'],
+            },
+        },
+    })
+    getRoles() {
+        return this.adminService.getRoles();
+    }
+
+    @Get('users')
+    @ApiOperation({
+        summary: 'List users',
+        description: 'Returns users with their roles and permissions',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Page of users',
+        type: PaginatedUsersResponseDto,
+    })
+    async findAll(@Query(new ValidationPipe({ transform: true })) query: ListUsersQueryDto) {
+        return this.adminService.findAll(query);
+    }
+
+    @Get('users/:id')
+    @ApiOperation({
+        summary: 'Get a user',
+        description: 'Returns a user with their roles and permissions',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'User',
+        type: AdminUserResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'User not found',
+    })
+    async findOne(@Param('id', ParseIntPipe) id: number) {
+        return this.adminService.findOne(id);
+    }
+
+    @Post('users/:id/unlock')
+    @ApiOperation({
+        summary: 'Unlock a user',
+        description: 'Lifts a lockout after too many failed logins and resets the failed attempt count',
+    })
+    @ApiResponse({
+        status: 201,
+        description: 'User unlocked',
+        type: AdminUserResponseDto,
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'User not found',
+    })
+    async unlock(@Param('id', ParseIntPipe) id: number) {
+        return this.adminService.unlock(id);
+    }
+
+    @Put('users/:id/roles')
+    @RequireTwoFactor()
+    @ApiOperation({
+        summary: 'Set user roles',
+        description: 'Replaces the roles and, when given, the direct permissions of a user. Takes effect on the next request; claims in tokens already issued are refreshed at the next login',
+    })
+    @ApiBody({
+        type: UpdateUserRolesDto,
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Roles updated',
+        type: AdminUserResponseDto,
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid roles or permissions, or the last admin would lose the admin role',
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Log in with two-factor authentication first',
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'User not found',
+    })
+    async updateRoles(@Param('id', ParseIntPipe) id: number, @Body() updateUserRolesDto: UpdateUserRolesDto) {
+        return this.adminService.updateRoles(id, updateUserRolesDto);
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from '@common/common';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([User]), AuthModule],
+    controllers: [AdminController],
+    providers: [AdminService],
+})
+export class AdminModule {}
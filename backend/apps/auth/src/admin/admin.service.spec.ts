@@ -0,0 +1,54 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { User } from '@common/common';
+import { AdminService } from './admin.service';
+import { LoginThrottleService } from '../auth/login-throttle.service';
+
+describe('AdminService.updateRoles', () => {
+    let users: User[];
+    let usersRepository: { findOne: jest.Mock; save: jest.Mock; createQueryBuilder: jest.Mock };
+    let service: AdminService;
+
+    const activeAdmins = () => users.filter((user) => user.isActive && user.roles.includes('admin')).length;
+
+    beforeEach(() => {
+        users = [
+            { id: 1, email: 'admin@example.com', isActive: true, roles: ['user', 'admin'], permissions: [] },
+            { id: 2, email: 'user@example.com', isActive: true, roles: ['user'], permissions: [] },
+            { id: 3, email: 'former@example.com', isActive: false, roles: ['user', 'admin'], permissions: [] },
+        ] as User[];
+
+        // The admin count is a query; it is answered from the users above
+        const countQuery = { where: () => countQuery, andWhere: () => countQuery, getCount: async () => activeAdmins() };
+        usersRepository = {
+            findOne: jest.fn(async ({ where }) => users.find((user) => user.id === where.id) ?? null),
+            save: jest.fn(async (user) => user),
+            createQueryBuilder: jest.fn(() => countQuery),
+        };
+        service = new AdminService(usersRepository as any, {} as LoginThrottleService);
+    });
+
+    it('does not remove the admin role from the last active admin', async () => {
+        await expect(service.updateRoles(1, { roles: ['user'] })).rejects.toThrow(new BadRequestException('Cannot remove the admin role from the last admin'));
+
+        expect(usersRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('removes the admin role while another active admin remains', async () => {
+        await service.updateRoles(2, { roles: ['user', 'admin'] });
+
+        await expect(service.updateRoles(1, { roles: ['user'] })).resolves.toMatchObject({ id: 1, roles: ['user'] });
+    });
+
+    it('does not count admins when the admin role is kept', async () => {
+        await expect(service.updateRoles(1, { roles: ['admin', 'admin'], permissions: ['analytics:manage'] })).resolves.toMatchObject({
+            roles: ['admin'],
+            permissions: ['analytics:manage'],
+        });
+
+        expect(usersRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('reports an unknown user as not found', async () => {
+        await expect(service.updateRoles(42, { roles: ['user'] })).rejects.toThrow(NotFoundException);
+    });
+});
@@ -0,0 +1,99 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User, ROLE_PERMISSIONS, getEffectivePermissions } from '@common/common';
+import { UpdateUserRolesDto } from './dto/update-user-roles.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { AdminUserResponseDto, PaginatedUsersResponseDto } from './dto/admin-user-response.dto';
+import { LoginThrottleService } from '../auth/login-throttle.service';
+
+@Injectable()
+export class AdminService {
+    constructor(
+        @InjectRepository(User)
+        private usersRepository: Repository<User>,
+        private loginThrottleService: LoginThrottleService,
+    ) {}
+
+    getRoles() {
+        return ROLE_PERMISSIONS;
+    }
+
+    async findAll(query: ListUsersQueryDto): Promise<PaginatedUsersResponseDto> {
+        const limit = query.limit ?? 20;
+        const offset = query.offset ?? 0;
+
+        const qb = this.usersRepository.createQueryBuilder('user').orderBy('user.id', 'ASC').take(limit).skip(offset);
+        if (query.role) {
+            qb.where(':role = ANY(user.roles)', { role: query.role });
+        }
+
+        const [users, total] = await qb.getManyAndCount();
+
+        return {
+            data: users.map((user) => this.toResponse(user)),
+            total,
+            limit,
+            offset,
+        };
+    }
+
+    async findOne(id: number): Promise<AdminUserResponseDto> {
+        return this.toResponse(await this.getUser(id));
+    }
+
+    async updateRoles(id: number, updateUserRolesDto: UpdateUserRolesDto): Promise<AdminUserResponseDto> {
+        const user = await this.getUser(id);
+        const roles = [...new Set(updateUserRolesDto.roles)];
+
+        if (user.roles.includes('admin') && !roles.includes('admin')) {
+            const admins = await this.usersRepository
+                .createQueryBuilder('user')
+                .where(`'admin' = ANY(user.roles)`)
+                .andWhere('user.isActive = true')
+                .getCount();
+
+            if (admins <= 1) {
+                throw new BadRequestException('Cannot remove the admin role from the last admin');
+            }
+        }
+
+        user.roles = roles;
+        if (updateUserRolesDto.permissions) {
+            user.permissions = [...new Set(updateUserRolesDto.permissions)];
+        }
+
+        return this.toResponse(await this.usersRepository.save(user));
+    }
+
+    async unlock(id: number): Promise<AdminUserResponseDto> {
+        await this.getUser(id);
+        await this.loginThrottleService.unlock(id);
+
+        return this.findOne(id);
+    }
+
+    private async getUser(id: number): Promise<User> {
+        const user = await this.usersRepository.findOne({ where: { id } });
+        if (!user) {
+            throw new NotFoundException(`User with ID ${id} not found`);
+        }
+        return user;
+    }
+
+    private toResponse(user: User): AdminUserResponseDto {
+        return {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            isActive: user.isActive,
+            emailVerified: user.emailVerified,
+            lockedUntil: user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null,
+            failedLoginAttempts: user.failedLoginAttempts,
+            roles: user.roles,
+            permissions: user.permissions,
+            effectivePermissions: getEffectivePermissions(user),
+            createdAt: user.createdAt,
+        };
+    }
+}
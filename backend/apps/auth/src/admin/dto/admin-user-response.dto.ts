@@ -0,0 +1,96 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AdminUserResponseDto {
+    @ApiProperty({
+        description: 'User ID',
+        example: 1,
+    })
+    id: number;
+
+    @ApiProperty({
+        description: 'User email address',
+        example: 'user@example.com',
+    })
+    email: string;
+
+    @ApiProperty({
+        description: 'User full name',
+        example: 'John Doe',
+    })
+    name: string;
+
+    @ApiProperty({
+        description: 'Whether the account is active',
+        example: true,
+    })
+    isActive: boolean;
+
+    @ApiProperty({
+        description: 'Whether the email address is verified',
+        example: true,
+    })
+    emailVerified: boolean;
+
+    @ApiProperty({
+        description: 'End of the current lockout after too many failed logins, or null',
+        example: null,
+        nullable: true,
+    })
+    lockedUntil: Date | null;
+
+    @ApiProperty({
+        description: 'Consecutive failed logins since the last successful one',
+        example: 0,
+    })
+    failedLoginAttempts: number;
+
+    @ApiProperty({
+        description: 'Roles of the user',
+        example: ['user'],
+    })
+    roles: string[];
+
+    @ApiProperty({
+        description: 'Permissions granted directly, on top of the roles',
+        example: [],
+    })
+    permissions: string[];
+
+    @ApiProperty({
+        description: 'All permissions the user has, from roles and direct grants',
+        example: ['items:read', 'items:write'],
+    })
+    effectivePermissions: string[];
+
+    @ApiProperty({
+        description: 'Creation timestamp',
+        example: '2024-01-15T10:30:00.000Z',
+    })
+    createdAt: Date;
+}
+
+export class PaginatedUsersResponseDto {
+    @ApiProperty({
+        description: 'Users on this page',
+        type: [AdminUserResponseDto],
+    })
+    data: AdminUserResponseDto[];
+
+    @ApiProperty({
+        description: 'Total number of matching users',
+        example: 42,
+    })
+    total: number;
+
+    @ApiProperty({
+        description: 'Page size',
+        example: 20,
+    })
+    limit: number;
+
+    @ApiProperty({
+        description: 'Number of users skipped',
+        example: 0,
+    })
+    offset: number;
+}
@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ROLES, Role } from '@common/common';
+
+export class ListUsersQueryDto {
+    @ApiProperty({
+        description: 'Maximum number of users to return (default: 20, max: 100)',
+        example: 20,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit?: number = 20;
+
+    @ApiProperty({
+        description: 'Number of users to skip',
+        example: 0,
+        required: false,
+    })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    offset?: number = 0;
+
+    @ApiProperty({
+        description: 'Only return users with this role',
+        enum: ROLES,
+        required: false,
+    })
+    @IsOptional()
+    @IsIn(ROLES)
+    role?: Role;
+}
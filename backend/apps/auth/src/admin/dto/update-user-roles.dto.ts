@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsIn, IsOptional } from 'class-validator';
+import { ROLES, PERMISSIONS, Role, Permission } from '@common/common';
+
+export class UpdateUserRolesDto {
+    @ApiProperty({
+        description: 'Roles of the user. Replaces the current roles',
+        example: ['user', 'admin'],
+        enum: ROLES,
+        isArray: true,
+    })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsIn(ROLES, { each: true })
+    roles: Role[];
+
+    @ApiProperty({
+        description: 'Permissions granted on top of the roles. Replaces the current ones; left unchanged when omitted',
+        example: ['analytics:manage'],
+        enum: PERMISSIONS,
+        isArray: true,
+        required: false,
+    })
+    @IsOptional()
+    @IsArray()
+    @IsIn(PERMISSIONS, { each: true })
+    permissions?: Permission[];
+}
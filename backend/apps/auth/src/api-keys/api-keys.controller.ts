@@ -0,0 +1,71 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, Request, HttpCode, HttpStatus, ParseIntPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyResponseDto, CreatedApiKeyResponseDto } from './dto/api-key-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('auth')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@Controller('auth/api-keys')
+@ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+})
+export class ApiKeysController {
+    constructor(private readonly apiKeysService: ApiKeysService) {}
+
+    @Post()
+    @ApiOperation({
+        summary: 'Create an API key',
+        description: 'Creates a personal API key for the items API. The key is only returned in this response',
+    })
+    @ApiBody({
+        type: CreateApiKeyDto,
+    })
+    @ApiResponse({
+        status: 201,
+        description: 'API key created',
+        type: CreatedApiKeyResponseDto,
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid scopes or expiry, or too many keys',
+    })
+    async create(@Request() req, @Body() createApiKeyDto: CreateApiKeyDto) {
+        return this.apiKeysService.create(req.user.id, createApiKeyDto);
+    }
+
+    @Get()
+    @ApiOperation({
+        summary: 'List API keys',
+        description: 'Returns the API keys of the current user, without the keys themselves',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'API keys',
+        type: [ApiKeyResponseDto],
+    })
+    async findAll(@Request() req) {
+        return this.apiKeysService.findAll(req.user.id);
+    }
+
+    @Delete(':id')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Revoke an API key',
+        description: 'Deletes the key; requests using it are rejected from then on',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'API key revoked',
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'API key not found',
+    })
+    async remove(@Request() req, @Param('id', ParseIntPipe) id: number) {
+        await this.apiKeysService.remove(req.user.id, id);
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiKey } from '@common/common';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([ApiKey])],
+    controllers: [ApiKeysController],
+    providers: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,71 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, API_KEY_PREFIX } from '@common/common';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyResponseDto, CreatedApiKeyResponseDto } from './dto/api-key-response.dto';
+
+const MAX_API_KEYS_PER_USER = 25;
+
+@Injectable()
+export class ApiKeysService {
+    constructor(
+        @InjectRepository(ApiKey)
+        private apiKeysRepository: Repository<ApiKey>,
+    ) {}
+
+    async create(userId: number, createApiKeyDto: CreateApiKeyDto): Promise<CreatedApiKeyResponseDto> {
+        const expiresAt = createApiKeyDto.expiresAt ? new Date(createApiKeyDto.expiresAt) : null;
+        if (expiresAt && expiresAt.getTime() <= Date.now()) {
+            throw new BadRequestException('expiresAt must be in the future');
+        }
+
+        const count = await this.apiKeysRepository.count({ where: { userId } });
+        if (count >= MAX_API_KEYS_PER_USER) {
+            throw new BadRequestException(`A user can have at most ${MAX_API_KEYS_PER_USER} API keys`);
+        }
+
+        const key = `${API_KEY_PREFIX}${randomBytes(30).toString('base64url')}`;
+        const apiKey = await this.apiKeysRepository.save(
+            this.apiKeysRepository.create({
+                name: createApiKeyDto.name,
+                prefix: key.slice(0, 12),
+                keyHash: createHash('sha256').update(key).digest('hex'),
+                scopes: [...new Set(createApiKeyDto.scopes)],
+                userId,
+                expiresAt,
+                lastUsedAt: null,
+            }),
+        );
+
+        return { ...this.toResponse(apiKey), key };
+    }
+
+    async findAll(userId: number): Promise<ApiKeyResponseDto[]> {
+        const apiKeys = await this.apiKeysRepository.find({
+            where: { userId },
+            order: { createdAt: 'DESC' },
+        });
+        return apiKeys.map((apiKey) => this.toResponse(apiKey));
+    }
+
+    async remove(userId: number, id: number): Promise<void> {
+        const result = await this.apiKeysRepository.delete({ id, userId });
+        if (!result.affected) {
+            throw new NotFoundException(`API key with ID ${id} not found`);
+        }
+    }
+
+    private toResponse(apiKey: ApiKey): ApiKeyResponseDto {
+        return {
+            id: apiKey.id,
+            name: apiKey.name,
+            prefix: apiKey.prefix,
+            scopes: apiKey.scopes,
+            expiresAt: apiKey.expiresAt,
+            lastUsedAt: apiKey.lastUsedAt,
+            createdAt: apiKey.createdAt,
+        };
+    }
+}
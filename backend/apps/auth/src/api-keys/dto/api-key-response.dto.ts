@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ApiKeyResponseDto {
+    @ApiProperty({
+        description: 'API key ID',
+        example: 1,
+    })
+    id: number;
+
+    @ApiProperty({
+        description: 'Name of the key',
+        example: 'CI import job',
+    })
+    name: string;
+
+    @ApiProperty({
+        description: 'First characters of the key',
+        example: 'pak_3fA9xQ2b',
+    })
+    prefix: string;
+
+    @ApiProperty({
+        description: 'Scopes of the key',
+        example: ['items:read'],
+    })
+    scopes: string[];
+
+    @ApiProperty({
+        description: 'Expiry, or null if the key does not expire',
+        example: null,
+        nullable: true,
+    })
+    expiresAt: Date | null;
+
+    @ApiProperty({
+        description: 'Last time the key was used (to the minute), or null',
+        example: '2024-01-15T10:30:00.000Z',
+        nullable: true,
+    })
+    lastUsedAt: Date | null;
+
+    @ApiProperty({
+        description: 'Creation timestamp',
+        example: '2024-01-15T10:30:00.000Z',
+    })
+    createdAt: Date;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+    @ApiProperty({
+        description: 'The API key. It is only returned here, store it now',
+        example: 'pak_3fA9xQ2bTq8mVw1zLr5nXc7yHd2kPs4gJe6uWa9b',
+    })
+    key: string;
+}
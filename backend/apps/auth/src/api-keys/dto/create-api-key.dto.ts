@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsDateString, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { API_KEY_SCOPES, ApiKeyScope } from '@common/common';
+
+export class CreateApiKeyDto {
+    @ApiProperty({
+        description: 'Name to recognise the key by',
+        example: 'CI import job',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({
+        description: 'What the key may do. It never gets more than the permissions of its owner',
+        example: ['items:read'],
+        enum: API_KEY_SCOPES,
+        isArray: true,
+    })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsIn(API_KEY_SCOPES, { each: true })
+    scopes: ApiKeyScope[];
+
+    @ApiProperty({
+        description: 'When the key stops working (ISO 8601). Omit for a key that does not expire',
+        example: '2025-12-31T23:59:59.000Z',
+        required: false,
+    })
+    @IsOptional()
+    @IsDateString()
+    expiresAt?: string;
+}
@@ -1,8 +1,12 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { ConfigModule } from '@nestjs/config';
-import { User } from '@common/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PosthogModule, posthogOptionsFromConfig } from '@posthog/posthog';
+import { User, ApiKey } from '@common/common';
 import { AuthModule } from './auth/auth.module';
+import { AdminModule } from './admin/admin.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { RefreshToken } from './auth/entities/refresh-token.entity';
 
 @Module({
     imports: [
@@ -16,10 +20,24 @@ import { AuthModule } from './auth/auth.module';
             username: process.env.DB_USERNAME || 'postgres',
             password: process.env.DB_PASSWORD || 'postgres',
             database: process.env.DB_NAME || 'posthog_demo',
-            entities: [User],
+            entities: [User, RefreshToken, ApiKey],
             synchronize: process.env.NODE_ENV !== 'production',
         }),
+        PosthogModule.forRootAsync({
+            // Login attempts are tracked explicitly; write-request comparison is not used here
+            previousCallStore: 'memory',
+            // Event and error endpoints belong to the API app
+            registerController: false,
+            inject: [ConfigService],
+            useFactory: (config: ConfigService) => {
+                const options = posthogOptionsFromConfig(config);
+                // Keep a separate outbox file from the API app when both run from the same directory
+                return { ...options, outbox: { ...options.outbox, filePath: config.get<string>('AUTH_POSTHOG_OUTBOX_PATH') || '.posthog/auth-outbox.json' } };
+            },
+        }),
         AuthModule,
+        AdminModule,
+        ApiKeysModule,
     ],
 })
 export class AppModule {}
@@ -0,0 +1,102 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, timingSafeEqual } from 'crypto';
+import { User } from '@common/common';
+
+export type AccountTokenPurpose = 'verify-email' | 'change-email' | 'reset-password' | 'two-factor-login';
+
+interface AccountTokenPayload {
+    sub: number;
+    purpose: AccountTokenPurpose;
+    fp: string;
+}
+
+/**
+ * Signed, expiring tokens for account flows: links sent by email and the two-factor login challenge.
+ * Each token carries a fingerprint of the state it changes (the password hash, the email and
+ * its verification status, the email and the pending new address, or the id of the pending
+ * two-factor challenge), so it stops working once used.
+ */
+@Injectable()
+export class AccountTokenService {
+    private readonly secret: string;
+    private readonly ttlMinutes: Record<AccountTokenPurpose, number>;
+
+    constructor(
+        private jwtService: JwtService,
+        config: ConfigService,
+    ) {
+        this.secret = config.get<string>('JWT_SECRET') || 'your-secret-key-change-in-production';
+        const emailVerificationTtl = parseInt(config.get<string>('EMAIL_VERIFICATION_TOKEN_TTL_MINUTES'), 10) || 24 * 60;
+        this.ttlMinutes = {
+            'verify-email': emailVerificationTtl,
+            'change-email': emailVerificationTtl,
+            'reset-password': parseInt(config.get<string>('PASSWORD_RESET_TOKEN_TTL_MINUTES'), 10) || 60,
+            'two-factor-login': parseInt(config.get<string>('TWO_FACTOR_CHALLENGE_TTL_MINUTES'), 10) || 5,
+        };
+    }
+
+    sign(user: User, purpose: AccountTokenPurpose): string {
+        const payload: AccountTokenPayload = { sub: user.id, purpose, fp: this.fingerprint(user, purpose) };
+        return this.jwtService.sign(payload, { secret: this.signingSecret(purpose), expiresIn: this.ttlMinutes[purpose] * 60 });
+    }
+
+    /**
+     * Check the signature, expiry and purpose of a token
+     */
+    verify(token: string, purpose: AccountTokenPurpose): AccountTokenPayload {
+        try {
+            const payload = this.jwtService.verify<AccountTokenPayload>(token, { secret: this.signingSecret(purpose) });
+            if (payload.purpose !== purpose) {
+                throw new Error('Wrong token purpose');
+            }
+            return payload;
+        } catch {
+            throw new BadRequestException('Invalid or expired token');
+        }
+    }
+
+    /**
+     * Reject a token that was already used, i.e. whose fingerprint no longer matches the user
+     */
+    assertUnused(user: User, payload: AccountTokenPayload): void {
+        const fingerprint = this.fingerprint(user, payload.purpose);
+        const expected = Buffer.from(fingerprint ?? '');
+        const actual = Buffer.from(String(payload.fp));
+
+        if (fingerprint === null || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            throw new BadRequestException('This token has already been used or is no longer valid');
+        }
+    }
+
+    /** Human-readable lifetime for emails, e.g. "1 hour" */
+    describeTtl(purpose: AccountTokenPurpose): string {
+        const minutes = this.ttlMinutes[purpose];
+        if (minutes % 60 === 0) {
+            const hours = minutes / 60;
+            return `${hours} hour${hours === 1 ? '' : 's'}`;
+        }
+        return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+    }
+
+    // Null when the state is missing, e.g. no pending two-factor challenge; no token matches it then
+    private fingerprint(user: User, purpose: AccountTokenPurpose): string | null {
+        const states: Record<AccountTokenPurpose, string | null | undefined> = {
+            'verify-email': `${user.email}:${user.emailVerified}`,
+            'change-email': `${user.email}:${user.pendingEmail}`,
+            'reset-password': user.password,
+            'two-factor-login': user.twoFactorChallengeId,
+        };
+        const state = states[purpose];
+        if (!state) {
+            return null;
+        }
+        return createHash('sha256').update(state).digest('base64url').slice(0, 22);
+    }
+
+    // A separate secret per purpose, so that access tokens are never accepted here and vice versa
+    private signingSecret(purpose: AccountTokenPurpose): string {
+        return `${this.secret}:${purpose}`;
+    }
+}
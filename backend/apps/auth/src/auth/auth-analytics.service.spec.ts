@@ -0,0 +1,55 @@
+import { User } from '@common/common';
+import { PosthogService } from '@posthog/posthog';
+import { AuthAnalyticsService } from './auth-analytics.service';
+
+describe('AuthAnalyticsService', () => {
+    let posthogService: { track: jest.Mock; identify: jest.Mock; alias: jest.Mock };
+    let service: AuthAnalyticsService;
+
+    const user = {
+        id: 7,
+        email: 'jane@example.com',
+        name: 'Jane',
+        roles: ['user'],
+        emailVerified: false,
+        twoFactorEnabled: true,
+        createdAt: new Date('2024-01-15T10:30:00.000Z'),
+    } as User;
+
+    beforeEach(() => {
+        posthogService = { track: jest.fn(), identify: jest.fn(), alias: jest.fn() };
+        service = new AuthAnalyticsService(posthogService as unknown as PosthogService);
+    });
+
+    it('identifies the user by id with properties free of PII', () => {
+        service.signedUp(user);
+
+        expect(posthogService.identify).toHaveBeenCalledWith(
+            '7',
+            { roles: ['user'], email_verified: false, two_factor_enabled: true, email_domain: 'example.com' },
+            { signed_up_at: '2024-01-15T10:30:00.000Z' },
+        );
+        expect(JSON.stringify(posthogService.identify.mock.calls)).not.toMatch(/jane/i);
+        expect(posthogService.track).toHaveBeenCalledWith('7', 'user_signed_up', { email_verified: false });
+    });
+
+    it('tracks logins with their method', () => {
+        service.loggedIn(user, 'two_factor');
+
+        expect(posthogService.track).toHaveBeenCalledWith('7', 'user_logged_in', { method: 'two_factor', two_factor_enabled: true });
+    });
+
+    it('aliases the anonymous browser id to the user before tracking', () => {
+        service.loggedIn(user, 'password', '018f3c2a-anon');
+
+        expect(posthogService.alias).toHaveBeenCalledWith('7', '018f3c2a-anon');
+        expect(posthogService.alias.mock.invocationCallOrder[0]).toBeLessThan(posthogService.track.mock.invocationCallOrder[0]);
+    });
+
+    it('never merges another user id into the user', () => {
+        service.signedUp(user, '8');
+        service.loggedIn(user, 'password');
+
+        expect(posthogService.alias).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { User } from '@common/common';
+import { PosthogService } from '@posthog/posthog';
+
+export type LoginMethod = 'password' | 'two_factor';
+
+/**
+ * Sign-up and login events for PostHog. Users are identified by their id, the distinct id PosthogInterceptor
+ * uses for their requests, and the anonymous id of their browser is merged into it so earlier events belong
+ * to the same person. PosthogService drops all of it when PostHog is disabled.
+ */
+@Injectable()
+export class AuthAnalyticsService {
+    constructor(private posthogService: PosthogService) {}
+
+    signedUp(user: User, anonymousId?: string) {
+        this.identify(user, anonymousId);
+        this.posthogService.track(user.id.toString(), 'user_signed_up', {
+            email_verified: user.emailVerified,
+        });
+    }
+
+    loggedIn(user: User, method: LoginMethod, anonymousId?: string) {
+        this.identify(user, anonymousId);
+        this.posthogService.track(user.id.toString(), 'user_logged_in', {
+            method,
+            two_factor_enabled: user.twoFactorEnabled,
+        });
+    }
+
+    private identify(user: User, anonymousId?: string) {
+        const distinctId = user.id.toString();
+
+        // Numeric distinct ids belong to users; merging one would join two accounts into one person
+        if (anonymousId && !/^\d+$/.test(anonymousId)) {
+            this.posthogService.alias(distinctId, anonymousId);
+        }
+
+        // Only properties without PII, in line with the redaction applied to events
+        this.posthogService.identify(
+            distinctId,
+            {
+                roles: user.roles,
+                email_verified: user.emailVerified,
+                two_factor_enabled: user.twoFactorEnabled,
+                email_domain: user.email.split('@')[1],
+            },
+            { signed_up_at: user.createdAt?.toISOString() },
+        );
+    }
+}
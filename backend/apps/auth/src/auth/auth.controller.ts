@@ -1,12 +1,24 @@
-import { Controller, Post, Body, Get, UseGuards, Request } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Post, Body, Get, Patch, Delete, UseGuards, Request, HttpCode, HttpStatus, Ip } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiExtraModels, getSchemaPath } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { TwoFactorLoginDto } from './dto/two-factor-login.dto';
+import { TwoFactorChallengeResponseDto } from './dto/two-factor-challenge-response.dto';
+import { ProfileResponseDto } from './dto/profile-response.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ChangeEmailDto } from './dto/change-email.dto';
+import { DeleteAccountDto } from './dto/delete-account.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 
 @ApiTags('auth')
+@ApiExtraModels(AuthResponseDto, TwoFactorChallengeResponseDto)
 @Controller('auth')
 export class AuthController {
     constructor(private readonly authService: AuthService) {}
@@ -32,7 +44,30 @@ export class AuthController {
     @Post('login')
     @ApiOperation({
         summary: 'Login user',
-        description: 'Authenticates user and returns JWT token',
+        description: 'Authenticates user and returns JWT token. For accounts with two-factor authentication it returns a challenge token for POST /auth/login/2fa instead',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'User successfully logged in, or (for accounts with two-factor authentication) password accepted and a second step required',
+        schema: { oneOf: [{ $ref: getSchemaPath(AuthResponseDto) }, { $ref: getSchemaPath(TwoFactorChallengeResponseDto) }] },
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Invalid credentials',
+    })
+    @ApiResponse({
+        status: 429,
+        description: 'Too many failed attempts from this IP or for this account, or the account is temporarily locked. `retryAfter` gives the seconds to wait',
+    })
+    async login(@Body() loginDto: LoginDto, @Ip() ip: string) {
+        return this.authService.login(loginDto, ip);
+    }
+
+    @Post('login/2fa')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Complete a two-factor login',
+        description: 'Exchanges the challenge token from POST /auth/login and a TOTP or recovery code for tokens. Their access tokens carry the two-factor claim required by sensitive routes',
     })
     @ApiResponse({
         status: 200,
@@ -41,10 +76,141 @@ export class AuthController {
     })
     @ApiResponse({
         status: 401,
-        description: 'Invalid credentials',
+        description: 'Invalid or expired challenge token, or invalid code',
+    })
+    @ApiResponse({
+        status: 429,
+        description: 'Too many failed attempts, see POST /auth/login',
     })
-    async login(@Body() loginDto: LoginDto) {
-        return this.authService.login(loginDto);
+    async loginWithTwoFactor(@Body() twoFactorLoginDto: TwoFactorLoginDto, @Ip() ip: string) {
+        return this.authService.loginWithTwoFactor(twoFactorLoginDto.challenge_token, twoFactorLoginDto.code, ip, twoFactorLoginDto.anonymousId);
+    }
+
+    @Post('refresh')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Refresh tokens',
+        description: 'Exchanges a refresh token for a new access and refresh token. The presented refresh token is revoked; using it again revokes every token from the same login',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'New token pair',
+        type: AuthResponseDto,
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Invalid, expired or revoked refresh token',
+    })
+    async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+        return this.authService.refresh(refreshTokenDto.refresh_token);
+    }
+
+    @Post('logout')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Logout',
+        description: 'Revokes the refresh token and every token refreshed from the same login. The access token stays valid until it expires',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Logged out',
+    })
+    async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+        await this.authService.logout(refreshTokenDto.refresh_token);
+    }
+
+    @Post('logout-all')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth('JWT-auth')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Logout from all devices',
+        description: 'Revokes every refresh token of the user and invalidates all access tokens issued so far, including the one used for this request',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Logged out everywhere',
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized',
+    })
+    async logoutAll(@Request() req) {
+        await this.authService.logoutAll(req.user.id);
+    }
+
+    @Post('forgot-password')
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Request a password reset',
+        description: 'Emails a single-use password reset link. The response is the same whether or not the account exists',
+    })
+    @ApiResponse({
+        status: 202,
+        description: 'Reset email sent if the account exists',
+    })
+    async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+        await this.authService.forgotPassword(forgotPasswordDto.email);
+    }
+
+    @Post('reset-password')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Reset password',
+        description: 'Sets a new password using the token from the reset email and signs the user out on all devices',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Password changed',
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid, expired or already used token',
+    })
+    async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+        await this.authService.resetPassword(resetPasswordDto.token, resetPasswordDto.password);
+    }
+
+    @Post('verify-email')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Verify email address',
+        description: 'Marks the email address as verified using the token from the verification email',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Email verified',
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid, expired or already used token',
+    })
+    async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+        await this.authService.verifyEmail(verifyEmailDto.token);
+    }
+
+    @Post('resend-verification')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth('JWT-auth')
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Resend verification email',
+        description: 'Sends a new verification link to the email address of the current user',
+    })
+    @ApiResponse({
+        status: 202,
+        description: 'Verification email sent',
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Email is already verified',
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized',
+    })
+    async resendVerification(@Request() req) {
+        await this.authService.resendVerification(req.user.id);
     }
 
     @Get('profile')
@@ -57,21 +223,133 @@ export class AuthController {
     @ApiResponse({
         status: 200,
         description: 'User profile',
-        schema: {
-            type: 'object',
-            properties: {
-                id: { type: 'number', example: 1 },
-                email: { type: 'string', example: 'user@example.com' },
-                name: { type: 'string', example: 'John Doe' },
-                createdAt: { type: 'string', example: '2024-01-15T10:30:00.000Z' },
-            },
-        },
+        type: ProfileResponseDto,
     })
     @ApiResponse({
         status: 401,
         description: 'Unauthorized',
     })
     getProfile(@Request() req) {
-        return req.user;
+        return this.authService.getProfile(req.user);
+    }
+
+    @Patch('profile')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({
+        summary: 'Update current user profile',
+        description: 'Changes the name of the current user. Use POST /auth/change-email and POST /auth/change-password for the email and password',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Updated profile',
+        type: ProfileResponseDto,
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized',
+    })
+    async updateProfile(@Request() req, @Body() updateProfileDto: UpdateProfileDto) {
+        return this.authService.updateProfile(req.user.id, updateProfileDto);
+    }
+
+    @Post('change-password')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth('JWT-auth')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Change password',
+        description: 'Sets a new password after checking the current one. Signs the user out on all other devices and returns a new token pair',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Password changed',
+        type: AuthResponseDto,
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Current password is incorrect',
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized',
+    })
+    async changePassword(@Request() req, @Body() changePasswordDto: ChangePasswordDto) {
+        return this.authService.changePassword(req.user.id, changePasswordDto.currentPassword, changePasswordDto.newPassword, req.user.twoFactorVerified);
+    }
+
+    @Post('change-email')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth('JWT-auth')
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Change email address',
+        description: 'Sends a confirmation link to the new address. The current address stays in use until the link is opened',
+    })
+    @ApiResponse({
+        status: 202,
+        description: 'Confirmation email sent',
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Current password is incorrect',
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized',
+    })
+    @ApiResponse({
+        status: 409,
+        description: 'User with this email already exists',
+    })
+    async changeEmail(@Request() req, @Body() changeEmailDto: ChangeEmailDto) {
+        await this.authService.requestEmailChange(req.user.id, changeEmailDto.email, changeEmailDto.currentPassword);
+    }
+
+    @Post('confirm-email')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Confirm email change',
+        description: 'Switches the account to the new email address using the token from the confirmation email, and notifies the previous address',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Email address changed',
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid, expired or already used token',
+    })
+    @ApiResponse({
+        status: 409,
+        description: 'The new email address was taken in the meantime',
+    })
+    async confirmEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+        await this.authService.confirmEmailChange(verifyEmailDto.token);
+    }
+
+    @Delete('account')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth('JWT-auth')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Delete account',
+        description:
+            'Deletes the current user after checking the password, and the two-factor code when enabled. Items are transferred to `transferItemsTo` or kept without an owner; collections, shares, API keys and sessions are deleted',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Account deleted',
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Wrong password or two-factor code, unknown transfer user, or the user is the last admin',
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized',
+    })
+    async deleteAccount(@Request() req, @Body() deleteAccountDto: DeleteAccountDto) {
+        await this.authService.deleteAccount(req.user.id, deleteAccountDto);
     }
 }
@@ -5,19 +5,28 @@ import { PassportModule } from '@nestjs/passport';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { RefreshTokenService } from './refresh-token.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { AccountTokenService } from './account-token.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { AuthAnalyticsService } from './auth-analytics.service';
+import { MailModule } from '../mail/mail.module';
+import { TwoFactorModule } from '../two-factor/two-factor.module';
 import { User } from '@common/common';
 
 @Module({
     imports: [
-        TypeOrmModule.forFeature([User]),
+        TypeOrmModule.forFeature([User, RefreshToken]),
         PassportModule,
+        MailModule,
+        TwoFactorModule,
         JwtModule.register({
             secret: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
-            signOptions: { expiresIn: '7d' },
+            signOptions: { expiresIn: process.env.JWT_ACCESS_TOKEN_TTL || '15m' },
         }),
     ],
     controllers: [AuthController],
-    providers: [AuthService, JwtStrategy],
-    exports: [AuthService, JwtModule],
+    providers: [AuthService, RefreshTokenService, AccountTokenService, LoginThrottleService, AuthAnalyticsService, JwtStrategy],
+    exports: [AuthService, LoginThrottleService, JwtModule],
 })
 export class AuthModule {}
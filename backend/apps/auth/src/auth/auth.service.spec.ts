@@ -0,0 +1,295 @@
+import { BadRequestException, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcrypt';
+import { User } from '@common/common';
+import { AuthService } from './auth.service';
+import { AccountTokenService } from './account-token.service';
+
+describe('AuthService', () => {
+    let users: Map<number, User>;
+    let accountTokenService: AccountTokenService;
+    let mailService: { send: jest.Mock };
+    let twoFactorService: { verifyCode: jest.Mock };
+    let service: AuthService;
+
+    // Stands in for the users repository; like the real one it leaves out the password and challenge id unless asked for
+    const matching = (where: Partial<User>) => [...users.values()].filter((candidate) => Object.entries(where).every(([key, value]) => candidate[key] === value));
+    const withoutSecrets = ({ password, twoFactorChallengeId, ...user }: User) => ({ ...user }) as User;
+    const usersRepository = {
+        findOne: async ({ where }: { where: Partial<User> }) => {
+            const [user] = matching(where);
+            return user ? withoutSecrets(user) : null;
+        },
+        createQueryBuilder: () => {
+            let where: Partial<User> = {};
+            const queryBuilder = {
+                addSelect: () => queryBuilder,
+                where: (condition: Partial<User>) => {
+                    where = condition;
+                    return queryBuilder;
+                },
+                andWhere: () => queryBuilder,
+                getOne: async () => {
+                    const [user] = matching(where);
+                    return user ? { ...user } : null;
+                },
+                // The only count query is the one for active admins
+                getCount: async () => [...users.values()].filter((user) => user.isActive && user.roles.includes('admin')).length,
+            };
+            return queryBuilder;
+        },
+        update: async (criteria: number | Partial<User>, changes: Partial<User>) => {
+            const updated = matching(typeof criteria === 'number' ? { id: criteria } : criteria);
+            updated.forEach((user) => Object.assign(user, changes));
+            return { affected: updated.length };
+        },
+        increment: async ({ id }: { id: number }, column: keyof User, value: number) => {
+            (users.get(id) as any)[column] += value;
+        },
+        exists: async ({ where }: { where: Partial<User> }) => (await usersRepository.findOne({ where })) !== null,
+        manager: {
+            transaction: (work: (manager: any) => Promise<unknown>) => work(transactionManager),
+        },
+    };
+    const transactionManager = {
+        query: jest.fn(async () => undefined),
+        delete: jest.fn(async (_, id: number) => {
+            users.delete(id);
+        }),
+    };
+
+    const addUser = (overrides: Partial<User> = {}): User => {
+        const user = {
+            id: users.size + 1,
+            email: `user${users.size + 1}@example.com`,
+            password: '$2b$10$initialhash',
+            name: 'Test',
+            isActive: true,
+            emailVerified: false,
+            pendingEmail: null,
+            roles: ['user'],
+            permissions: [],
+            tokenVersion: 0,
+            twoFactorEnabled: false,
+            ...overrides,
+        } as User;
+        users.set(user.id, user);
+        return { ...user };
+    };
+
+    beforeAll(() => {
+        Logger.overrideLogger(false);
+    });
+
+    beforeEach(() => {
+        users = new Map();
+        transactionManager.query.mockClear();
+        transactionManager.delete.mockClear();
+        mailService = { send: jest.fn().mockResolvedValue(undefined) };
+        twoFactorService = { verifyCode: jest.fn().mockResolvedValue(true) };
+        const loginThrottleService = {
+            assertAllowed: jest.fn().mockResolvedValue(undefined),
+            recordFailure: jest.fn().mockResolvedValue(undefined),
+            recordSuccess: jest.fn().mockResolvedValue(undefined),
+        };
+
+        const config = new ConfigService({ JWT_SECRET: 'test-secret' });
+        const jwtService = new JwtService({ secret: 'test-secret' });
+        accountTokenService = new AccountTokenService(jwtService, config);
+        const refreshTokenService = { issue: jest.fn().mockResolvedValue('refresh'), revokeAll: jest.fn().mockResolvedValue(undefined) };
+
+        service = new AuthService(
+            usersRepository as any,
+            jwtService,
+            refreshTokenService as any,
+            accountTokenService,
+            loginThrottleService as any,
+            { loggedIn: jest.fn() } as any,
+            twoFactorService as any,
+            mailService as any,
+            config,
+        );
+    });
+
+    describe('resendVerification', () => {
+        it('rejects a user that does not exist', async () => {
+            await expect(service.resendVerification(42)).rejects.toThrow(UnauthorizedException);
+            expect(mailService.send).not.toHaveBeenCalled();
+        });
+
+        it('rejects an inactive user', async () => {
+            const user = addUser({ isActive: false });
+
+            await expect(service.resendVerification(user.id)).rejects.toThrow(UnauthorizedException);
+            expect(mailService.send).not.toHaveBeenCalled();
+        });
+
+        it('sends a new link to an unverified user', async () => {
+            const user = addUser();
+
+            await service.resendVerification(user.id);
+
+            expect(mailService.send).toHaveBeenCalledWith(user.email, 'verify-email', expect.objectContaining({ url: expect.stringContaining('token=') }));
+        });
+    });
+
+    describe('account tokens', () => {
+        it('verifies an email only once per link', async () => {
+            const user = addUser();
+            const token = accountTokenService.sign(user, 'verify-email');
+
+            await service.verifyEmail(token);
+
+            expect(users.get(user.id).emailVerified).toBe(true);
+            await expect(service.verifyEmail(token)).rejects.toThrow(BadRequestException);
+        });
+
+        it('resets a password only once per link', async () => {
+            const user = addUser();
+            const token = accountTokenService.sign(user, 'reset-password');
+
+            await service.resetPassword(token, 'new-password-1');
+
+            expect(users.get(user.id).password).not.toBe(user.password);
+            expect(users.get(user.id).tokenVersion).toBe(1);
+            await expect(service.resetPassword(token, 'new-password-2')).rejects.toThrow(BadRequestException);
+        });
+
+        it('rejects a reset link for a different purpose', async () => {
+            const user = addUser();
+            const token = accountTokenService.sign(user, 'verify-email');
+
+            await expect(service.resetPassword(token, 'new-password')).rejects.toThrow(BadRequestException);
+            expect(users.get(user.id).password).toBe(user.password);
+        });
+
+        it('confirms an email change only once per link', async () => {
+            const user = addUser({ pendingEmail: 'new@example.com' });
+            const token = accountTokenService.sign(user, 'change-email');
+
+            await service.confirmEmailChange(token);
+
+            expect(users.get(user.id)).toMatchObject({ email: 'new@example.com', pendingEmail: null, emailVerified: true });
+            await expect(service.confirmEmailChange(token)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('loginWithTwoFactor', () => {
+        const password = 'correct horse';
+
+        const startLogin = async (user: User): Promise<string> => {
+            const response = await service.login({ email: user.email, password }, '127.0.0.1');
+            return (response as { challenge_token: string }).challenge_token;
+        };
+
+        it('completes a login once per challenge token', async () => {
+            const user = addUser({ twoFactorEnabled: true, password: bcrypt.hashSync(password, 4) });
+            const challengeToken = await startLogin(user);
+
+            await expect(service.loginWithTwoFactor(challengeToken, '123456', '127.0.0.1')).resolves.toHaveProperty('access_token');
+
+            expect(users.get(user.id).twoFactorChallengeId).toBeNull();
+            await expect(service.loginWithTwoFactor(challengeToken, '654321', '127.0.0.1')).rejects.toThrow(UnauthorizedException);
+            expect(twoFactorService.verifyCode).toHaveBeenCalledTimes(1);
+        });
+
+        it('keeps the challenge after a wrong code, so the user can retry', async () => {
+            const user = addUser({ twoFactorEnabled: true, password: bcrypt.hashSync(password, 4) });
+            const challengeToken = await startLogin(user);
+            twoFactorService.verifyCode.mockResolvedValueOnce(false);
+
+            await expect(service.loginWithTwoFactor(challengeToken, '000000', '127.0.0.1')).rejects.toThrow('Invalid two-factor code');
+
+            await expect(service.loginWithTwoFactor(challengeToken, '123456', '127.0.0.1')).resolves.toHaveProperty('access_token');
+        });
+
+        it('rejects an older challenge token once a new login has started', async () => {
+            const user = addUser({ twoFactorEnabled: true, password: bcrypt.hashSync(password, 4) });
+            const firstToken = await startLogin(user);
+            const secondToken = await startLogin(user);
+
+            await expect(service.loginWithTwoFactor(firstToken, '123456', '127.0.0.1')).rejects.toThrow(UnauthorizedException);
+            await expect(service.loginWithTwoFactor(secondToken, '123456', '127.0.0.1')).resolves.toHaveProperty('access_token');
+        });
+
+        it('does not accept a challenge token signed without a pending challenge', async () => {
+            const user = addUser({ twoFactorEnabled: true });
+            const challengeToken = accountTokenService.sign(user, 'two-factor-login');
+
+            await expect(service.loginWithTwoFactor(challengeToken, '123456', '127.0.0.1')).rejects.toThrow(UnauthorizedException);
+            expect(twoFactorService.verifyCode).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('account management', () => {
+        const password = 'correct horse';
+
+        it('changes the password only with the current one and signs out everywhere', async () => {
+            const user = addUser({ password: bcrypt.hashSync(password, 4) });
+
+            await expect(service.changePassword(user.id, 'wrong', 'new-password-1')).rejects.toThrow('Current password is incorrect');
+            expect(users.get(user.id).tokenVersion).toBe(0);
+
+            const response = await service.changePassword(user.id, password, 'new-password-1');
+
+            expect(bcrypt.compareSync('new-password-1', users.get(user.id).password)).toBe(true);
+            expect(users.get(user.id).tokenVersion).toBe(1);
+            expect(response).toHaveProperty('access_token');
+        });
+
+        it('keeps the current email until the new one is confirmed', async () => {
+            const user = addUser({ password: bcrypt.hashSync(password, 4) });
+
+            await service.requestEmailChange(user.id, 'new@example.com', password);
+
+            expect(users.get(user.id)).toMatchObject({ email: user.email, pendingEmail: 'new@example.com' });
+            expect(mailService.send).toHaveBeenCalledWith('new@example.com', 'confirm-email-change', expect.anything());
+        });
+
+        it('does not start an email change to an address in use', async () => {
+            const user = addUser({ password: bcrypt.hashSync(password, 4) });
+            const other = addUser();
+
+            await expect(service.requestEmailChange(user.id, other.email, password)).rejects.toThrow('User with this email already exists');
+            expect(users.get(user.id).pendingEmail).toBeNull();
+        });
+
+        it('deletes the account and transfers the items to another user', async () => {
+            const user = addUser({ password: bcrypt.hashSync(password, 4) });
+            const colleague = addUser();
+
+            await service.deleteAccount(user.id, { password, transferItemsTo: colleague.email });
+
+            expect(users.has(user.id)).toBe(false);
+            expect(transactionManager.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE "items"'), [colleague.id, user.id]);
+        });
+
+        it('does not delete the account with a wrong password or a missing two-factor code', async () => {
+            const user = addUser({ password: bcrypt.hashSync(password, 4), twoFactorEnabled: true });
+
+            await expect(service.deleteAccount(user.id, { password: 'wrong', code: '123456' })).rejects.toThrow('Current password is incorrect');
+            await expect(service.deleteAccount(user.id, { password })).rejects.toThrow('Invalid two-factor code');
+            expect(users.has(user.id)).toBe(true);
+        });
+
+        it('does not delete the last admin', async () => {
+            const admin = addUser({ password: bcrypt.hashSync(password, 4), roles: ['user', 'admin'] });
+
+            await expect(service.deleteAccount(admin.id, { password })).rejects.toThrow('The last admin cannot delete their account');
+
+            addUser({ roles: ['user', 'admin'] });
+            await service.deleteAccount(admin.id, { password });
+            expect(users.has(admin.id)).toBe(false);
+        });
+
+        it('does not transfer items to an inactive user or to the deleted account', async () => {
+            const user = addUser({ password: bcrypt.hashSync(password, 4) });
+            const inactive = addUser({ isActive: false });
+
+            await expect(service.deleteAccount(user.id, { password, transferItemsTo: inactive.email })).rejects.toThrow(BadRequestException);
+            await expect(service.deleteAccount(user.id, { password, transferItemsTo: user.email })).rejects.toThrow(BadRequestException);
+            expect(users.has(user.id)).toBe(true);
+        });
+    });
+});
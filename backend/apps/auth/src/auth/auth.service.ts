@@ -1,19 +1,72 @@
-import { Injectable, UnauthorizedException, ConflictException } from '@nestjs/common';
+import { Injectable, UnauthorizedException, ConflictException, BadRequestException, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
-import { User } from '@common/common';
+import { randomBytes } from 'crypto';
+import { User, Role, getEffectivePermissions } from '@common/common';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { ProfileResponseDto } from './dto/profile-response.dto';
+import { RefreshTokenService } from './refresh-token.service';
+import { AccountTokenService } from './account-token.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { AuthAnalyticsService } from './auth-analytics.service';
+import { TwoFactorService } from '../two-factor/two-factor.service';
+import { MailService } from '../mail/mail.service';
 
 @Injectable()
-export class AuthService {
+export class AuthService implements OnModuleInit {
+    private readonly logger = new Logger(AuthService.name);
+    private readonly adminEmails: string[];
+    private readonly linkBaseUrl: string;
+
     constructor(
         @InjectRepository(User)
         private usersRepository: Repository<User>,
         private jwtService: JwtService,
-    ) {}
+        private refreshTokenService: RefreshTokenService,
+        private accountTokenService: AccountTokenService,
+        private loginThrottleService: LoginThrottleService,
+        private authAnalyticsService: AuthAnalyticsService,
+        private twoFactorService: TwoFactorService,
+        private mailService: MailService,
+        config: ConfigService,
+    ) {
+        // Pages that handle the links in emails
+        this.linkBaseUrl = config.get<string>('MAIL_LINK_BASE_URL') || config.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+
+        // Users with these emails get the admin role, so the first admins can be set up without database access
+        this.adminEmails = (config.get<string>('ADMIN_EMAILS') || '')
+            .split(',')
+            .map((email) => email.trim().toLowerCase())
+            .filter(Boolean);
+    }
+
+    async onModuleInit() {
+        if (this.adminEmails.length === 0) {
+            return;
+        }
+
+        try {
+            const result = await this.usersRepository
+                .createQueryBuilder()
+                .update(User)
+                .set({ roles: () => `array_append(roles, 'admin')` })
+                .where('LOWER(email) IN (:...emails)', { emails: this.adminEmails })
+                .andWhere(`NOT ('admin' = ANY(roles))`)
+                .execute();
+
+            if (result.affected) {
+                this.logger.log(`✅ Granted admin role to ${result.affected} user(s) from ADMIN_EMAILS`);
+            }
+        } catch (error) {
+            this.logger.warn(`⚠️ Could not apply ADMIN_EMAILS: ${error.message}`);
+        }
+    }
 
     async register(registerDto: RegisterDto) {
         // Check if user already exists
@@ -33,31 +86,24 @@ export class AuthService {
             email: registerDto.email,
             password: hashedPassword,
             name: registerDto.name || registerDto.email.split('@')[0],
+            roles: (this.adminEmails.includes(registerDto.email.toLowerCase()) ? ['user', 'admin'] : ['user']) as Role[],
         });
 
         const savedUser = await this.usersRepository.save(user);
+        this.sendInBackground(this.sendVerificationEmail(savedUser));
+        this.authAnalyticsService.signedUp(savedUser, registerDto.anonymousId);
 
-        // Generate JWT token
-        const payload = { sub: savedUser.id, email: savedUser.email };
-        const access_token = this.jwtService.sign(payload);
-
-        return {
-            access_token,
-            user: {
-                id: savedUser.id,
-                email: savedUser.email,
-                name: savedUser.name,
-            },
-        };
+        return this.buildAuthResponse(savedUser);
     }
 
-    async login(loginDto: LoginDto) {
+    async login(loginDto: LoginDto, ip: string) {
         // Find user
-        const user = await this.usersRepository.findOne({
-            where: { email: loginDto.email },
-        });
+        const user = await this.findWithPassword({ email: loginDto.email });
+
+        await this.loginThrottleService.assertAllowed(ip, user);
 
         if (!user) {
+            await this.loginThrottleService.recordFailure(ip, null, 'unknown_email');
             throw new UnauthorizedException('Invalid credentials');
         }
 
@@ -65,25 +111,77 @@ export class AuthService {
         const isPasswordValid = await bcrypt.compare(loginDto.password, user.password);
 
         if (!isPasswordValid) {
+            await this.loginThrottleService.recordFailure(ip, user, 'invalid_password');
             throw new UnauthorizedException('Invalid credentials');
         }
 
         if (!user.isActive) {
+            await this.loginThrottleService.recordFailure(ip, user, 'inactive');
             throw new UnauthorizedException('User account is inactive');
         }
 
-        // Generate JWT token
-        const payload = { sub: user.id, email: user.email };
-        const access_token = this.jwtService.sign(payload);
+        // The password was right, but the attempt only counts as a success once the second step passes
+        if (user.twoFactorEnabled) {
+            // The challenge token is bound to a fresh id, which the second step consumes
+            user.twoFactorChallengeId = randomBytes(16).toString('base64url');
+            await this.usersRepository.update(user.id, { twoFactorChallengeId: user.twoFactorChallengeId });
 
-        return {
-            access_token,
-            user: {
-                id: user.id,
-                email: user.email,
-                name: user.name,
-            },
-        };
+            return {
+                twoFactorRequired: true,
+                challenge_token: this.accountTokenService.sign(user, 'two-factor-login'),
+            };
+        }
+
+        await this.loginThrottleService.recordSuccess(ip, user);
+        this.authAnalyticsService.loggedIn(user, 'password', loginDto.anonymousId);
+
+        return this.buildAuthResponse(user);
+    }
+
+    /**
+     * Second login step: exchange the challenge token and a TOTP or recovery code for tokens with the 2FA claim
+     */
+    async loginWithTwoFactor(challengeToken: string, code: string, ip: string, anonymousId?: string) {
+        let user: User | null = null;
+        try {
+            const payload = this.accountTokenService.verify(challengeToken, 'two-factor-login');
+            const candidate = await this.usersRepository
+                .createQueryBuilder('user')
+                .addSelect('user.twoFactorChallengeId')
+                .where({ id: payload.sub })
+                .getOne();
+            if (candidate?.isActive) {
+                this.accountTokenService.assertUnused(candidate, payload);
+                user = candidate;
+            }
+        } catch {
+            user = null;
+        }
+
+        if (!user) {
+            throw new UnauthorizedException('Invalid or expired challenge token, log in again');
+        }
+
+        await this.loginThrottleService.assertAllowed(ip, user);
+
+        if (!(await this.twoFactorService.verifyCode(user.id, code))) {
+            await this.loginThrottleService.recordFailure(ip, user, 'invalid_two_factor_code');
+            throw new UnauthorizedException('Invalid two-factor code');
+        }
+
+        // Conditional update, so a challenge token completes at most one login
+        const { affected } = await this.usersRepository.update(
+            { id: user.id, twoFactorChallengeId: user.twoFactorChallengeId },
+            { twoFactorChallengeId: null },
+        );
+        if (!affected) {
+            throw new UnauthorizedException('Invalid or expired challenge token, log in again');
+        }
+
+        await this.loginThrottleService.recordSuccess(ip, user);
+        this.authAnalyticsService.loggedIn(user, 'two_factor', anonymousId);
+
+        return this.buildAuthResponse(user, undefined, true);
     }
 
     async validateUser(userId: number): Promise<User | null> {
@@ -97,4 +195,277 @@ export class AuthService {
 
         return user;
     }
+
+    async refresh(refreshToken: string) {
+        const { userId, token, twoFactorVerified } = await this.refreshTokenService.rotate(refreshToken);
+        const user = await this.validateUser(userId);
+
+        if (!user) {
+            await this.refreshTokenService.revoke(token);
+            throw new UnauthorizedException('User account is inactive');
+        }
+
+        return this.buildAuthResponse(user, token, twoFactorVerified);
+    }
+
+    async logout(refreshToken: string): Promise<void> {
+        await this.refreshTokenService.revoke(refreshToken);
+    }
+
+    /**
+     * Revoke every refresh token and invalidate every access token already issued to the user
+     */
+    async logoutAll(userId: number): Promise<void> {
+        await this.refreshTokenService.revokeAll(userId);
+        await this.usersRepository.increment({ id: userId }, 'tokenVersion', 1);
+    }
+
+    /**
+     * Email a password reset link. Unknown emails are ignored so the response does not reveal which accounts exist.
+     */
+    async forgotPassword(email: string): Promise<void> {
+        // The reset token is bound to the password hash
+        const user = await this.findWithPassword({ email });
+
+        if (!user || !user.isActive) {
+            return;
+        }
+
+        const url = `${this.linkBaseUrl}/reset-password.html?token=${this.accountTokenService.sign(user, 'reset-password')}`;
+        this.sendInBackground(
+            this.mailService.send(user.email, 'reset-password', {
+                name: user.name,
+                url,
+                expiresIn: this.accountTokenService.describeTtl('reset-password'),
+            }),
+        );
+    }
+
+    /**
+     * Set a new password from a reset link and sign the user out everywhere
+     */
+    async resetPassword(token: string, password: string): Promise<void> {
+        const payload = this.accountTokenService.verify(token, 'reset-password');
+        const user = await this.findWithPassword({ id: payload.sub });
+
+        if (!user || !user.isActive) {
+            throw new BadRequestException('Invalid or expired token');
+        }
+        this.accountTokenService.assertUnused(user, payload);
+
+        // The link was delivered to the mailbox, which proves the address as well
+        await this.usersRepository.update(user.id, {
+            password: await bcrypt.hash(password, 10),
+            emailVerified: true,
+        });
+        await this.logoutAll(user.id);
+    }
+
+    async verifyEmail(token: string): Promise<void> {
+        const payload = this.accountTokenService.verify(token, 'verify-email');
+        const user = await this.validateUser(payload.sub);
+
+        if (!user) {
+            throw new BadRequestException('Invalid or expired token');
+        }
+        this.accountTokenService.assertUnused(user, payload);
+
+        await this.usersRepository.update(user.id, { emailVerified: true });
+    }
+
+    async resendVerification(userId: number): Promise<void> {
+        const user = await this.validateUser(userId);
+
+        if (!user) {
+            throw new UnauthorizedException('User account is inactive');
+        }
+        if (user.emailVerified) {
+            throw new BadRequestException('Email is already verified');
+        }
+
+        await this.sendVerificationEmail(user);
+    }
+
+    getProfile(user: User): ProfileResponseDto {
+        return {
+            id: user.id,
+            email: user.email,
+            pendingEmail: user.pendingEmail,
+            name: user.name,
+            emailVerified: user.emailVerified,
+            twoFactorEnabled: user.twoFactorEnabled,
+            roles: user.roles,
+            permissions: getEffectivePermissions(user),
+            createdAt: user.createdAt,
+        };
+    }
+
+    async updateProfile(userId: number, updateProfileDto: UpdateProfileDto): Promise<ProfileResponseDto> {
+        if (updateProfileDto.name !== undefined) {
+            await this.usersRepository.update(userId, { name: updateProfileDto.name });
+        }
+
+        return this.getProfile(await this.validateUser(userId));
+    }
+
+    /**
+     * Set a new password after checking the current one. Every other login is signed out,
+     * so the caller gets a fresh token pair.
+     */
+    async changePassword(userId: number, currentPassword: string, newPassword: string, twoFactorVerified = false) {
+        const user = await this.validateUser(userId);
+        await this.assertPassword(user, currentPassword);
+
+        await this.usersRepository.update(user.id, { password: await bcrypt.hash(newPassword, 10) });
+        await this.logoutAll(user.id);
+
+        return this.buildAuthResponse(await this.validateUser(user.id), undefined, twoFactorVerified);
+    }
+
+    /**
+     * Start an email change: the new address is stored as pending and receives a confirmation link.
+     * The current address stays in use until the link is opened.
+     */
+    async requestEmailChange(userId: number, email: string, currentPassword: string): Promise<void> {
+        const user = await this.validateUser(userId);
+        await this.assertPassword(user, currentPassword);
+
+        if (email === user.email) {
+            throw new BadRequestException('This is already your email address');
+        }
+        await this.assertEmailAvailable(email);
+
+        user.pendingEmail = email;
+        await this.usersRepository.update(user.id, { pendingEmail: email });
+
+        const url = `${this.linkBaseUrl}/confirm-email.html?token=${this.accountTokenService.sign(user, 'change-email')}`;
+        await this.mailService.send(email, 'confirm-email-change', {
+            name: user.name,
+            url,
+            expiresIn: this.accountTokenService.describeTtl('change-email'),
+        });
+    }
+
+    /**
+     * Switch to the pending email address from the confirmation link and let the previous address know
+     */
+    async confirmEmailChange(token: string): Promise<void> {
+        const payload = this.accountTokenService.verify(token, 'change-email');
+        const user = await this.validateUser(payload.sub);
+
+        if (!user || !user.pendingEmail) {
+            throw new BadRequestException('Invalid or expired token');
+        }
+        this.accountTokenService.assertUnused(user, payload);
+
+        // The address may have been registered by someone else since the change was requested
+        await this.assertEmailAvailable(user.pendingEmail);
+
+        const previousEmail = user.email;
+        await this.usersRepository.update(user.id, { email: user.pendingEmail, pendingEmail: null, emailVerified: true });
+
+        this.sendInBackground(this.mailService.send(previousEmail, 'email-changed', { name: user.name, email: user.pendingEmail }));
+    }
+
+    /**
+     * Delete the account of a user after checking the password (and the two-factor code when enabled).
+     * Items are transferred to another user or kept without an owner; everything else of the user is deleted.
+     */
+    async deleteAccount(userId: number, deleteAccountDto: DeleteAccountDto): Promise<void> {
+        const user = await this.validateUser(userId);
+        await this.assertPassword(user, deleteAccountDto.password);
+
+        if (user.twoFactorEnabled && !(deleteAccountDto.code && (await this.twoFactorService.verifyCode(user.id, deleteAccountDto.code)))) {
+            throw new BadRequestException('Invalid two-factor code');
+        }
+
+        if (user.roles.includes('admin')) {
+            const admins = await this.usersRepository
+                .createQueryBuilder('user')
+                .where(`'admin' = ANY(user.roles)`)
+                .andWhere('user.isActive = true')
+                .getCount();
+
+            if (admins <= 1) {
+                throw new BadRequestException('The last admin cannot delete their account');
+            }
+        }
+
+        let newOwner: User | null = null;
+        if (deleteAccountDto.transferItemsTo) {
+            newOwner = await this.usersRepository.findOne({ where: { email: deleteAccountDto.transferItemsTo } });
+
+            if (!newOwner || !newOwner.isActive || newOwner.id === user.id) {
+                throw new BadRequestException('No other active user with this email to transfer the items to');
+            }
+        }
+
+        await this.usersRepository.manager.transaction(async (manager) => {
+            // Items belong to the API app, so they are updated by table name instead of through its entities
+            await manager.query('UPDATE "items" SET "createdById" = $1 WHERE "createdById" = $2', [newOwner?.id ?? null, user.id]);
+            await manager.query('UPDATE "item_revisions" SET "changedById" = NULL WHERE "changedById" = $1', [user.id]);
+
+            // Refresh tokens, API keys, collections and item shares are removed by their foreign keys
+            await manager.delete(User, user.id);
+        });
+
+        this.logger.log(`✅ Deleted user ${user.id}${newOwner ? `, items transferred to user ${newOwner.id}` : ''}`);
+    }
+
+    private async sendVerificationEmail(user: User): Promise<void> {
+        const url = `${this.linkBaseUrl}/verify-email.html?token=${this.accountTokenService.sign(user, 'verify-email')}`;
+
+        await this.mailService.send(user.email, 'verify-email', {
+            name: user.name,
+            url,
+            expiresIn: this.accountTokenService.describeTtl('verify-email'),
+        });
+    }
+
+    private async assertPassword(user: User, password: string): Promise<void> {
+        const { password: hash } = await this.findWithPassword({ id: user.id });
+
+        if (!(await bcrypt.compare(password, hash))) {
+            throw new BadRequestException('Current password is incorrect');
+        }
+    }
+
+    /**
+     * Load a user including the password hash, which is not selected by default
+     */
+    private findWithPassword(where: { id: number } | { email: string }): Promise<User | null> {
+        return this.usersRepository.createQueryBuilder('user').addSelect('user.password').where(where).getOne();
+    }
+
+    private async assertEmailAvailable(email: string): Promise<void> {
+        if (await this.usersRepository.exists({ where: { email } })) {
+            throw new ConflictException('User with this email already exists');
+        }
+    }
+
+    // Sending mail must not delay or fail the request that triggers it
+    private sendInBackground(sending: Promise<void>) {
+        sending.catch((error) => this.logger.error(`❌ Failed to send email: ${error.message}`));
+    }
+
+    private async buildAuthResponse(user: User, refreshToken?: string, twoFactorVerified = false) {
+        // Roles and permissions are included for clients; guards re-read them from the database on every request
+        const permissions = getEffectivePermissions(user);
+        const payload = { sub: user.id, email: user.email, roles: user.roles, permissions, tv: user.tokenVersion, mfa: twoFactorVerified };
+        const access_token = this.jwtService.sign(payload);
+
+        return {
+            access_token,
+            refresh_token: refreshToken ?? (await this.refreshTokenService.issue(user.id, twoFactorVerified)),
+            user: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                emailVerified: user.emailVerified,
+                twoFactorEnabled: user.twoFactorEnabled,
+                roles: user.roles,
+                permissions,
+            },
+        };
+    }
 }
@@ -2,22 +2,36 @@ import { ApiProperty } from '@nestjs/swagger';
 
 export class AuthResponseDto {
     @ApiProperty({
-        description: 'JWT access token',
+        description: 'Short-lived JWT access token',
         example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
     })
     access_token: string;
 
+    @ApiProperty({
+        description: 'Refresh token, exchanged for a new token pair at POST /auth/refresh. Each refresh token can be used once',
+        example: 'tq3xV0cN6f2b7m1...',
+    })
+    refresh_token: string;
+
     @ApiProperty({
         description: 'User information',
         example: {
             id: 1,
             email: 'user@example.com',
             name: 'John Doe',
+            emailVerified: false,
+            twoFactorEnabled: false,
+            roles: ['user'],
+            permissions: ['items:read', 'items:write'],
         },
     })
     user: {
         id: number;
         email: string;
         name: string;
+        emailVerified: boolean;
+        twoFactorEnabled: boolean;
+        roles: string[];
+        permissions: string[];
     };
 }
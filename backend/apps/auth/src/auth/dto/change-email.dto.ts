@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+export class ChangeEmailDto {
+    @ApiProperty({
+        description: 'New email address. It replaces the current one once confirmed from its mailbox',
+        example: 'new@example.com',
+    })
+    @IsEmail()
+    email: string;
+
+    @ApiProperty({
+        description: 'Current password',
+        example: 'password123',
+    })
+    @IsString()
+    @IsNotEmpty()
+    currentPassword: string;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+export class ChangePasswordDto {
+    @ApiProperty({
+        description: 'Current password',
+        example: 'password123',
+    })
+    @IsString()
+    @IsNotEmpty()
+    currentPassword: string;
+
+    @ApiProperty({
+        description: 'New password (min 6 characters)',
+        example: 'newpassword123',
+        minLength: 6,
+    })
+    @IsString()
+    @MinLength(6)
+    newPassword: string;
+}
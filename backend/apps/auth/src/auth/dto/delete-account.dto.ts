@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class DeleteAccountDto {
+    @ApiProperty({
+        description: 'Current password',
+        example: 'password123',
+    })
+    @IsString()
+    @IsNotEmpty()
+    password: string;
+
+    @ApiProperty({
+        description: 'Code from the authenticator app or a recovery code, required when two-factor authentication is enabled',
+        example: '123456',
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(20)
+    code?: string;
+
+    @ApiProperty({
+        description: 'Email of an active user who becomes the owner of your items. Without it, items are kept without an owner',
+        example: 'colleague@example.com',
+        required: false,
+    })
+    @IsOptional()
+    @IsEmail()
+    transferItemsTo?: string;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail } from 'class-validator';
+
+export class ForgotPasswordDto {
+    @ApiProperty({
+        description: 'Email address of the account',
+        example: 'user@example.com',
+    })
+    @IsEmail()
+    email: string;
+}
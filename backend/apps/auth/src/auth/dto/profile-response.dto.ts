@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ProfileResponseDto {
+    @ApiProperty({
+        description: 'User ID',
+        example: 1,
+    })
+    id: number;
+
+    @ApiProperty({
+        description: 'User email address',
+        example: 'user@example.com',
+    })
+    email: string;
+
+    @ApiProperty({
+        description: 'New email address waiting for confirmation, or null',
+        example: null,
+        nullable: true,
+    })
+    pendingEmail: string | null;
+
+    @ApiProperty({
+        description: 'User full name',
+        example: 'John Doe',
+    })
+    name: string;
+
+    @ApiProperty({
+        description: 'Whether the email address is verified',
+        example: true,
+    })
+    emailVerified: boolean;
+
+    @ApiProperty({
+        description: 'Whether two-factor authentication is enabled',
+        example: false,
+    })
+    twoFactorEnabled: boolean;
+
+    @ApiProperty({
+        description: 'Roles of the user',
+        example: ['user'],
+    })
+    roles: string[];
+
+    @ApiProperty({
+        description: 'All permissions the user has, from roles and direct grants',
+        example: ['items:read', 'items:write'],
+    })
+    permissions: string[];
+
+    @ApiProperty({
+        description: 'Creation timestamp',
+        example: '2024-01-15T10:30:00.000Z',
+    })
+    createdAt: Date;
+}
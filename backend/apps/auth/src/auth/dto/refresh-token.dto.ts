@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+    @ApiProperty({
+        description: 'Refresh token from login or the previous refresh',
+        example: 'tq3xV0cN6f2b7m1...',
+    })
+    @IsString()
+    @IsNotEmpty()
+    refresh_token: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsString, MinLength, IsOptional } from 'class-validator';
+import { IsEmail, IsString, MinLength, MaxLength, IsOptional } from 'class-validator';
 
 export class RegisterDto {
     @ApiProperty({
@@ -26,4 +26,14 @@ export class RegisterDto {
     @IsOptional()
     @IsString()
     name?: string;
+
+    @ApiProperty({
+        description: 'Anonymous PostHog distinct id of the browser, merged into the user so their earlier events are attributed to them',
+        example: '0192b3c4-5d6e-7f80-9a1b-2c3d4e5f6a7b',
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(200)
+    anonymousId?: string;
 }
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+export class ResetPasswordDto {
+    @ApiProperty({
+        description: 'Token from the password reset email',
+        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+
+    @ApiProperty({
+        description: 'New password (min 6 characters)',
+        example: 'newpassword123',
+        minLength: 6,
+    })
+    @IsString()
+    @MinLength(6)
+    password: string;
+}
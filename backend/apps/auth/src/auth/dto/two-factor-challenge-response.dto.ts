@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorChallengeResponseDto {
+    @ApiProperty({
+        description: 'Always true: the account has two-factor authentication and the login needs a second step',
+        example: true,
+    })
+    twoFactorRequired: boolean;
+
+    @ApiProperty({
+        description: 'Short-lived token for POST /auth/login/2fa. It is not an access token',
+        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    })
+    challenge_token: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class TwoFactorLoginDto {
+    @ApiProperty({
+        description: 'Challenge token returned by POST /auth/login',
+        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    })
+    @IsString()
+    @IsNotEmpty()
+    challenge_token: string;
+
+    @ApiProperty({
+        description: '6-digit code from the authenticator app, or a recovery code',
+        example: '123456',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(20)
+    code: string;
+
+    @ApiProperty({
+        description: 'Anonymous PostHog distinct id of the browser, merged into the user so their earlier events are attributed to them',
+        example: '0192b3c4-5d6e-7f80-9a1b-2c3d4e5f6a7b',
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(200)
+    anonymousId?: string;
+}
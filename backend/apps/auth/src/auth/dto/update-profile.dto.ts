@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateProfileDto {
+    @ApiProperty({
+        description: 'User full name',
+        example: 'John Doe',
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+}
@@ -0,0 +1,45 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '@common/common';
+
+/**
+ * A refresh token, stored as a SHA-256 hash. Tokens issued from one login share a family:
+ * each refresh revokes the presented token and issues its replacement in the same family.
+ */
+@Entity('refresh_tokens')
+export class RefreshToken {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Index({ unique: true })
+    @Column({ length: 64 })
+    tokenHash: string;
+
+    @Index()
+    @Column('uuid')
+    familyId: string;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Index()
+    @Column()
+    userId: number;
+
+    // Whether the login that started the family completed two-factor authentication
+    @Column({ default: false })
+    twoFactorVerified: boolean;
+
+    @Column({ type: 'timestamp' })
+    expiresAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    revokedAt: Date | null;
+
+    // Set when the token was rotated; presenting a rotated token again is treated as theft
+    @Column('uuid', { nullable: true })
+    replacedById: string | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,140 @@
+import { HttpException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@common/common';
+import { Redactor, resolvePosthogOptions } from '@posthog/posthog';
+import { LoginThrottleService } from './login-throttle.service';
+
+describe('LoginThrottleService', () => {
+    const ip = '203.0.113.7';
+    let now: number;
+    let update: jest.Mock;
+    let track: jest.Mock;
+    let service: LoginThrottleService;
+
+    const createUser = (overrides: Partial<User> = {}) =>
+        ({ id: 1, failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null, ...overrides }) as User;
+
+    // Apply the repository updates to the user, as reloading it for the next attempt would
+    const fail = async (user: User, reason: 'invalid_password' | 'unknown_email' = 'invalid_password') => {
+        await service.recordFailure(ip, reason === 'unknown_email' ? null : user, reason);
+        if (update.mock.calls.length) {
+            Object.assign(user, update.mock.lastCall[1]);
+        }
+    };
+
+    const rejection = async (user: User | null, from = ip) => {
+        try {
+            await service.assertAllowed(from, user);
+        } catch (error) {
+            return error instanceof HttpException ? (error.getResponse() as { message: string; retryAfter: number }) : error;
+        }
+        return null;
+    };
+
+    beforeAll(() => {
+        Logger.overrideLogger(false);
+    });
+
+    beforeEach(() => {
+        now = Date.UTC(2026, 0, 1);
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        update = jest.fn().mockResolvedValue(undefined);
+        track = jest.fn();
+
+        const config = new ConfigService({
+            LOGIN_MAX_FAILED_ATTEMPTS: '5',
+            LOGIN_LOCKOUT_MINUTES: '15',
+            LOGIN_IP_MAX_FAILED_ATTEMPTS: '8',
+            LOGIN_IP_WINDOW_MINUTES: '15',
+            LOGIN_FREE_ATTEMPTS: '2',
+            LOGIN_MAX_DELAY_SECONDS: '30',
+        });
+        const redactor = new Redactor({ ...resolvePosthogOptions({}).redaction, mode: 'hash', hashSalt: 'salt' });
+        service = new LoginThrottleService({ update } as any, { track } as any, redactor, config);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('allows the free attempts, then makes each attempt wait a doubling delay', async () => {
+        const user = createUser();
+
+        await fail(user);
+        await fail(user);
+        expect(await rejection(user)).toMatchObject({ retryAfter: 1 });
+
+        now += 1000;
+        expect(await rejection(user)).toBeNull();
+
+        await fail(user);
+        expect(await rejection(user)).toMatchObject({ retryAfter: 2 });
+    });
+
+    it('locks the account after the maximum number of consecutive failures', async () => {
+        const user = createUser();
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            now += 60 * 1000;
+            await fail(user);
+        }
+
+        expect(update).toHaveBeenLastCalledWith(1, { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: new Date(now + 15 * 60 * 1000) });
+        expect(track).toHaveBeenCalledWith('1', 'auth_account_locked', expect.objectContaining({ failed_attempts: 5 }));
+
+        // From another address too, since the lock is on the account
+        expect(await rejection(user, '198.51.100.1')).toMatchObject({ message: expect.stringContaining('locked'), retryAfter: 15 * 60 });
+
+        now += 15 * 60 * 1000;
+        expect(await rejection(user, '198.51.100.1')).toBeNull();
+    });
+
+    it('blocks an address after too many failures within the window, whatever the accounts', async () => {
+        for (let attempt = 0; attempt < 8; attempt++) {
+            now += 60 * 1000;
+            await fail(null, 'unknown_email');
+        }
+
+        expect(await rejection(null)).toMatchObject({ retryAfter: 15 * 60 });
+        expect(await rejection(null, '198.51.100.1')).toBeNull();
+
+        now += 15 * 60 * 1000;
+        expect(await rejection(null)).toBeNull();
+    });
+
+    it('does not extend the delay for attempts rejected before the password check', async () => {
+        const user = createUser();
+        await fail(user);
+        await fail(user);
+
+        await rejection(user);
+        await rejection(user);
+
+        now += 1000;
+        expect(await rejection(user)).toBeNull();
+    });
+
+    it('forgets the failures of the address and the account after a successful login', async () => {
+        const user = createUser();
+        await fail(user);
+        await fail(user);
+
+        await service.recordSuccess(ip, user);
+
+        expect(update).toHaveBeenLastCalledWith(1, { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+        expect(await rejection(createUser())).toBeNull();
+    });
+
+    it('tracks failures and lockouts without the raw IP address', async () => {
+        const user = createUser({ failedLoginAttempts: 4 });
+
+        await fail(user);
+
+        const events = track.mock.calls.map(([, event, properties]) => [event, properties]);
+        expect(events.map(([event]) => event)).toEqual(['auth_login_failed', 'auth_account_locked']);
+        for (const [, properties] of events) {
+            expect(properties.ip).toMatch(/^\[HASHED_IP:[0-9a-f]{12}\]$/);
+        }
+        expect(JSON.stringify(track.mock.calls)).not.toContain(ip);
+    });
+});
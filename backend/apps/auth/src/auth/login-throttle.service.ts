@@ -0,0 +1,159 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '@common/common';
+import { PosthogService, Redactor } from '@posthog/posthog';
+
+export type LoginFailureReason = 'unknown_email' | 'invalid_password' | 'invalid_two_factor_code' | 'inactive' | 'locked' | 'throttled';
+
+interface IpFailures {
+    count: number;
+    lastFailureAt: number;
+}
+
+/**
+ * Brute-force protection for logins.
+ *
+ * - Per account (stored on the user): after a few failures each further attempt must wait a doubling delay,
+ *   and `maxAttempts` consecutive failures lock the account for `lockoutMinutes`.
+ * - Per IP (in memory): the same doubling delay, and a block once `ipMaxAttempts` failures happen within `windowMinutes`.
+ *
+ * Attempts made too early are rejected with 429 before the password is checked.
+ */
+@Injectable()
+export class LoginThrottleService {
+    private readonly logger = new Logger(LoginThrottleService.name);
+    private ipFailures = new Map<string, IpFailures>();
+    private readonly maxAttempts: number;
+    private readonly lockoutMs: number;
+    private readonly ipMaxAttempts: number;
+    private readonly windowMs: number;
+    private readonly freeAttempts: number;
+    private readonly maxDelayMs: number;
+
+    constructor(
+        @InjectRepository(User)
+        private usersRepository: Repository<User>,
+        private posthogService: PosthogService,
+        private redactor: Redactor,
+        config: ConfigService,
+    ) {
+        const toNumber = (key: string, fallback: number) => parseInt(config.get<string>(key), 10) || fallback;
+
+        this.maxAttempts = toNumber('LOGIN_MAX_FAILED_ATTEMPTS', 10);
+        this.lockoutMs = toNumber('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000;
+        this.ipMaxAttempts = toNumber('LOGIN_IP_MAX_FAILED_ATTEMPTS', 50);
+        this.windowMs = toNumber('LOGIN_IP_WINDOW_MINUTES', 15) * 60 * 1000;
+        this.freeAttempts = toNumber('LOGIN_FREE_ATTEMPTS', 3);
+        this.maxDelayMs = toNumber('LOGIN_MAX_DELAY_SECONDS', 30) * 1000;
+    }
+
+    /**
+     * Reject the attempt if the IP or the account must still wait
+     */
+    async assertAllowed(ip: string, user: User | null): Promise<void> {
+        const now = Date.now();
+        this.removeExpired(now);
+
+        const failures = this.ipFailures.get(ip);
+        if (failures) {
+            const blockedUntil = failures.count >= this.ipMaxAttempts ? failures.lastFailureAt + this.windowMs : failures.lastFailureAt + this.delayMs(failures.count);
+            await this.rejectUntil(blockedUntil, now, ip, user, 'throttled');
+        }
+
+        if (user?.lockedUntil) {
+            await this.rejectUntil(user.lockedUntil.getTime(), now, ip, user, 'locked');
+        }
+        if (user?.lastFailedLoginAt) {
+            await this.rejectUntil(user.lastFailedLoginAt.getTime() + this.delayMs(user.failedLoginAttempts), now, ip, user, 'throttled');
+        }
+    }
+
+    async recordFailure(ip: string, user: User | null, reason: LoginFailureReason): Promise<void> {
+        const now = Date.now();
+
+        // Rejected attempts did not get to try a password, so they don't extend the delay
+        if (reason !== 'throttled' && reason !== 'locked') {
+            const failures = this.ipFailures.get(ip) || { count: 0, lastFailureAt: now };
+            failures.count++;
+            failures.lastFailureAt = now;
+            this.ipFailures.set(ip, failures);
+        }
+
+        let locked = false;
+        if (user && (reason === 'invalid_password' || reason === 'invalid_two_factor_code')) {
+            const attempts = user.failedLoginAttempts + 1;
+            locked = attempts >= this.maxAttempts;
+
+            await this.usersRepository.update(user.id, {
+                failedLoginAttempts: locked ? 0 : attempts,
+                lastFailedLoginAt: locked ? null : new Date(now),
+                lockedUntil: locked ? new Date(now + this.lockoutMs) : user.lockedUntil,
+            });
+            user.failedLoginAttempts = attempts;
+        }
+
+        const distinctId = user ? user.id.toString() : 'anonymous';
+        // Hashed (or masked) like any other PII, so failures from one address can still be grouped
+        const redactedIp = this.redactor.redactField(ip, 'ip');
+        this.posthogService.track(distinctId, 'auth_login_failed', {
+            reason,
+            ip: redactedIp,
+            failed_attempts: user?.failedLoginAttempts,
+            ip_failed_attempts: this.ipFailures.get(ip)?.count,
+        });
+
+        if (locked) {
+            this.logger.warn(`⚠️ Locked user ${user.id} after ${user.failedLoginAttempts} failed login attempts`);
+            this.posthogService.track(distinctId, 'auth_account_locked', {
+                ip: redactedIp,
+                failed_attempts: user.failedLoginAttempts,
+                locked_until: new Date(now + this.lockoutMs).toISOString(),
+            });
+        }
+    }
+
+    async recordSuccess(ip: string, user: User): Promise<void> {
+        this.ipFailures.delete(ip);
+
+        if (user.failedLoginAttempts > 0 || user.lastFailedLoginAt || user.lockedUntil) {
+            await this.usersRepository.update(user.id, { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+        }
+    }
+
+    /**
+     * Lift a lockout and forget past failures of an account
+     */
+    async unlock(userId: number): Promise<void> {
+        await this.usersRepository.update(userId, { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+    }
+
+    /** No delay for the first few failures, then 1s, 2s, 4s, ... up to the maximum */
+    private delayMs(failures: number): number {
+        if (failures < this.freeAttempts) {
+            return 0;
+        }
+        return Math.min(1000 * 2 ** (failures - this.freeAttempts), this.maxDelayMs);
+    }
+
+    private async rejectUntil(time: number, now: number, ip: string, user: User | null, reason: 'throttled' | 'locked') {
+        if (time <= now) {
+            return;
+        }
+
+        await this.recordFailure(ip, user, reason);
+
+        const message = reason === 'locked' ? 'Account is temporarily locked after too many failed login attempts' : 'Too many failed login attempts, try again later';
+        const retryAfter = Math.ceil((time - now) / 1000);
+        throw new HttpException({ statusCode: HttpStatus.TOO_MANY_REQUESTS, message, retryAfter }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    private removeExpired(now: number) {
+        for (const [ip, failures] of this.ipFailures) {
+            if (failures.lastFailureAt + this.windowMs <= now) {
+                this.ipFailures.delete(ip);
+            }
+        }
+    }
+}
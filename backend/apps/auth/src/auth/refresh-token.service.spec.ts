@@ -0,0 +1,109 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FindOperator } from 'typeorm';
+import { createHash } from 'crypto';
+import { RefreshTokenService } from './refresh-token.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+
+describe('RefreshTokenService', () => {
+    let rows: RefreshToken[];
+    let service: RefreshTokenService;
+
+    let transactions: Promise<unknown>;
+
+    // Stands in for the refresh_tokens table; IsNull() criteria are matched like the database would,
+    // and transactions run one after the other like updates waiting for the row lock
+    const matches = (row: RefreshToken, where: Record<string, unknown>) =>
+        Object.entries(where).every(([key, value]) => (value instanceof FindOperator && value.type === 'isNull' ? row[key] == null : row[key] === value));
+    const repository = {
+        findOne: async ({ where }: { where: Record<string, unknown> }) => rows.find((row) => matches(row, where)) ?? null,
+        create: (fields: Partial<RefreshToken>) => ({ id: `token-${rows.length + 1}`, revokedAt: null, replacedById: null, ...fields }) as RefreshToken,
+        insert: async (row: RefreshToken) => {
+            rows.push(row);
+        },
+        update: async (where: Record<string, unknown>, changes: Partial<RefreshToken>) => {
+            const updated = rows.filter((row) => matches(row, where));
+            updated.forEach((row) => Object.assign(row, changes));
+            return { affected: updated.length };
+        },
+        delete: async () => ({ affected: 0 }),
+        manager: {
+            transaction: (work: (manager: any) => Promise<unknown>) => {
+                const run = transactions.then(() => work({ getRepository: () => repository }));
+                transactions = run.catch(() => undefined);
+                return run;
+            },
+        },
+    };
+
+    const stored = (token: string) => rows.find((row) => row.tokenHash === createHash('sha256').update(token).digest('hex'));
+
+    beforeAll(() => {
+        Logger.overrideLogger(false);
+    });
+
+    beforeEach(() => {
+        rows = [];
+        transactions = Promise.resolve();
+        service = new RefreshTokenService(repository as any, new ConfigService({ JWT_REFRESH_TOKEN_TTL_DAYS: '30' }));
+    });
+
+    it('stores only the hash of an issued token', async () => {
+        const token = await service.issue(7, true);
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({ userId: 7, twoFactorVerified: true, tokenHash: expect.stringMatching(/^[0-9a-f]{64}$/) });
+        expect(JSON.stringify(rows)).not.toContain(token);
+    });
+
+    it('rotates a token into a new one of the same family', async () => {
+        const token = await service.issue(7, true);
+
+        const rotated = await service.rotate(token);
+
+        expect(rotated).toMatchObject({ userId: 7, twoFactorVerified: true });
+        expect(stored(token)).toMatchObject({ revokedAt: expect.any(Date), replacedById: stored(rotated.token).id });
+        expect(stored(rotated.token)).toMatchObject({ familyId: stored(token).familyId, revokedAt: null });
+    });
+
+    it('revokes the whole family when a rotated token is presented again', async () => {
+        const token = await service.issue(7);
+        const { token: next } = await service.rotate(token);
+
+        await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+
+        expect(stored(next).revokedAt).toBeInstanceOf(Date);
+        await expect(service.rotate(next)).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('lets only one of two concurrent refreshes win and revokes the family', async () => {
+        const token = await service.issue(7);
+
+        const results = await Promise.allSettled([service.rotate(token), service.rotate(token)]);
+
+        expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect(rows.every((row) => row.revokedAt)).toBe(true);
+    });
+
+    it('rejects unknown and expired tokens', async () => {
+        const token = await service.issue(7);
+        stored(token).expiresAt = new Date(Date.now() - 1000);
+
+        await expect(service.rotate('unknown')).rejects.toThrow('Invalid refresh token');
+        await expect(service.rotate(token)).rejects.toThrow('Refresh token expired');
+    });
+
+    it('revokes one family on logout and every family on logout from all devices', async () => {
+        const phone = await service.issue(7);
+        const laptop = await service.issue(7);
+        const otherUser = await service.issue(8);
+
+        await service.revoke(phone);
+        expect(stored(phone).revokedAt).toBeInstanceOf(Date);
+        expect(stored(laptop).revokedAt).toBeNull();
+
+        await service.revokeAll(7);
+        expect(stored(laptop).revokedAt).toBeInstanceOf(Date);
+        expect(stored(otherUser).revokedAt).toBeNull();
+    });
+});
@@ -0,0 +1,120 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { RefreshToken } from './entities/refresh-token.entity';
+
+@Injectable()
+export class RefreshTokenService {
+    private readonly logger = new Logger(RefreshTokenService.name);
+    private readonly ttlMs: number;
+
+    constructor(
+        @InjectRepository(RefreshToken)
+        private refreshTokensRepository: Repository<RefreshToken>,
+        config: ConfigService,
+    ) {
+        this.ttlMs = (parseInt(config.get<string>('JWT_REFRESH_TOKEN_TTL_DAYS'), 10) || 30) * 24 * 60 * 60 * 1000;
+    }
+
+    /**
+     * Issue a refresh token in a new family (on login). Only the hash is stored; the token itself is returned once.
+     */
+    async issue(userId: number, twoFactorVerified = false): Promise<string> {
+        // Expired tokens are no longer useful for reuse detection
+        await this.refreshTokensRepository.delete({ userId, expiresAt: LessThan(new Date()) });
+
+        return this.create(this.refreshTokensRepository, { userId, familyId: randomUUID(), twoFactorVerified });
+    }
+
+    /**
+     * Exchange a refresh token for a new one in the same family. Presenting a token that was
+     * already rotated means it was copied, so the whole family is revoked.
+     */
+    async rotate(token: string): Promise<{ userId: number; token: string; twoFactorVerified: boolean }> {
+        const current = await this.refreshTokensRepository.findOne({ where: { tokenHash: this.hash(token) } });
+
+        if (!current) {
+            throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        if (current.revokedAt) {
+            if (current.replacedById) {
+                await this.revokeReusedFamily(current);
+            }
+            throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        if (current.expiresAt.getTime() <= Date.now()) {
+            throw new UnauthorizedException('Refresh token expired');
+        }
+
+        const rotated = await this.refreshTokensRepository.manager.transaction(async (manager) => {
+            const repository = manager.getRepository(RefreshToken);
+            const nextId = randomUUID();
+
+            // Only one concurrent refresh may win; the loser is handled like reuse
+            const result = await repository.update({ id: current.id, revokedAt: IsNull() }, { revokedAt: new Date(), replacedById: nextId });
+            if (!result.affected) {
+                return null;
+            }
+
+            return this.create(repository, { id: nextId, userId: current.userId, familyId: current.familyId, twoFactorVerified: current.twoFactorVerified });
+        });
+
+        if (!rotated) {
+            await this.revokeReusedFamily(current);
+            throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        return { userId: current.userId, token: rotated, twoFactorVerified: current.twoFactorVerified };
+    }
+
+    /**
+     * Revoke the family of a refresh token (logout on one device). Unknown tokens are ignored.
+     */
+    async revoke(token: string): Promise<void> {
+        const current = await this.refreshTokensRepository.findOne({ where: { tokenHash: this.hash(token) } });
+
+        if (current) {
+            await this.revokeFamily(current.familyId);
+        }
+    }
+
+    /**
+     * Revoke every refresh token of a user (logout on all devices)
+     */
+    async revokeAll(userId: number): Promise<void> {
+        await this.refreshTokensRepository.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+    }
+
+    private async revokeFamily(familyId: string): Promise<void> {
+        await this.refreshTokensRepository.update({ familyId, revokedAt: IsNull() }, { revokedAt: new Date() });
+    }
+
+    private async revokeReusedFamily(token: RefreshToken): Promise<void> {
+        await this.revokeFamily(token.familyId);
+        this.logger.warn(`⚠️ Refresh token reuse detected for user ${token.userId}, revoked token family ${token.familyId}`);
+    }
+
+    private async create(
+        repository: Repository<RefreshToken>,
+        fields: Pick<RefreshToken, 'userId' | 'familyId' | 'twoFactorVerified'> & { id?: string },
+    ): Promise<string> {
+        const token = randomBytes(48).toString('base64url');
+        await repository.insert(
+            repository.create({
+                ...fields,
+                tokenHash: this.hash(token),
+                expiresAt: new Date(Date.now() + this.ttlMs),
+            }),
+        );
+
+        return token;
+    }
+
+    private hash(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+}
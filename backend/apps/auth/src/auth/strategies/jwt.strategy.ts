@@ -2,7 +2,7 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { AuthService } from '../auth.service';
-import { User } from '@common/common';
+import { AuthenticatedUser } from '@common/common';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -14,13 +14,18 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         });
     }
 
-    async validate(payload: any): Promise<User> {
+    async validate(payload: any): Promise<AuthenticatedUser> {
         const user = await this.authService.validateUser(payload.sub);
 
         if (!user) {
             throw new UnauthorizedException();
         }
 
-        return user;
+        // Tokens issued before a logout from all devices
+        if ((payload.tv ?? 0) !== user.tokenVersion) {
+            throw new UnauthorizedException('Token has been revoked');
+        }
+
+        return Object.assign(user, { twoFactorVerified: payload.mfa === true });
     }
 }
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MailTransport } from './transports/mail-transport';
+import { SmtpTransport } from './transports/smtp.transport';
+import { FileTransport } from './transports/file.transport';
+import { ConsoleTransport } from './transports/console.transport';
+
+@Module({
+    providers: [
+        MailService,
+        {
+            provide: MailTransport,
+            inject: [ConfigService],
+            useFactory: (config: ConfigService): MailTransport => {
+                switch (config.get<string>('MAIL_TRANSPORT') || 'console') {
+                    case 'smtp':
+                        return new SmtpTransport({
+                            host: config.get<string>('MAIL_SMTP_HOST'),
+                            port: parseInt(config.get<string>('MAIL_SMTP_PORT'), 10) || 587,
+                            secure: config.get<string>('MAIL_SMTP_SECURE') === 'true',
+                            user: config.get<string>('MAIL_SMTP_USER'),
+                            pass: config.get<string>('MAIL_SMTP_PASS'),
+                        });
+                    case 'file':
+                        return new FileTransport(config.get<string>('MAIL_FILE_DIR') || '.mail');
+                    case 'console':
+                        return new ConsoleTransport();
+                    default:
+                        throw new Error(`Unknown MAIL_TRANSPORT "${config.get<string>('MAIL_TRANSPORT')}" (expected smtp, file or console)`);
+                }
+            },
+        },
+    ],
+    exports: [MailService],
+})
+export class MailModule {}
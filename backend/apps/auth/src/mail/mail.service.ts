@@ -0,0 +1,44 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailTransport } from './transports/mail-transport';
+import { MAIL_TEMPLATES, MailTemplateName } from './mail.templates';
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+@Injectable()
+export class MailService {
+    private readonly logger = new Logger(MailService.name);
+    private readonly from: string;
+
+    constructor(
+        private readonly transport: MailTransport,
+        config: ConfigService,
+    ) {
+        this.from = config.get<string>('MAIL_FROM') || 'no-reply@localhost';
+    }
+
+    /**
+     * Render a template and send it
+     */
+    async send(to: string, template: MailTemplateName, variables: Record<string, string>): Promise<void> {
+        const { subject, text, html } = MAIL_TEMPLATES[template];
+
+        await this.transport.send(
+            {
+                to,
+                subject: this.render(subject, variables),
+                text: this.render(text, variables),
+                html: this.render(html, variables, true),
+            },
+            this.from,
+        );
+        this.logger.log(`✅ Sent ${template} email via ${this.transport.name}`);
+    }
+
+    private render(template: string, variables: Record<string, string>, escapeHtml = false): string {
+        return template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+            const value = variables[name] ?? '';
+            return escapeHtml ? value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]) : value;
+        });
+    }
+}
@@ -0,0 +1,59 @@
+export interface MailTemplate {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+/**
+ * Email templates. `{{name}}` placeholders are replaced by MailService; values are HTML-escaped in `html`.
+ */
+export const MAIL_TEMPLATES = {
+    'verify-email': {
+        subject: 'Verify your email address',
+        text: ['Hi {{name}},', '', 'Please confirm your email address by opening this link:', '{{url}}', '', 'The link expires in {{expiresIn}}.'].join('\n'),
+        html: [
+            '<p>Hi {{name}},</p>',
+            '<p>Please confirm your email address:</p>',
+            '<p><a href="{{url}}">Verify email</a></p>',
+            '<p>The link expires in {{expiresIn}}.</p>',
+        ].join('\n'),
+    },
+    'reset-password': {
+        subject: 'Reset your password',
+        text: [
+            'Hi {{name}},',
+            '',
+            'Someone asked to reset the password of your account. Open this link to choose a new one:',
+            '{{url}}',
+            '',
+            'The link expires in {{expiresIn}} and can be used once. If you did not ask for this, you can ignore this email.',
+        ].join('\n'),
+        html: [
+            '<p>Hi {{name}},</p>',
+            '<p>Someone asked to reset the password of your account.</p>',
+            '<p><a href="{{url}}">Choose a new password</a></p>',
+            '<p>The link expires in {{expiresIn}} and can be used once. If you did not ask for this, you can ignore this email.</p>',
+        ].join('\n'),
+    },
+    'confirm-email-change': {
+        subject: 'Confirm your new email address',
+        text: ['Hi {{name}},', '', 'Please confirm that you want to use this address for your account by opening this link:', '{{url}}', '', 'The link expires in {{expiresIn}}.'].join('\n'),
+        html: [
+            '<p>Hi {{name}},</p>',
+            '<p>Please confirm that you want to use this address for your account:</p>',
+            '<p><a href="{{url}}">Confirm email address</a></p>',
+            '<p>The link expires in {{expiresIn}}.</p>',
+        ].join('\n'),
+    },
+    'email-changed': {
+        subject: 'Your email address was changed',
+        text: ['Hi {{name}},', '', 'The email address of your account was changed to {{email}}.', 'If you did not make this change, contact support right away.'].join('\n'),
+        html: [
+            '<p>Hi {{name}},</p>',
+            '<p>The email address of your account was changed to {{email}}.</p>',
+            '<p>If you did not make this change, contact support right away.</p>',
+        ].join('\n'),
+    },
+} satisfies Record<string, MailTemplate>;
+
+export type MailTemplateName = keyof typeof MAIL_TEMPLATES;
@@ -0,0 +1,14 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Logs emails instead of sending them (default when no transport is configured)
+ */
+export class ConsoleTransport extends MailTransport {
+    readonly name = 'console';
+    private readonly logger = new Logger('Mail');
+
+    async send(message: MailMessage, from: string): Promise<void> {
+        this.logger.log(`📧 ${from} → ${message.to}: ${message.subject}\n${message.text}`);
+    }
+}
@@ -0,0 +1,25 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Writes each email as an .eml file, for local development and tests
+ */
+export class FileTransport extends MailTransport {
+    readonly name = 'file';
+    private readonly transporter: Transporter;
+
+    constructor(private readonly directory: string) {
+        super();
+        this.transporter = createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    }
+
+    async send(message: MailMessage, from: string): Promise<void> {
+        const info = await this.transporter.sendMail({ from, ...message });
+
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(join(this.directory, `${Date.now()}-${randomBytes(4).toString('hex')}.eml`), info.message as Buffer);
+    }
+}
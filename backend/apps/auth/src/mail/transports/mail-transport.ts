@@ -0,0 +1,16 @@
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+}
+
+/**
+ * Delivers emails.
+ * Abstract class so it can be used as the injection token and replaced with Nest DI (e.g. in tests).
+ */
+export abstract class MailTransport {
+    abstract readonly name: string;
+
+    abstract send(message: MailMessage, from: string): Promise<void>;
+}
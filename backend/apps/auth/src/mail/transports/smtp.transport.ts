@@ -0,0 +1,32 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport';
+
+export interface SmtpTransportOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+}
+
+/**
+ * Sends emails through an SMTP server
+ */
+export class SmtpTransport extends MailTransport {
+    readonly name = 'smtp';
+    private readonly transporter: Transporter;
+
+    constructor(options: SmtpTransportOptions) {
+        super();
+        this.transporter = createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+        });
+    }
+
+    async send(message: MailMessage, from: string): Promise<void> {
+        await this.transporter.sendMail({ from, ...message });
+    }
+}
@@ -21,6 +21,7 @@ async function bootstrap() {
         .setDescription('Authentication API with JWT')
         .setVersion('1.0')
         .addTag('auth', 'Authentication endpoints')
+        .addTag('admin', 'User role management')
         .addBearerAuth(
             {
                 type: 'http',
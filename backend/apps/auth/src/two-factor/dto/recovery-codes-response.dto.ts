@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RecoveryCodesResponseDto {
+    @ApiProperty({
+        description: 'Single-use recovery codes for logging in without the authenticator app. They are not shown again',
+        example: ['k7m2p-x9qrt', 'a3d8f-hw4ne'],
+    })
+    recoveryCodes: string[];
+}
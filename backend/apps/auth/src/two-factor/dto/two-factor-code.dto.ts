@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+    @ApiProperty({
+        description: '6-digit code from the authenticator app (a recovery code is accepted too, except when enabling)',
+        example: '123456',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(20)
+    code: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorSetupResponseDto {
+    @ApiProperty({
+        description: 'Base32 TOTP secret, for entering into an authenticator app by hand',
+        example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+    })
+    secret: string;
+
+    @ApiProperty({
+        description: 'otpauth:// key URI, usually shown as a QR code',
+        example: 'otpauth://totp/PostHog%20Demo%3Auser%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=PostHog%20Demo&algorithm=SHA1&digits=6&period=30',
+    })
+    otpauthUrl: string;
+}
@@ -0,0 +1,50 @@
+import { buildOtpauthUrl, currentTotpStep, generateTotp, generateTotpSecret, verifyTotp } from './totp';
+
+// Secret of the RFC 6238 test vectors ("12345678901234567890"), base32-encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+    it('matches the RFC 6238 SHA-1 test vectors', () => {
+        expect(generateTotp(RFC_SECRET, currentTotpStep(59 * 1000))).toBe('287082');
+        expect(generateTotp(RFC_SECRET, currentTotpStep(1111111109 * 1000))).toBe('081804');
+        expect(generateTotp(RFC_SECRET, currentTotpStep(1234567890 * 1000))).toBe('005924');
+    });
+
+    it('returns the step of a code within one step of drift', () => {
+        const now = 1111111109 * 1000;
+        const step = currentTotpStep(now);
+
+        expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), 1, now)).toBe(step);
+        expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+        expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window and malformed codes', () => {
+        const now = 1111111109 * 1000;
+        const step = currentTotpStep(now);
+
+        expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+    });
+
+    it('ignores spaces in a code', () => {
+        const now = 1111111109 * 1000;
+
+        expect(verifyTotp(RFC_SECRET, '081 804', 0, now)).toBe(currentTotpStep(now));
+    });
+
+    it('generates base32 secrets that round-trip through codes', () => {
+        const secret = generateTotpSecret();
+        const now = Date.now();
+
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(verifyTotp(secret, generateTotp(secret, currentTotpStep(now)), 1, now)).toBe(currentTotpStep(now));
+    });
+
+    it('builds an otpauth URI for authenticator apps', () => {
+        expect(buildOtpauthUrl('PostHog Demo', 'user@example.com', RFC_SECRET)).toBe(
+            `otpauth://totp/PostHog%20Demo%3Auser%40example.com?secret=${RFC_SECRET}&issuer=PostHog%20Demo&algorithm=SHA1&digits=6&period=30`,
+        );
+    });
+});
@@ -0,0 +1,105 @@
+import { Controller, Post, Body, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { TwoFactorGuard, RequireTwoFactor } from '@common/common';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorSetupResponseDto } from './dto/two-factor-setup-response.dto';
+import { RecoveryCodesResponseDto } from './dto/recovery-codes-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('auth')
+@UseGuards(JwtAuthGuard, TwoFactorGuard)
+@ApiBearerAuth('JWT-auth')
+@Controller('auth/2fa')
+@ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+})
+export class TwoFactorController {
+    constructor(private readonly twoFactorService: TwoFactorService) {}
+
+    @Post('setup')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Start two-factor enrolment',
+        description: 'Generates a TOTP secret. Two-factor authentication is enabled once a code is confirmed with POST /auth/2fa/enable',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Secret and otpauth URI',
+        type: TwoFactorSetupResponseDto,
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Two-factor authentication is already enabled',
+    })
+    async setup(@Request() req) {
+        return this.twoFactorService.setup(req.user.id);
+    }
+
+    @Post('enable')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Enable two-factor authentication',
+        description: 'Confirms enrolment with a code from the authenticator app and returns recovery codes. Later logins need a second step',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Enabled',
+        type: RecoveryCodesResponseDto,
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid code, no pending enrolment, or already enabled',
+    })
+    async enable(@Request() req, @Body() twoFactorCodeDto: TwoFactorCodeDto) {
+        return this.twoFactorService.enable(req.user.id, twoFactorCodeDto.code);
+    }
+
+    @Post('disable')
+    @RequireTwoFactor()
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Disable two-factor authentication',
+        description: 'Needs a token from a login completed with two-factor authentication, plus a current code or a recovery code',
+    })
+    @ApiResponse({
+        status: 204,
+        description: 'Disabled',
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid code or not enabled',
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Log in with two-factor authentication first',
+    })
+    async disable(@Request() req, @Body() twoFactorCodeDto: TwoFactorCodeDto) {
+        await this.twoFactorService.disable(req.user.id, twoFactorCodeDto.code);
+    }
+
+    @Post('recovery-codes')
+    @RequireTwoFactor()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Regenerate recovery codes',
+        description: 'Replaces all recovery codes. Needs a token from a login completed with two-factor authentication, plus a current code',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'New recovery codes',
+        type: RecoveryCodesResponseDto,
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid code or not enabled',
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Log in with two-factor authentication first',
+    })
+    async regenerateRecoveryCodes(@Request() req, @Body() twoFactorCodeDto: TwoFactorCodeDto) {
+        return this.twoFactorService.regenerateRecoveryCodes(req.user.id, twoFactorCodeDto.code);
+    }
+}
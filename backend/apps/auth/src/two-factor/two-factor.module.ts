@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from '@common/common';
+import { TwoFactorController } from './two-factor.controller';
+import { TwoFactorService } from './two-factor.service';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([User])],
+    controllers: [TwoFactorController],
+    providers: [TwoFactorService],
+    exports: [TwoFactorService],
+})
+export class TwoFactorModule {}
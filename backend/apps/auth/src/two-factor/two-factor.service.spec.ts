@@ -0,0 +1,97 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { User } from '@common/common';
+import { TwoFactorService } from './two-factor.service';
+import { currentTotpStep, generateTotp, generateTotpSecret } from './totp';
+
+describe('TwoFactorService.verifyCode', () => {
+    let dataSource: DataSource;
+    let service: TwoFactorService;
+    let executed: { query: string; parameters: any[] }[];
+    let row: Record<string, unknown>;
+    let affected: number;
+    const secret = generateTotpSecret();
+
+    beforeAll(async () => {
+        // Metadata only, no connection: the generated SQL is captured instead of run
+        dataSource = new DataSource({ type: 'postgres', entities: [User] });
+        await (dataSource as any).buildMetadatas();
+    });
+
+    beforeEach(() => {
+        executed = [];
+        affected = 1;
+        jest.spyOn(dataSource, 'createQueryRunner').mockReturnValue({
+            query: async (query: string, parameters: any[]) => {
+                executed.push({ query, parameters });
+                return query.startsWith('UPDATE') ? { records: [], affected } : { records: [row] };
+            },
+            release: async () => undefined,
+            broadcaster: { broadcast: async () => undefined },
+        } as any);
+
+        service = new TwoFactorService(dataSource.getRepository(User), new ConfigService({ TWO_FACTOR_ENCRYPTION_KEY: 'test-key' }));
+        row = {
+            user_id: 1,
+            user_email: 'user@example.com',
+            user_twoFactorEnabled: true,
+            user_twoFactorSecret: (service as any).encrypt(secret),
+            user_twoFactorRecoveryCodes: [(service as any).hashRecoveryCode('k7m2p-x9qrt')],
+            user_twoFactorLastUsedStep: null,
+        };
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const updates = () => executed.filter(({ query }) => query.startsWith('UPDATE'));
+
+    it('accepts a current code and records its step only if no later step was used', async () => {
+        const step = currentTotpStep();
+
+        await expect(service.verifyCode(1, generateTotp(secret, step))).resolves.toBe(true);
+
+        const [{ query, parameters }] = updates();
+        expect(query).toContain('"twoFactorLastUsedStep" < $');
+        expect(parameters).toContain(step);
+    });
+
+    it('refuses a code whose step was already used', async () => {
+        const step = currentTotpStep();
+        row.user_twoFactorLastUsedStep = step;
+
+        await expect(service.verifyCode(1, generateTotp(secret, step))).resolves.toBe(false);
+        await expect(service.verifyCode(1, generateTotp(secret, step - 1))).resolves.toBe(false);
+        expect(updates()).toHaveLength(0);
+    });
+
+    it('refuses a code that a concurrent request used first', async () => {
+        affected = 0;
+
+        await expect(service.verifyCode(1, generateTotp(secret, currentTotpStep()))).resolves.toBe(false);
+    });
+
+    it('accepts a recovery code in any format and removes it', async () => {
+        await expect(service.verifyCode(1, 'K7M2P X9QRT')).resolves.toBe(true);
+
+        const [{ query, parameters }] = updates();
+        expect(query).toContain('array_remove("twoFactorRecoveryCodes"');
+        expect(parameters).toContain((service as any).hashRecoveryCode('k7m2p-x9qrt'));
+    });
+
+    it('refuses an unknown recovery code and a recovery code that was already removed', async () => {
+        await expect(service.verifyCode(1, 'aaaaa-bbbbb')).resolves.toBe(false);
+        expect(updates()).toHaveLength(0);
+
+        affected = 0;
+        await expect(service.verifyCode(1, 'k7m2p-x9qrt')).resolves.toBe(false);
+    });
+
+    it('refuses every code while 2FA is disabled', async () => {
+        row.user_twoFactorEnabled = false;
+
+        await expect(service.verifyCode(1, generateTotp(secret, currentTotpStep()))).resolves.toBe(false);
+        await expect(service.verifyCode(1, 'k7m2p-x9qrt')).resolves.toBe(false);
+    });
+});
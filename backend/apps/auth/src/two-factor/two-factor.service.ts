@@ -0,0 +1,194 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { User } from '@common/common';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+@Injectable()
+export class TwoFactorService {
+    private readonly encryptionKey: Buffer;
+    private readonly issuer: string;
+
+    constructor(
+        @InjectRepository(User)
+        private usersRepository: Repository<User>,
+        config: ConfigService,
+    ) {
+        const key = config.get<string>('TWO_FACTOR_ENCRYPTION_KEY') || config.get<string>('JWT_SECRET') || 'your-secret-key-change-in-production';
+        this.encryptionKey = createHash('sha256').update(key).digest();
+        this.issuer = config.get<string>('TWO_FACTOR_ISSUER') || 'PostHog Demo';
+    }
+
+    /**
+     * Start enrolment: store a new secret and return it with the otpauth URI for authenticator apps.
+     * 2FA stays off until a code is confirmed with enable().
+     */
+    async setup(userId: number) {
+        const user = await this.getUser(userId);
+        if (user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await this.usersRepository.update(user.id, { twoFactorSecret: this.encrypt(secret), twoFactorLastUsedStep: null });
+
+        return {
+            secret,
+            otpauthUrl: buildOtpauthUrl(this.issuer, user.email, secret),
+        };
+    }
+
+    /**
+     * Confirm enrolment with a code from the authenticator app. Returns recovery codes, which are only shown here.
+     */
+    async enable(userId: number, code: string) {
+        const user = await this.getUser(userId);
+        if (user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+        if (!user.twoFactorSecret) {
+            throw new BadRequestException('Start with POST /auth/2fa/setup');
+        }
+
+        const step = verifyTotp(this.decrypt(user.twoFactorSecret), code);
+        if (step === null) {
+            throw new BadRequestException('Invalid two-factor code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await this.usersRepository.update(user.id, {
+            twoFactorEnabled: true,
+            twoFactorLastUsedStep: step,
+            twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+        });
+
+        return { recoveryCodes };
+    }
+
+    async disable(userId: number, code: string): Promise<void> {
+        const user = await this.getUser(userId);
+        if (!user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is not enabled');
+        }
+        if (!(await this.verify(user, code))) {
+            throw new BadRequestException('Invalid two-factor code');
+        }
+
+        await this.usersRepository.update(user.id, {
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorRecoveryCodes: [],
+            twoFactorLastUsedStep: null,
+        });
+    }
+
+    /**
+     * Replace all recovery codes. Returns the new ones, which are only shown here.
+     */
+    async regenerateRecoveryCodes(userId: number, code: string) {
+        const user = await this.getUser(userId);
+        if (!user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is not enabled');
+        }
+        if (!(await this.verify(user, code))) {
+            throw new BadRequestException('Invalid two-factor code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await this.usersRepository.update(user.id, {
+            twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+        });
+
+        return { recoveryCodes };
+    }
+
+    /**
+     * Check a TOTP code or a recovery code for a user with 2FA enabled. Each code is accepted only once:
+     * a recovery code is removed, and TOTP codes up to the accepted time step are refused afterwards.
+     */
+    async verifyCode(userId: number, code: string): Promise<boolean> {
+        return this.verify(await this.getUser(userId), code);
+    }
+
+    private async verify(user: User, code: string): Promise<boolean> {
+        if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+            return false;
+        }
+
+        const step = verifyTotp(this.decrypt(user.twoFactorSecret), code);
+        if (step !== null) {
+            if (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep) {
+                return false;
+            }
+            // Conditional update so two requests with the same code cannot both succeed
+            const result = await this.usersRepository
+                .createQueryBuilder()
+                .update(User)
+                .set({ twoFactorLastUsedStep: step })
+                .where('id = :id', { id: user.id })
+                .andWhere('("twoFactorLastUsedStep" IS NULL OR "twoFactorLastUsedStep" < :step)', { step })
+                .execute();
+            return result.affected > 0;
+        }
+
+        const hash = this.hashRecoveryCode(code);
+        if (!user.twoFactorRecoveryCodes.includes(hash)) {
+            return false;
+        }
+        const result = await this.usersRepository
+            .createQueryBuilder()
+            .update(User)
+            .set({ twoFactorRecoveryCodes: () => 'array_remove("twoFactorRecoveryCodes", :hash)' })
+            .where('id = :id', { id: user.id })
+            .andWhere(':hash = ANY("twoFactorRecoveryCodes")')
+            .setParameter('hash', hash)
+            .execute();
+        return result.affected > 0;
+    }
+
+    private async getUser(userId: number): Promise<User> {
+        const user = await this.usersRepository
+            .createQueryBuilder('user')
+            .addSelect(['user.twoFactorSecret', 'user.twoFactorRecoveryCodes', 'user.twoFactorLastUsedStep'])
+            .where('user.id = :id', { id: userId })
+            .getOne();
+
+        if (!user) {
+            throw new NotFoundException(`User with ID ${userId} not found`);
+        }
+        return user;
+    }
+
+    // Ten codes like "k7m2p-x9qrt"
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const chars = Array.from(randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+            return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+        });
+    }
+
+    private hashRecoveryCode(code: string): string {
+        const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+        return createHash('sha256').update(normalized).digest('hex');
+    }
+
+    // AES-256-GCM, stored as iv.tag.ciphertext in base64url
+    private encrypt(secret: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+        const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+        return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+    }
+
+    private decrypt(stored: string): string {
+        const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+        const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    }
+}
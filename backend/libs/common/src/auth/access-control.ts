@@ -0,0 +1,33 @@
+export const ROLES = ['user', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = ['items:read', 'items:write', 'metadata-schemas:manage', 'users:manage', 'analytics:manage'] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** Permissions each role grants */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    user: ['items:read', 'items:write'],
+    admin: PERMISSIONS,
+};
+
+/**
+ * Permissions of a user: those of their roles plus the ones granted directly,
+ * limited to the key's scopes when the request used an API key.
+ */
+export function getEffectivePermissions(user: { roles?: string[]; permissions?: string[]; apiKeyScopes?: string[] }): Permission[] {
+    const permissions = new Set<Permission>();
+
+    for (const role of user.roles || []) {
+        (ROLE_PERMISSIONS[role as Role] || []).forEach((permission) => permissions.add(permission));
+    }
+    for (const permission of user.permissions || []) {
+        if ((PERMISSIONS as readonly string[]).includes(permission)) {
+            permissions.add(permission as Permission);
+        }
+    }
+
+    if (user.apiKeyScopes) {
+        return [...permissions].filter((permission) => user.apiKeyScopes.includes(permission));
+    }
+    return [...permissions];
+}
@@ -0,0 +1,10 @@
+import { User } from '../entities/user.entity';
+import { Permission } from './access-control';
+
+/** User attached to the request by the JWT and API key strategies */
+export type AuthenticatedUser = User & {
+    /** True when the access token was issued after a login completed with a second factor */
+    twoFactorVerified?: boolean;
+    /** Set when the request was authenticated with an API key: permissions are limited to these */
+    apiKeyScopes?: Permission[];
+};
@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role, Permission } from './access-control';
+
+export const ROLES_METADATA = 'auth:roles';
+export const PERMISSIONS_METADATA = 'auth:permissions';
+
+/**
+ * Require any of these roles. Enforced by RolesGuard.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_METADATA, roles);
+
+/**
+ * Require all of these permissions. Enforced by RolesGuard; a method-level decorator replaces the class-level one.
+ */
+export const Permissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_METADATA, permissions);
@@ -0,0 +1,63 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { Roles, Permissions } from './roles.decorator';
+
+@Roles('admin')
+class AdminController {
+    list() {}
+
+    @Permissions('analytics:manage')
+    analytics() {}
+}
+
+class ItemsController {
+    open() {}
+
+    @Permissions('items:read', 'items:write')
+    write() {}
+}
+
+describe('RolesGuard', () => {
+    const guard = new RolesGuard(new Reflector());
+
+    const context = (controller: any, handler: string, user?: Record<string, unknown>) =>
+        ({
+            getHandler: () => controller.prototype[handler],
+            getClass: () => controller,
+            switchToHttp: () => ({ getRequest: () => ({ user }) }),
+        }) as unknown as ExecutionContext;
+
+    const admin = { id: 1, roles: ['admin'], permissions: [] };
+    const user = { id: 2, roles: ['user'], permissions: [] };
+
+    it('lets routes without roles or permissions through, even without a user', () => {
+        expect(guard.canActivate(context(ItemsController, 'open'))).toBe(true);
+    });
+
+    it('requires a user on protected routes', () => {
+        expect(() => guard.canActivate(context(ItemsController, 'write'))).toThrow(new ForbiddenException('Authentication required'));
+    });
+
+    it('checks class-level roles', () => {
+        expect(guard.canActivate(context(AdminController, 'list', admin))).toBe(true);
+        expect(() => guard.canActivate(context(AdminController, 'list', user))).toThrow('Requires role: admin');
+    });
+
+    it('checks method-level permissions on top of class-level roles', () => {
+        expect(guard.canActivate(context(AdminController, 'analytics', admin))).toBe(true);
+        expect(() => guard.canActivate(context(AdminController, 'analytics', { ...user, permissions: ['analytics:manage'] }))).toThrow('Requires role: admin');
+    });
+
+    it('requires every listed permission, from roles or granted directly', () => {
+        expect(guard.canActivate(context(ItemsController, 'write', user))).toBe(true);
+        expect(guard.canActivate(context(ItemsController, 'write', { roles: [], permissions: ['items:read', 'items:write'] }))).toBe(true);
+        expect(() => guard.canActivate(context(ItemsController, 'write', { roles: [], permissions: ['items:read'] }))).toThrow('Missing permission: items:write');
+    });
+
+    it('limits API keys to their scopes and keeps them off role routes', () => {
+        expect(guard.canActivate(context(ItemsController, 'write', { ...user, apiKeyScopes: ['items:read', 'items:write'] }))).toBe(true);
+        expect(() => guard.canActivate(context(ItemsController, 'write', { ...user, apiKeyScopes: ['items:read'] }))).toThrow('Missing permission: items:write');
+        expect(() => guard.canActivate(context(AdminController, 'list', { ...admin, apiKeyScopes: ['analytics:manage'] }))).toThrow('API keys cannot be used for this route');
+    });
+});
@@ -0,0 +1,46 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role, Permission, getEffectivePermissions } from './access-control';
+import { ROLES_METADATA, PERMISSIONS_METADATA } from './roles.decorator';
+
+/**
+ * Enforces @Roles and @Permissions against `request.user`, so it must run after the JWT guard.
+ * Routes without either decorator are let through.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+    constructor(private readonly reflector: Reflector) {}
+
+    canActivate(context: ExecutionContext): boolean {
+        const targets = [context.getHandler(), context.getClass()];
+        const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_METADATA, targets);
+        const permissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_METADATA, targets);
+
+        if (!roles?.length && !permissions?.length) {
+            return true;
+        }
+
+        const user = context.switchToHttp().getRequest().user;
+        if (!user) {
+            throw new ForbiddenException('Authentication required');
+        }
+
+        // API keys only carry scoped permissions, never a role
+        if (roles?.length && user.apiKeyScopes) {
+            throw new ForbiddenException('API keys cannot be used for this route');
+        }
+        if (roles?.length && !roles.some((role) => user.roles?.includes(role))) {
+            throw new ForbiddenException(`Requires role: ${roles.join(' or ')}`);
+        }
+
+        if (permissions?.length) {
+            const granted = getEffectivePermissions(user);
+            const missing = permissions.filter((permission) => !granted.includes(permission));
+            if (missing.length > 0) {
+                throw new ForbiddenException(`Missing permission: ${missing.join(', ')}`);
+            }
+        }
+
+        return true;
+    }
+}
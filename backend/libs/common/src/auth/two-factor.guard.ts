@@ -0,0 +1,33 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, SetMetadata } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedUser } from './authenticated-user';
+
+export const REQUIRE_TWO_FACTOR_METADATA = 'auth:two-factor';
+
+/**
+ * Require an access token from a login completed with two-factor authentication. Enforced by TwoFactorGuard.
+ */
+export const RequireTwoFactor = () => SetMetadata(REQUIRE_TWO_FACTOR_METADATA, true);
+
+/**
+ * Enforces @RequireTwoFactor against the claim the JWT strategies copy to `request.user`,
+ * so it must run after the JWT guard.
+ */
+@Injectable()
+export class TwoFactorGuard implements CanActivate {
+    constructor(private readonly reflector: Reflector) {}
+
+    canActivate(context: ExecutionContext): boolean {
+        const required = this.reflector.getAllAndOverride<boolean>(REQUIRE_TWO_FACTOR_METADATA, [context.getHandler(), context.getClass()]);
+        if (!required) {
+            return true;
+        }
+
+        const user: AuthenticatedUser | undefined = context.switchToHttp().getRequest().user;
+        if (!user?.twoFactorVerified) {
+            throw new ForbiddenException('Two-factor authentication required: enable it and log in again with a code');
+        }
+
+        return true;
+    }
+}
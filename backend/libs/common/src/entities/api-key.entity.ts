@@ -0,0 +1,50 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './user.entity';
+import { Permission } from '../auth/access-control';
+
+/** Permissions an API key can be limited to */
+export const API_KEY_SCOPES = ['items:read', 'items:write'] as const satisfies readonly Permission[];
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Start of every API key, so keys are easy to recognise (e.g. by secret scanners) */
+export const API_KEY_PREFIX = 'pak_';
+
+/**
+ * Personal API key for scripts and CI jobs. Only a SHA-256 hash of the key is stored;
+ * `prefix` keeps its first characters so users can tell their keys apart.
+ */
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ length: 16 })
+  prefix: string;
+
+  @Index({ unique: true })
+  @Column({ length: 64, select: false })
+  keyHash: string;
+
+  @Column('text', { array: true })
+  scopes: ApiKeyScope[];
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Index()
+  @Column()
+  userId: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
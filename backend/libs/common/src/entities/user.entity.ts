@@ -1,4 +1,5 @@
 import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Role, Permission } from '../auth/access-control';
 
 @Entity('users')
 export class User {
@@ -8,8 +9,9 @@ export class User {
   @Column({ unique: true })
   email: string;
 
-  @Column()
-  password: string; // Hashed password
+  // bcrypt hash; not selected by default so it never ends up in responses
+  @Column({ select: false })
+  password: string;
 
   @Column({ nullable: true })
   name: string;
@@ -17,6 +19,53 @@ export class User {
   @Column({ default: true })
   isActive: boolean;
 
+  @Column({ default: false })
+  emailVerified: boolean;
+
+  // New address waiting for confirmation from its mailbox; `email` changes once it is confirmed
+  @Column({ type: 'varchar', nullable: true })
+  pendingEmail: string | null;
+
+  @Column('text', { array: true, default: () => "'{user}'" })
+  roles: Role[];
+
+  // Granted on top of the permissions of the roles
+  @Column('text', { array: true, default: () => "'{}'" })
+  permissions: Permission[];
+
+  // Bumped to invalidate every access token issued before (logout from all devices)
+  @Column({ default: 0 })
+  tokenVersion: number;
+
+  // Consecutive failed logins, reset on success and when the account gets locked
+  @Column({ default: 0 })
+  failedLoginAttempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastFailedLoginAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
+  @Column({ default: false })
+  twoFactorEnabled: boolean;
+
+  // TOTP secret, encrypted; also set while enrolment is pending
+  @Column({ type: 'text', nullable: true, select: false })
+  twoFactorSecret: string | null;
+
+  // SHA-256 hashes of unused recovery codes
+  @Column('text', { array: true, default: () => "'{}'", select: false })
+  twoFactorRecoveryCodes: string[];
+
+  // Last accepted TOTP time step, so a code cannot be used twice
+  @Column({ type: 'integer', nullable: true, select: false })
+  twoFactorLastUsedStep: number | null;
+
+  // Random id of the pending two-factor login challenge, cleared when the second step succeeds
+  @Column({ type: 'varchar', nullable: true, select: false })
+  twoFactorChallengeId: string | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -1,2 +1,7 @@
 export * from './entities/user.entity';
-
+export * from './entities/api-key.entity';
+export * from './auth/access-control';
+export * from './auth/authenticated-user';
+export * from './auth/roles.decorator';
+export * from './auth/roles.guard';
+export * from './auth/two-factor.guard';
@@ -0,0 +1,68 @@
+import { Logger } from '@nestjs/common';
+import { AlertingService } from './alerting.service';
+import { Alert, AlertNotifier } from './notifiers/alert-notifier';
+import { resolvePosthogOptions } from '../posthog.options';
+
+class StubNotifier extends AlertNotifier {
+    readonly sent: Alert[] = [];
+
+    constructor(
+        readonly name: string,
+        private readonly fail = false,
+    ) {
+        super();
+    }
+
+    async send(alert: Alert): Promise<void> {
+        if (this.fail) {
+            throw new Error(`${this.name} unreachable`);
+        }
+        this.sent.push(alert);
+    }
+}
+
+describe('AlertingService', () => {
+    let service: AlertingService;
+    let warnings: jest.SpyInstance;
+    let errors: jest.SpyInstance;
+
+    const error = { fingerprint: 'abc', errorName: 'TypeError', errorMessage: 'boom', path: '/items', errorType: 'backend_error' };
+
+    // Lets the detached send settle
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+        warnings = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+        errors = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+        service = new AlertingService(resolvePosthogOptions({ apiKey: 'phc_test', alerting: { rules: { errorThreshold: { count: 1 } } } }));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('logs the alert as sent when at least one notifier delivers it', async () => {
+        const working = new StubNotifier('working');
+        service.addNotifier(new StubNotifier('broken', true));
+        service.addNotifier(working);
+
+        service.recordError(error);
+        await settle();
+
+        expect(working.sent).toHaveLength(1);
+        expect(errors).toHaveBeenCalledWith(expect.stringContaining('Failed to send alert via broken'));
+        expect(warnings).toHaveBeenCalledWith(expect.stringContaining('Alert sent'));
+    });
+
+    it('logs the alert as dropped when every notifier fails', async () => {
+        service.addNotifier(new StubNotifier('webhook', true));
+        service.addNotifier(new StubNotifier('discord', true));
+
+        service.recordError(error);
+        await settle();
+
+        expect(warnings).not.toHaveBeenCalledWith(expect.stringContaining('Alert sent'));
+        expect(errors).toHaveBeenCalledWith(expect.stringContaining('Alert dropped'));
+    });
+});
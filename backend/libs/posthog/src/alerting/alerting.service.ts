@@ -0,0 +1,208 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { POSTHOG_MODULE_OPTIONS } from '../posthog.constants';
+import { ResolvedPosthogOptions } from '../posthog.options';
+import { Alert, AlertNotifier, AlertSeverity } from './notifiers/alert-notifier';
+import { WebhookNotifier } from './notifiers/webhook.notifier';
+import { DiscordNotifier } from './notifiers/discord.notifier';
+import { SmtpNotifier } from './notifiers/smtp.notifier';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Counts per one-minute bucket, keyed by bucket start time */
+type MinuteBuckets = Map<number, { total: number; errors: number }>;
+
+/**
+ * Evaluates threshold rules on backend errors and notifies webhooks, Discord and email.
+ *
+ * Rules:
+ * - errorThreshold: N occurrences of the same error fingerprint within M minutes
+ * - routeErrorRate: share of 5xx responses on a route within M minutes (after a minimum number of requests)
+ *
+ * An alert with the same key is sent at most once per de-duplication window.
+ */
+@Injectable()
+export class AlertingService {
+    private readonly logger = new Logger(AlertingService.name);
+    private readonly notifiers: AlertNotifier[] = [];
+    private errorCounts = new Map<string, MinuteBuckets>();
+    private routeCounts = new Map<string, MinuteBuckets>();
+    private lastSent = new Map<string, { sentAt: number; suppressed: number }>();
+
+    constructor(
+        @Inject(POSTHOG_MODULE_OPTIONS)
+        private readonly options: ResolvedPosthogOptions,
+    ) {
+        const { notifiers } = options.alerting;
+
+        if (notifiers.webhookUrl) {
+            this.notifiers.push(new WebhookNotifier(notifiers.webhookUrl));
+        }
+        if (notifiers.discordWebhookUrl) {
+            this.notifiers.push(new DiscordNotifier(notifiers.discordWebhookUrl));
+        }
+        if (notifiers.smtp) {
+            this.notifiers.push(new SmtpNotifier(notifiers.smtp));
+        }
+    }
+
+    /**
+     * Add a notifier at runtime (e.g. a custom adapter)
+     */
+    addNotifier(notifier: AlertNotifier) {
+        this.notifiers.push(notifier);
+    }
+
+    get enabled(): boolean {
+        return this.options.alerting.enabled && this.notifiers.length > 0;
+    }
+
+    /**
+     * Record an error occurrence and check the error threshold rule
+     */
+    recordError(error: { fingerprint: string; errorName: string; errorMessage: string; path?: string; errorType: string }) {
+        if (!this.enabled) return;
+
+        const rule = this.options.alerting.rules.errorThreshold;
+        const count = this.increment(this.errorCounts, error.fingerprint, rule.windowMinutes, true).errors;
+
+        if (count >= rule.count) {
+            this.notify({
+                rule: 'error_threshold',
+                key: `error:${error.fingerprint}`,
+                severity: 'warning',
+                title: `${error.errorName} occurred ${count} times in ${rule.windowMinutes} min`,
+                message: error.errorMessage,
+                details: {
+                    Fingerprint: error.fingerprint,
+                    Route: error.path || 'unknown',
+                    Type: error.errorType,
+                    Occurrences: count,
+                },
+            });
+        }
+    }
+
+    /**
+     * Record a handled request and check the route 5xx rate rule
+     */
+    recordRequest(method: string, path: string, statusCode: number) {
+        if (!this.enabled) return;
+
+        const rule = this.options.alerting.rules.routeErrorRate;
+        const route = `${method} ${path}`;
+        const isServerError = statusCode >= 500;
+        const { total, errors } = this.increment(this.routeCounts, route, rule.windowMinutes, isServerError);
+
+        // Only evaluate when a 5xx happens - a success can't push the rate over the threshold
+        if (!isServerError || total < rule.minRequests) {
+            return;
+        }
+
+        const rate = errors / total;
+        if (rate >= rule.rate) {
+            this.notify({
+                rule: 'route_error_rate',
+                key: `route:${route}`,
+                severity: 'critical',
+                title: `${Math.round(rate * 100)}% of ${route} requests failing`,
+                message: `${errors} of ${total} requests to ${route} returned 5xx in the last ${rule.windowMinutes} min`,
+                details: {
+                    Route: route,
+                    'Error rate': `${Math.round(rate * 100)}%`,
+                    Requests: total,
+                    'Server errors': errors,
+                },
+            });
+        }
+    }
+
+    /**
+     * Add one request/error to the current minute and return the totals over the window
+     */
+    private increment(counts: Map<string, MinuteBuckets>, key: string, windowMinutes: number, isError: boolean) {
+        const now = Date.now();
+        const currentBucket = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+        const windowStart = currentBucket - (windowMinutes - 1) * MINUTE_MS;
+
+        let buckets = counts.get(key);
+        if (!buckets) {
+            buckets = new Map();
+            counts.set(key, buckets);
+        }
+
+        const bucket = buckets.get(currentBucket) || { total: 0, errors: 0 };
+        bucket.total++;
+        if (isError) bucket.errors++;
+        buckets.set(currentBucket, bucket);
+
+        let total = 0;
+        let errors = 0;
+        for (const [start, counted] of buckets) {
+            if (start < windowStart) {
+                buckets.delete(start);
+                continue;
+            }
+            total += counted.total;
+            errors += counted.errors;
+        }
+
+        this.prune(counts, windowStart);
+
+        return { total, errors };
+    }
+
+    /**
+     * Drop keys whose buckets are all outside the window, so memory stays bounded
+     */
+    private prune(counts: Map<string, MinuteBuckets>, windowStart: number) {
+        if (counts.size < 1000) return;
+
+        for (const [key, buckets] of counts) {
+            if (![...buckets.keys()].some(start => start >= windowStart)) {
+                counts.delete(key);
+            }
+        }
+    }
+
+    private notify(alert: { rule: string; key: string; severity: AlertSeverity; title: string; message: string; details: Alert['details'] }) {
+        const now = Date.now();
+        const dedupWindowMs = this.options.alerting.dedupWindowMinutes * MINUTE_MS;
+        const previous = this.lastSent.get(alert.key);
+
+        if (previous && now - previous.sentAt < dedupWindowMs) {
+            previous.suppressed++;
+            return;
+        }
+
+        if (this.lastSent.size >= 1000) {
+            for (const [key, sent] of this.lastSent) {
+                if (now - sent.sentAt >= dedupWindowMs) {
+                    this.lastSent.delete(key);
+                }
+            }
+        }
+
+        this.lastSent.set(alert.key, { sentAt: now, suppressed: 0 });
+        this.send({
+            ...alert,
+            suppressedCount: previous?.suppressed || 0,
+            timestamp: new Date(now),
+        });
+    }
+
+    private async send(alert: Alert) {
+        const results = await Promise.allSettled(this.notifiers.map(notifier => notifier.send(alert)));
+
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                this.logger.error(`❌ Failed to send alert via ${this.notifiers[i].name}: ${result.reason?.message}`);
+            }
+        });
+
+        if (results.some(result => result.status === 'fulfilled')) {
+            this.logger.warn(`🚨 Alert sent: ${alert.title}`);
+        } else {
+            this.logger.error(`❌ Alert dropped, no notifier delivered it: ${alert.title}`);
+        }
+    }
+}
@@ -0,0 +1,26 @@
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface Alert {
+    /** Rule that fired, e.g. error_threshold */
+    rule: string;
+    /** Identifies the alert for de-duplication, e.g. error:<fingerprint> */
+    key: string;
+    severity: AlertSeverity;
+    title: string;
+    message: string;
+    /** Extra fields shown in the notification */
+    details: Record<string, string | number>;
+    /** Alerts with the same key suppressed since the last one was sent */
+    suppressedCount: number;
+    timestamp: Date;
+}
+
+/**
+ * Delivers alerts to one destination.
+ * Abstract class so custom notifiers can be provided with Nest DI.
+ */
+export abstract class AlertNotifier {
+    abstract readonly name: string;
+
+    abstract send(alert: Alert): Promise<void>;
+}
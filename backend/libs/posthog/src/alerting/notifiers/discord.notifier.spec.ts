@@ -0,0 +1,65 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { DiscordNotifier } from './discord.notifier';
+import { Alert } from './alert-notifier';
+
+describe('DiscordNotifier', () => {
+    let server: Server;
+    let url: string;
+    let status: number;
+    let received: any[];
+
+    const alert: Alert = {
+        rule: 'route_error_rate',
+        key: 'route:GET /items',
+        severity: 'critical',
+        title: '50% of GET /items requests failing',
+        message: '10 of 20 requests to GET /items returned 5xx in the last 5 min',
+        details: { Route: 'GET /items', 'Error rate': '50%' },
+        suppressedCount: 3,
+        timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    };
+
+    beforeEach(async () => {
+        status = 204;
+        received = [];
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => (body += chunk));
+            req.on('end', () => {
+                received.push(JSON.parse(body));
+                res.writeHead(status).end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/1/token`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('sends the alert as an embed', async () => {
+        await new DiscordNotifier(url).send(alert);
+
+        expect(received).toHaveLength(1);
+        expect(received[0].username).toBe('Backend Alerts');
+        expect(received[0].embeds[0]).toEqual({
+            title: '🚨 50% of GET /items requests failing',
+            description: alert.message,
+            color: 15158332,
+            fields: [
+                { name: 'Route', value: 'GET /items', inline: true },
+                { name: 'Error rate', value: '50%', inline: true },
+                { name: 'Suppressed', value: '3 similar alerts', inline: true },
+            ],
+            timestamp: '2026-01-01T00:00:00.000Z',
+        });
+    });
+
+    it('rejects when Discord responds with an error status', async () => {
+        status = 429;
+
+        await expect(new DiscordNotifier(url).send(alert)).rejects.toThrow('Discord webhook responded 429');
+    });
+});
@@ -0,0 +1,53 @@
+import { Alert, AlertNotifier } from './alert-notifier';
+
+const SEVERITY_COLORS = {
+    warning: 16753920, // Orange
+    critical: 15158332, // Red
+};
+
+/**
+ * Sends the alert as a Discord embed (same format as the frontend error handler)
+ */
+export class DiscordNotifier extends AlertNotifier {
+    readonly name = 'discord';
+
+    constructor(private readonly webhookUrl: string) {
+        super();
+    }
+
+    async send(alert: Alert): Promise<void> {
+        const fields = Object.entries(alert.details).map(([name, value]) => ({
+            name,
+            value: String(value).substring(0, 1024),
+            inline: String(value).length < 40,
+        }));
+
+        if (alert.suppressedCount > 0) {
+            fields.push({ name: 'Suppressed', value: `${alert.suppressedCount} similar alerts`, inline: true });
+        }
+
+        const response = await fetch(this.webhookUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                username: 'Backend Alerts',
+                embeds: [
+                    {
+                        title: `🚨 ${alert.title}`.substring(0, 256),
+                        description: alert.message.substring(0, 4096),
+                        color: SEVERITY_COLORS[alert.severity],
+                        fields: fields.slice(0, 25),
+                        timestamp: alert.timestamp.toISOString(),
+                    },
+                ],
+            }),
+            signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Discord webhook responded ${response.status} ${response.statusText}`);
+        }
+    }
+}
@@ -0,0 +1,131 @@
+import { createServer, AddressInfo, Socket } from 'net';
+import { SmtpNotifier } from './smtp.notifier';
+import { Alert } from './alert-notifier';
+
+/**
+ * Minimal SMTP stand-in: accepts every command and records the envelope and message data
+ */
+const startSmtpServer = async (options: { rejectRecipients?: boolean } = {}) => {
+    const messages: { from: string; to: string[]; data: string }[] = [];
+    const sockets = new Set<Socket>();
+
+    const server = createServer(socket => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+
+        let buffer = '';
+        let inData = false;
+        let message = { from: '', to: [] as string[], data: '' };
+        const reply = (line: string) => socket.write(`${line}\r\n`);
+
+        socket.on('data', chunk => {
+            buffer += chunk.toString();
+
+            while (buffer.length) {
+                if (inData) {
+                    const end = buffer.indexOf('\r\n.\r\n');
+                    if (end === -1) return;
+                    message.data = buffer.substring(0, end);
+                    buffer = buffer.substring(end + 5);
+                    inData = false;
+                    messages.push(message);
+                    message = { from: '', to: [], data: '' };
+                    reply('250 Queued');
+                    continue;
+                }
+
+                const end = buffer.indexOf('\r\n');
+                if (end === -1) return;
+                const line = buffer.substring(0, end);
+                buffer = buffer.substring(end + 2);
+                const command = line.substring(0, 4).toUpperCase();
+
+                if (command === 'EHLO' || command === 'HELO') {
+                    reply('250 localhost');
+                } else if (command === 'MAIL') {
+                    message.from = line.match(/<(.*)>/)?.[1] ?? '';
+                    reply('250 OK');
+                } else if (command === 'RCPT') {
+                    if (options.rejectRecipients) {
+                        reply('550 Mailbox unavailable');
+                        continue;
+                    }
+                    message.to.push(line.match(/<(.*)>/)?.[1] ?? '');
+                    reply('250 OK');
+                } else if (command === 'DATA') {
+                    inData = true;
+                    reply('354 End data with <CR><LF>.<CR><LF>');
+                } else if (command === 'QUIT') {
+                    reply('221 Bye');
+                    socket.end();
+                } else {
+                    reply('250 OK');
+                }
+            }
+        });
+
+        socket.write('220 localhost ESMTP test\r\n');
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    return {
+        messages,
+        port: (server.address() as AddressInfo).port,
+        close: () => {
+            sockets.forEach(socket => socket.destroy());
+            return new Promise(resolve => server.close(resolve));
+        },
+    };
+};
+
+describe('SmtpNotifier', () => {
+    let smtp: Awaited<ReturnType<typeof startSmtpServer>>;
+
+    const alert: Alert = {
+        rule: 'error_threshold',
+        key: 'error:abc',
+        severity: 'critical',
+        title: 'QueryFailedError occurred 10 times in 5 min',
+        message: 'connection refused',
+        details: { Route: '/items', Occurrences: 10 },
+        suppressedCount: 1,
+        timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    };
+
+    const notifier = () =>
+        new SmtpNotifier({
+            host: '127.0.0.1',
+            port: smtp.port,
+            secure: false,
+            from: 'alerts@example.com',
+            to: ['oncall@example.com', 'team@example.com'],
+        });
+
+    afterEach(async () => {
+        await smtp.close();
+    });
+
+    it('emails the alert to every recipient', async () => {
+        smtp = await startSmtpServer();
+
+        await notifier().send(alert);
+
+        expect(smtp.messages).toHaveLength(1);
+        const [message] = smtp.messages;
+        expect(message.from).toBe('alerts@example.com');
+        expect(message.to).toEqual(['oncall@example.com', 'team@example.com']);
+        expect(message.data).toContain('Subject: [CRITICAL] QueryFailedError occurred 10 times in 5 min');
+        expect(message.data).toContain('connection refused');
+        expect(message.data).toContain('Route: /items');
+        expect(message.data).toContain('Severity: critical');
+        expect(message.data).toContain('Suppressed: 1 similar alerts');
+    });
+
+    it('rejects when the server refuses the message', async () => {
+        smtp = await startSmtpServer({ rejectRecipients: true });
+
+        await expect(notifier().send(alert)).rejects.toThrow();
+        expect(smtp.messages).toHaveLength(0);
+    });
+});
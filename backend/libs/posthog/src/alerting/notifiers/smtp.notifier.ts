@@ -0,0 +1,50 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { Alert, AlertNotifier } from './alert-notifier';
+
+export interface SmtpNotifierOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+    to: string[];
+}
+
+/**
+ * Emails the alert through an SMTP server
+ */
+export class SmtpNotifier extends AlertNotifier {
+    readonly name = 'smtp';
+    private readonly transporter: Transporter;
+
+    constructor(private readonly options: SmtpNotifierOptions) {
+        super();
+        this.transporter = createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+        });
+    }
+
+    async send(alert: Alert): Promise<void> {
+        const lines = [
+            alert.message,
+            '',
+            ...Object.entries(alert.details).map(([name, value]) => `${name}: ${value}`),
+            `Severity: ${alert.severity}`,
+            `Time: ${alert.timestamp.toISOString()}`,
+        ];
+        if (alert.suppressedCount > 0) {
+            lines.push(`Suppressed: ${alert.suppressedCount} similar alerts`);
+        }
+
+        await this.transporter.sendMail({
+            from: this.options.from,
+            to: this.options.to,
+            subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+            text: lines.join('\n'),
+        });
+    }
+}
@@ -0,0 +1,59 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebhookNotifier } from './webhook.notifier';
+import { Alert } from './alert-notifier';
+
+describe('WebhookNotifier', () => {
+    let server: Server;
+    let url: string;
+    let status: number;
+    let received: { method?: string; contentType?: string; body: any }[];
+
+    const alert: Alert = {
+        rule: 'error_threshold',
+        key: 'error:abc',
+        severity: 'warning',
+        title: 'TypeError occurred 10 times in 5 min',
+        message: 'Cannot read properties of undefined',
+        details: { Route: '/items', Occurrences: 10 },
+        suppressedCount: 2,
+        timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    };
+
+    beforeEach(async () => {
+        status = 200;
+        received = [];
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => (body += chunk));
+            req.on('end', () => {
+                received.push({ method: req.method, contentType: req.headers['content-type'], body: JSON.parse(body) });
+                res.writeHead(status).end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/alerts`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('POSTs the alert as JSON', async () => {
+        await new WebhookNotifier(url).send(alert);
+
+        expect(received).toEqual([
+            {
+                method: 'POST',
+                contentType: 'application/json',
+                body: { ...alert, timestamp: '2026-01-01T00:00:00.000Z' },
+            },
+        ]);
+    });
+
+    it('rejects when the endpoint responds with an error status', async () => {
+        status = 500;
+
+        await expect(new WebhookNotifier(url).send(alert)).rejects.toThrow('Webhook responded 500');
+    });
+});
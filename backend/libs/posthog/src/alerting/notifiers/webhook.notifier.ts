@@ -0,0 +1,30 @@
+import { Alert, AlertNotifier } from './alert-notifier';
+
+/**
+ * POSTs the alert as JSON to any HTTP endpoint
+ */
+export class WebhookNotifier extends AlertNotifier {
+    readonly name = 'webhook';
+
+    constructor(private readonly url: string) {
+        super();
+    }
+
+    async send(alert: Alert): Promise<void> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                ...alert,
+                timestamp: alert.timestamp.toISOString(),
+            }),
+            signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+        }
+    }
+}
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { SKIP_TRACKING_METADATA } from '../posthog.constants';
+
+/**
+ * Don't track successful calls to a route (or every route of a controller).
+ * Errors are still reported through trackError.
+ */
+export const SkipTracking = () => SetMetadata(SKIP_TRACKING_METADATA, true);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { TRACK_DIFF_METADATA } from '../posthog.constants';
+
+/**
+ * Compare each call with the previous call to the same route and attach the changes to the event.
+ * Routes with a tracked method and no @TrackEvent are diffed by default.
+ */
+export const TrackDiff = () => SetMetadata(TRACK_DIFF_METADATA, true);
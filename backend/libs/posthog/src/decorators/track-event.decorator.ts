@@ -0,0 +1,24 @@
+import { SetMetadata } from '@nestjs/common';
+import { TRACK_EVENT_METADATA } from '../posthog.constants';
+
+export interface TrackEventOptions {
+    /** Static properties added to every event */
+    properties?: Record<string, any>;
+    /** Request body fields to capture (default: the whole sanitized body) */
+    requestFields?: string[];
+    /** Response fields to capture (default: the whole response) */
+    responseFields?: string[];
+}
+
+export interface TrackEventMetadata extends TrackEventOptions {
+    eventName: string;
+}
+
+/**
+ * Track successful calls to a route under a custom event name.
+ * Routes tracked this way are tracked regardless of HTTP method.
+ *
+ * @example
+ * @TrackEvent('item_created', { properties: { resource: 'item' }, responseFields: ['id', 'name'] })
+ */
+export const TrackEvent = (eventName: string, options: TrackEventOptions = {}) => SetMetadata(TRACK_EVENT_METADATA, { eventName, ...options } as TrackEventMetadata);
@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ErrorGroupDto {
+  @ApiProperty({
+    description: 'Stable identifier of the group',
+    example: '3f2a9c1b7d4e8f60',
+  })
+  fingerprint: string;
+
+  @ApiProperty({
+    description: 'Exception class',
+    example: 'BadRequestException',
+  })
+  errorName: string;
+
+  @ApiProperty({
+    description: 'Message with variable parts replaced by placeholders',
+    example: 'Item not found <num>',
+  })
+  normalizedMessage: string;
+
+  @ApiProperty({
+    description: 'Most recent (redacted) message',
+    example: 'Item not found 42',
+  })
+  lastMessage: string;
+
+  @ApiProperty({
+    description: 'Error type',
+    example: 'backend_error',
+  })
+  errorType: string;
+
+  @ApiProperty({
+    description: 'Route path',
+    example: '/items/:id',
+    nullable: true,
+  })
+  path: string | null;
+
+  @ApiProperty({
+    description: 'Top application stack frames',
+    example: ['ItemsService.delete (items.service.ts)'],
+  })
+  frames: string[];
+
+  @ApiProperty({
+    description: 'Number of occurrences',
+    example: 12,
+  })
+  count: number;
+
+  @ApiProperty({
+    description: 'First occurrence',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  firstSeen: Date;
+
+  @ApiProperty({
+    description: 'Most recent occurrence',
+    example: '2024-01-15T11:45:00.000Z',
+  })
+  lastSeen: Date;
+
+  @ApiProperty({
+    description: 'Number of distinct authenticated users affected',
+    example: 3,
+  })
+  affectedUsers: number;
+
+  @ApiProperty({
+    description: 'Occurrences per HTTP status code',
+    example: { '400': 12 },
+  })
+  statusCodes: Record<string, number>;
+}
+
+export class ErrorGroupDetailDto extends ErrorGroupDto {
+  @ApiProperty({
+    description: 'IDs of affected users (up to 1000)',
+    example: ['1', '7'],
+  })
+  affectedUserIds: string[];
+}
@@ -0,0 +1,116 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, IsArray, IsObject, IsOptional, IsString, MaxLength, ValidateNested } from 'class-validator';
+
+export class BreadcrumbDto {
+  @ApiProperty({
+    description: 'Breadcrumb category',
+    example: 'navigation',
+  })
+  @IsString()
+  @MaxLength(100)
+  category: string;
+
+  @ApiProperty({
+    description: 'What happened',
+    example: 'Clicked "Create item"',
+  })
+  @IsString()
+  @MaxLength(500)
+  message: string;
+
+  @ApiProperty({
+    description: 'When it happened (ISO 8601)',
+    example: '2024-01-15T10:29:58.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  timestamp?: string;
+
+  @ApiProperty({
+    description: 'Severity level',
+    example: 'info',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  level?: string;
+
+  @ApiProperty({
+    description: 'Additional data',
+    example: { from: '/items', to: '/items/new' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, any>;
+}
+
+export class FrontendErrorDto {
+  @ApiProperty({
+    description: 'Error name',
+    example: 'TypeError',
+  })
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({
+    description: 'Error message',
+    example: "Cannot read properties of undefined (reading 'id')",
+  })
+  @IsString()
+  @MaxLength(2000)
+  message: string;
+
+  @ApiProperty({
+    description: 'Stack trace',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10000)
+  stack?: string;
+
+  @ApiProperty({
+    description: 'Page URL where the error happened',
+    example: 'http://localhost:3000/items',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  url?: string;
+
+  @ApiProperty({
+    description: 'PostHog session ID, used to link the error to its session replay',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  sessionId?: string;
+
+  @ApiProperty({
+    description: 'PostHog distinct ID of the browser. Unverified, so it is recorded as context only; the user is taken from the bearer token',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  distinctId?: string;
+
+  @ApiProperty({
+    description: 'Events leading up to the error (max 50)',
+    type: [BreadcrumbDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => BreadcrumbDto)
+  breadcrumbs?: BreadcrumbDto[];
+}
@@ -0,0 +1,42 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * Local copy of every sanitized api_write_request event.
+ * Used to find the previous call for an endpoint without querying PostHog Cloud.
+ */
+@Entity('api_write_requests')
+@Index(['method', 'path', 'userId', 'createdAt'])
+export class ApiWriteRequest {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ unique: true })
+    eventId: string;
+
+    @Column()
+    method: string;
+
+    @Column()
+    path: string;
+
+    @Column()
+    url: string;
+
+    @Column({ nullable: true })
+    userId: string;
+
+    @Column({ type: 'json', nullable: true })
+    requestBody: any;
+
+    @Column({ type: 'json', nullable: true })
+    responseBody: any;
+
+    @Column({ type: 'int' })
+    statusCode: number;
+
+    @Column({ type: 'int' })
+    durationMs: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+
+export interface ErrorFingerprint {
+    fingerprint: string;
+    normalizedMessage: string;
+    frames: string[];
+}
+
+const MAX_FRAMES = 3;
+
+/**
+ * Compute a stable fingerprint for an error so repeated occurrences can be grouped.
+ * Built from the exception class, the message with variable parts replaced, the top
+ * application stack frames (without line numbers) and the route path.
+ */
+export function fingerprintError(details: { errorName: string; errorMessage?: string; errorStack?: string; path?: string }): ErrorFingerprint {
+    const normalizedMessage = normalizeMessage(details.errorMessage || '');
+    const frames = topFrames(details.errorStack);
+
+    const fingerprint = createHash('sha1')
+        .update([details.errorName || 'Error', normalizedMessage, ...frames, details.path || ''].join('\n'))
+        .digest('hex')
+        .substring(0, 16);
+
+    return { fingerprint, normalizedMessage, frames };
+}
+
+/**
+ * Replace the variable parts of a message (IDs, numbers, quoted values...) with placeholders
+ */
+export function normalizeMessage(message: string): string {
+    return message
+        .replace(/\[(REDACTED|HASHED)[^\]]*\]/g, '<redacted>')
+        .replace(/https?:\/\/\S+/g, '<url>')
+        .replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '<email>')
+        .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+        .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+        .replace(/(["'`]).*?\1/g, '<str>')
+        .replace(/\b\d+(\.\d+)?\b/g, '<num>')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .substring(0, 500);
+}
+
+/**
+ * Top stack frames as "function (file)", skipping Node internals and dependencies
+ */
+function topFrames(stack?: string): string[] {
+    if (!stack) return [];
+
+    const frames: string[] = [];
+    for (const line of stack.split('\n')) {
+        const match = line.trim().match(/^at\s+(?:(.*?)\s+\()?(.*?)(?::\d+)?(?::\d+)?\)?$/);
+        if (!match) {
+            continue;
+        }
+
+        const [, fn, location] = match;
+        if (location.startsWith('node:') || location.includes('node_modules') || location === 'native') {
+            continue;
+        }
+
+        // Keep the file name only; absolute paths differ between machines and builds
+        const file = location.split(/[\\/]/).pop().replace(/\?.*$/, '');
+        frames.push(`${fn || '<anonymous>'} (${file})`);
+
+        if (frames.length >= MAX_FRAMES) {
+            break;
+        }
+    }
+
+    return frames;
+}
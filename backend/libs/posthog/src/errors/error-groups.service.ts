@@ -0,0 +1,151 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { POSTHOG_MODULE_OPTIONS } from '../posthog.constants';
+import { ResolvedPosthogOptions } from '../posthog.options';
+
+interface ErrorGroup {
+    fingerprint: string;
+    errorName: string;
+    normalizedMessage: string;
+    lastMessage: string;
+    errorType: string;
+    path: string | null;
+    frames: string[];
+    count: number;
+    firstSeen: Date;
+    lastSeen: Date;
+    affectedUsers: Set<string>;
+    statusCodes: Record<string, number>;
+}
+
+export type ErrorGroupSort = 'lastSeen' | 'count' | 'firstSeen';
+
+const MAX_TRACKED_USERS = 1000; // Per group, to bound memory
+
+/**
+ * In-process aggregate of errors by fingerprint (counts, first/last seen, affected users)
+ */
+@Injectable()
+export class ErrorGroupsService {
+    private groups = new Map<string, ErrorGroup>();
+
+    constructor(
+        @Inject(POSTHOG_MODULE_OPTIONS)
+        private readonly options: ResolvedPosthogOptions,
+    ) {}
+
+    /**
+     * Record an occurrence and return the updated group
+     */
+    record(occurrence: {
+        fingerprint: string;
+        errorName: string;
+        errorMessage: string;
+        normalizedMessage: string;
+        errorType: string;
+        path?: string;
+        frames: string[];
+        userId?: string;
+        statusCode?: number;
+    }) {
+        const now = new Date();
+        let group = this.groups.get(occurrence.fingerprint);
+
+        if (!group) {
+            group = {
+                fingerprint: occurrence.fingerprint,
+                errorName: occurrence.errorName,
+                normalizedMessage: occurrence.normalizedMessage,
+                lastMessage: occurrence.errorMessage,
+                errorType: occurrence.errorType,
+                path: occurrence.path || null,
+                frames: occurrence.frames,
+                count: 0,
+                firstSeen: now,
+                lastSeen: now,
+                affectedUsers: new Set(),
+                statusCodes: {},
+            };
+            this.evictIfFull();
+        } else {
+            // Re-insert so Map order stays least-recently-seen first
+            this.groups.delete(occurrence.fingerprint);
+        }
+        this.groups.set(occurrence.fingerprint, group);
+
+        group.count++;
+        group.lastSeen = now;
+        group.lastMessage = occurrence.errorMessage;
+        if (occurrence.userId && occurrence.userId !== 'anonymous' && group.affectedUsers.size < MAX_TRACKED_USERS) {
+            group.affectedUsers.add(occurrence.userId);
+        }
+        if (occurrence.statusCode) {
+            group.statusCodes[occurrence.statusCode] = (group.statusCodes[occurrence.statusCode] || 0) + 1;
+        }
+
+        return this.toSummary(group);
+    }
+
+    /**
+     * List groups, most recently seen first by default
+     */
+    list(limit: number = 50, sort: ErrorGroupSort = 'lastSeen') {
+        const compare: Record<ErrorGroupSort, (a: ErrorGroup, b: ErrorGroup) => number> = {
+            lastSeen: (a, b) => b.lastSeen.getTime() - a.lastSeen.getTime(),
+            firstSeen: (a, b) => b.firstSeen.getTime() - a.firstSeen.getTime(),
+            count: (a, b) => b.count - a.count,
+        };
+
+        return [...this.groups.values()]
+            .sort(compare[sort] || compare.lastSeen)
+            .slice(0, limit)
+            .map(group => this.toSummary(group));
+    }
+
+    /**
+     * Get a single group including the IDs of affected users
+     */
+    get(fingerprint: string) {
+        const group = this.groups.get(fingerprint);
+        if (!group) {
+            return null;
+        }
+
+        return {
+            ...this.toSummary(group),
+            affectedUserIds: [...group.affectedUsers],
+        };
+    }
+
+    get size() {
+        return this.groups.size;
+    }
+
+    clear() {
+        this.groups.clear();
+    }
+
+    private evictIfFull() {
+        while (this.groups.size >= this.options.maxErrorGroups) {
+            // Map iteration order is insertion order: the first key is the least recently seen group
+            const oldest = this.groups.keys().next().value;
+            this.groups.delete(oldest);
+        }
+    }
+
+    private toSummary(group: ErrorGroup) {
+        return {
+            fingerprint: group.fingerprint,
+            errorName: group.errorName,
+            normalizedMessage: group.normalizedMessage,
+            lastMessage: group.lastMessage,
+            errorType: group.errorType,
+            path: group.path,
+            frames: group.frames,
+            count: group.count,
+            firstSeen: group.firstSeen,
+            lastSeen: group.lastSeen,
+            affectedUsers: group.affectedUsers.size,
+            statusCodes: group.statusCodes,
+        };
+    }
+}
@@ -0,0 +1,58 @@
+import { CanActivate, ExecutionContext, HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { POSTHOG_MODULE_OPTIONS } from '../posthog.constants';
+import { ResolvedPosthogOptions } from '../posthog.options';
+
+interface RateWindow {
+    count: number;
+    resetAt: number;
+}
+
+/**
+ * Fixed-window rate limit for error reports, per authenticated user (`req.user` set by a preceding
+ * `OptionalJwtAuthGuard`) or, for anonymous reports, per client IP.
+ * Keeps a broken page in a render loop from flooding PostHog.
+ */
+@Injectable()
+export class ErrorRateLimitGuard implements CanActivate {
+    private windows = new Map<string, RateWindow>();
+
+    constructor(
+        @Inject(POSTHOG_MODULE_OPTIONS)
+        private readonly options: ResolvedPosthogOptions,
+    ) {}
+
+    canActivate(context: ExecutionContext): boolean {
+        const request = context.switchToHttp().getRequest<Request>();
+        const response = context.switchToHttp().getResponse<Response>();
+        const { maxRequests, windowMs } = this.options.errorIngestion;
+
+        const userId = (request as any).user?.id;
+        const key = userId ? `user:${userId}` : `ip:${request.ip}`;
+        const now = Date.now();
+
+        this.removeExpired(now);
+
+        let window = this.windows.get(key);
+        if (!window) {
+            window = { count: 0, resetAt: now + windowMs };
+            this.windows.set(key, window);
+        }
+
+        window.count++;
+        if (window.count > maxRequests) {
+            response.setHeader('Retry-After', Math.ceil((window.resetAt - now) / 1000).toString());
+            throw new HttpException('Too many error reports, try again later', HttpStatus.TOO_MANY_REQUESTS);
+        }
+
+        return true;
+    }
+
+    private removeExpired(now: number) {
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) {
+                this.windows.delete(key);
+            }
+        }
+    }
+}
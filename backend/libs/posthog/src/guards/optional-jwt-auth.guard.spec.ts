@@ -0,0 +1,20 @@
+import { Logger } from '@nestjs/common';
+import { OptionalJwtAuthGuard } from './optional-jwt-auth.guard';
+
+describe('OptionalJwtAuthGuard', () => {
+    const guard = new OptionalJwtAuthGuard();
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+    });
+
+    it('passes the authenticated user through', () => {
+        const user = { id: 7 };
+        expect(guard.handleRequest(null, user)).toBe(user);
+    });
+
+    it('leaves the request anonymous when the token is missing or invalid', () => {
+        expect(guard.handleRequest(null, false)).toBeNull();
+        expect(guard.handleRequest(new Error('jwt expired'), false)).toBeNull();
+    });
+});
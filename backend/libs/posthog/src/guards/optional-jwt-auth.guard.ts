@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * JWT guard that never rejects: a valid bearer token sets `req.user`,
+ * a missing or invalid one leaves the request anonymous.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+    handleRequest<TUser = any>(error: any, user: any): TUser {
+        return (error || !user ? null : user) as TUser;
+    }
+}
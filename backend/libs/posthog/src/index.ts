@@ -1,7 +1,30 @@
 export * from './posthog.module';
+export * from './posthog.constants';
+export * from './posthog.options';
 export * from './posthog.service';
 export * from './posthog.interceptor';
 export * from './posthog.controller';
 export * from './dto/tracked-event.dto';
 export * from './dto/events-response.dto';
+export * from './dto/frontend-error.dto';
+export * from './dto/error-group.dto';
 
+export * from './entities/api-write-request.entity';
+export * from './stores/previous-call.store';
+export * from './stores/typeorm-previous-call.store';
+export * from './stores/in-memory-previous-call.store';
+export * from './outbox/event-outbox';
+export * from './decorators/track-event.decorator';
+export * from './decorators/skip-tracking.decorator';
+export * from './decorators/track-diff.decorator';
+export * from './redaction/redactor';
+export * from './utils/truncate-payload';
+export * from './guards/error-rate-limit.guard';
+export * from './guards/optional-jwt-auth.guard';
+export * from './errors/error-fingerprint';
+export * from './errors/error-groups.service';
+export * from './alerting/alerting.service';
+export * from './alerting/notifiers/alert-notifier';
+export * from './alerting/notifiers/webhook.notifier';
+export * from './alerting/notifiers/discord.notifier';
+export * from './alerting/notifiers/smtp.notifier';
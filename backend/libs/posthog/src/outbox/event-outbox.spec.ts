@@ -0,0 +1,105 @@
+import { Logger } from '@nestjs/common';
+import { writeFile } from 'fs/promises';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventOutbox, OutboxEvent, OutboxPermanentError } from './event-outbox';
+
+jest.mock('fs/promises', () => {
+    const actual = jest.requireActual('fs/promises');
+    return { ...actual, writeFile: jest.fn(actual.writeFile) };
+});
+
+const event = (name: string): OutboxEvent => ({
+    uuid: `uuid-${name}`,
+    distinctId: '1',
+    event: name,
+    properties: {},
+    timestamp: new Date().toISOString(),
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('EventOutbox', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+        dir = mkdtempSync(join(tmpdir(), 'event-outbox-'));
+        filePath = join(dir, 'outbox.json');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes a burst of events to the file once', async () => {
+        jest.mocked(writeFile).mockClear();
+        const outbox = new EventOutbox({ filePath, baseRetryDelayMs: 60000, persistDelayMs: 20 }, async () => {
+            throw new Error('PostHog is down');
+        });
+
+        for (let i = 0; i < 50; i++) {
+            outbox.enqueue(event(`event-${i}`));
+        }
+        await sleep(100);
+        expect(writeFile).toHaveBeenCalledTimes(1);
+
+        // Waits for the write to finish
+        await outbox.stop();
+        expect(JSON.parse(readFileSync(filePath, 'utf8'))).toHaveLength(50);
+    });
+
+    it('keeps undelivered events across restarts', async () => {
+        const failing = async () => {
+            throw new Error('PostHog is down');
+        };
+        const outbox = new EventOutbox({ filePath, baseRetryDelayMs: 60000 }, failing);
+        outbox.enqueue(event('first'));
+        outbox.enqueue(event('second'));
+        await outbox.stop();
+
+        const delivered: OutboxEvent[] = [];
+        const restarted = new EventOutbox({ filePath }, async events => {
+            delivered.push(...events);
+        });
+        restarted.start();
+        await restarted.flush();
+
+        expect(delivered.map(e => e.event)).toEqual(['first', 'second']);
+        expect(restarted.getStatus().queueDepth).toBe(0);
+    });
+
+    it('drops only the events PostHog rejects', async () => {
+        const delivered: OutboxEvent[] = [];
+        const outbox = new EventOutbox({ filePath }, async events => {
+            if (events.some(e => e.event.startsWith('bad'))) {
+                throw new OutboxPermanentError('400 Bad Request');
+            }
+            delivered.push(...events);
+        });
+
+        ['a', 'bad-1', 'b', 'c', 'd', 'bad-2', 'e'].forEach(name => outbox.enqueue(event(name)));
+        await outbox.flush();
+
+        expect(delivered.map(e => e.event).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+        expect(outbox.getStatus().queueDepth).toBe(0);
+    });
+
+    it('keeps events for a retry after a transient failure', async () => {
+        let calls = 0;
+        const outbox = new EventOutbox({ filePath, baseRetryDelayMs: 60000 }, async () => {
+            calls++;
+            throw new Error('503 Service Unavailable');
+        });
+
+        outbox.enqueue(event('a'));
+        await outbox.flush();
+
+        expect(calls).toBeGreaterThan(0);
+        expect(outbox.getStatus().queueDepth).toBe(1);
+        expect(outbox.getStatus().consecutiveFailures).toBeGreaterThan(0);
+        await outbox.stop();
+    });
+});
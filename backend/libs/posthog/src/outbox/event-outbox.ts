@@ -0,0 +1,286 @@
+import { Logger } from '@nestjs/common';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * An event waiting to be delivered to PostHog
+ */
+export interface OutboxEvent {
+    uuid: string;
+    distinctId: string;
+    event: string;
+    properties: Record<string, any>;
+    timestamp: string;
+}
+
+export interface OutboxStatus {
+    queueDepth: number;
+    consecutiveFailures: number;
+    lastFailureAt: string | null;
+    lastFailureMessage: string | null;
+    lastSuccessAt: string | null;
+    nextAttemptAt: string | null;
+}
+
+export interface EventOutboxOptions {
+    filePath: string;
+    batchSize?: number;
+    maxQueueSize?: number;
+    baseRetryDelayMs?: number;
+    maxRetryDelayMs?: number;
+    persistDelayMs?: number;
+}
+
+/**
+ * Thrown by the sender when PostHog rejects the payload itself (400 Bad Request, 413 Payload Too Large).
+ * The batch is split to find the rejected events, which are dropped instead of being retried.
+ * Errors that do not depend on the events, such as a wrong API key or host, must not use it.
+ */
+export class OutboxPermanentError extends Error {}
+
+/**
+ * Durable queue of PostHog events.
+ * Events are persisted to a JSON file and removed only after the sender succeeds, so they survive PostHog outages
+ * and process restarts. Changes are written at most once per `persistDelayMs`, not once per event.
+ * Failed deliveries are retried with exponential backoff.
+ */
+export class EventOutbox {
+    private readonly logger = new Logger(EventOutbox.name);
+    private queue: OutboxEvent[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private delivering: Promise<void> | null = null;
+    private persisting: Promise<void> = Promise.resolve();
+    private persistTimer: NodeJS.Timeout | null = null;
+
+    private consecutiveFailures = 0;
+    private lastFailureAt: Date | null = null;
+    private lastFailureMessage: string | null = null;
+    private lastSuccessAt: Date | null = null;
+    private nextAttemptAt: Date | null = null;
+
+    private readonly batchSize: number;
+    private readonly maxQueueSize: number;
+    private readonly baseRetryDelayMs: number;
+    private readonly maxRetryDelayMs: number;
+    private readonly persistDelayMs: number;
+
+    constructor(
+        private readonly options: EventOutboxOptions,
+        private readonly sender: (events: OutboxEvent[]) => Promise<void>,
+    ) {
+        this.batchSize = options.batchSize || 100;
+        this.maxQueueSize = options.maxQueueSize || 10000;
+        this.baseRetryDelayMs = options.baseRetryDelayMs || 1000;
+        this.maxRetryDelayMs = options.maxRetryDelayMs || 5 * 60 * 1000;
+        this.persistDelayMs = options.persistDelayMs || 100;
+    }
+
+    /**
+     * Load events left over from a previous run and start delivering them
+     */
+    start() {
+        this.queue = this.load();
+        if (this.queue.length > 0) {
+            this.logger.log(`📦 Restored ${this.queue.length} undelivered PostHog events from ${this.options.filePath}`);
+            this.schedule(0);
+        }
+    }
+
+    /**
+     * Stop the retry timer, try one last delivery and write what is left
+     */
+    async stop() {
+        this.clearTimer();
+        await this.flush();
+        this.write();
+        await this.persisting;
+    }
+
+    /**
+     * Queue an event for delivery
+     */
+    enqueue(event: OutboxEvent) {
+        this.queue.push(event);
+
+        // Drop oldest events if PostHog has been unreachable for a long time
+        if (this.queue.length > this.maxQueueSize) {
+            const dropped = this.queue.length - this.maxQueueSize;
+            this.queue = this.queue.slice(dropped);
+            this.logger.warn(`⚠️ PostHog outbox full - dropped ${dropped} oldest events`);
+        }
+
+        this.persist();
+
+        // While backing off, the pending timer will pick the event up
+        if (!this.nextAttemptAt) {
+            this.schedule(0);
+        }
+    }
+
+    /**
+     * Deliver queued events now, ignoring any backoff delay
+     */
+    async flush() {
+        this.clearTimer();
+        this.nextAttemptAt = null;
+        await this.deliver();
+    }
+
+    getStatus(): OutboxStatus {
+        return {
+            queueDepth: this.queue.length,
+            consecutiveFailures: this.consecutiveFailures,
+            lastFailureAt: this.lastFailureAt?.toISOString() || null,
+            lastFailureMessage: this.lastFailureMessage,
+            lastSuccessAt: this.lastSuccessAt?.toISOString() || null,
+            nextAttemptAt: this.nextAttemptAt?.toISOString() || null,
+        };
+    }
+
+    private deliver(): Promise<void> {
+        // Only one delivery loop at a time
+        if (!this.delivering) {
+            this.delivering = this.deliverAll().finally(() => {
+                this.delivering = null;
+            });
+        }
+        return this.delivering;
+    }
+
+    private async deliverAll() {
+        while (this.queue.length > 0) {
+            const batch = this.queue.slice(0, this.batchSize);
+
+            try {
+                await this.send(batch);
+            } catch (error) {
+                this.consecutiveFailures++;
+                this.lastFailureAt = new Date();
+                this.lastFailureMessage = error.message;
+
+                const delay = this.getRetryDelay();
+                this.nextAttemptAt = new Date(Date.now() + delay);
+                this.logger.warn(`⚠️ Failed to deliver ${batch.length} PostHog events (${this.queue.length} queued), retrying in ${Math.round(delay / 1000)}s: ${error.message}`);
+                this.persist();
+                this.schedule(delay);
+                return;
+            }
+
+            this.consecutiveFailures = 0;
+            this.lastSuccessAt = new Date();
+            this.nextAttemptAt = null;
+        }
+    }
+
+    /**
+     * Send a batch and remove it from the queue. When PostHog rejects a batch permanently, its halves are sent
+     * separately until the rejected events are isolated; those are dropped so the rest is still delivered.
+     * Transient errors are rethrown, with the parts delivered so far already removed.
+     */
+    private async send(batch: OutboxEvent[]): Promise<void> {
+        try {
+            await this.sender(batch);
+        } catch (error) {
+            if (!(error instanceof OutboxPermanentError)) {
+                throw error;
+            }
+
+            if (batch.length === 1) {
+                this.logger.error(`❌ PostHog rejected event ${batch[0].event} (${batch[0].uuid}), dropping it: ${error.message}`);
+                this.remove(batch);
+                return;
+            }
+
+            const middle = Math.ceil(batch.length / 2);
+            await this.send(batch.slice(0, middle));
+            await this.send(batch.slice(middle));
+            return;
+        }
+
+        this.remove(batch);
+    }
+
+    private remove(batch: OutboxEvent[]) {
+        const delivered = new Set(batch.map(entry => entry.uuid));
+        this.queue = this.queue.filter(entry => !delivered.has(entry.uuid));
+        this.persist();
+    }
+
+    /**
+     * Exponential backoff with jitter, capped at maxRetryDelayMs
+     */
+    private getRetryDelay(): number {
+        const exponential = this.baseRetryDelayMs * Math.pow(2, this.consecutiveFailures - 1);
+        const capped = Math.min(exponential, this.maxRetryDelayMs);
+        return Math.round(capped / 2 + Math.random() * (capped / 2));
+    }
+
+    private schedule(delayMs: number) {
+        this.clearTimer();
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.deliver();
+        }, delayMs);
+        // Don't keep the process alive just for retries
+        this.timer.unref();
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private load(): OutboxEvent[] {
+        try {
+            if (!existsSync(this.options.filePath)) {
+                return [];
+            }
+            const entries = JSON.parse(readFileSync(this.options.filePath, 'utf8'));
+            return Array.isArray(entries) ? entries : [];
+        } catch (error) {
+            this.logger.error(`❌ Could not read PostHog outbox ${this.options.filePath}: ${error.message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Schedule a write of the queue, so that a burst of events costs one write instead of one per event
+     */
+    private persist() {
+        if (this.persistTimer) {
+            return;
+        }
+
+        this.persistTimer = setTimeout(() => this.write(), this.persistDelayMs);
+        this.persistTimer.unref();
+    }
+
+    /**
+     * Write the queue to disk now. Writes are serialized and go through a temp file + rename
+     * so a crash mid-write never leaves a corrupt outbox.
+     */
+    private write() {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = null;
+        }
+
+        const filePath = this.options.filePath;
+        const tempPath = `${filePath}.tmp`;
+
+        this.persisting = this.persisting
+            .then(async () => {
+                // Taken when the write starts, so it includes changes made while earlier writes were running
+                const snapshot = JSON.stringify(this.queue);
+                await mkdir(dirname(filePath), { recursive: true });
+                await writeFile(tempPath, snapshot, 'utf8');
+                await rename(tempPath, filePath);
+            })
+            .catch(error => {
+                this.logger.error(`❌ Could not write PostHog outbox ${filePath}: ${error.message}`);
+            });
+    }
+}
@@ -0,0 +1,7 @@
+export const POSTHOG_MODULE_OPTIONS = 'POSTHOG_MODULE_OPTIONS';
+
+export const PLACEHOLDER_API_KEY = 'phc_your_api_key_here';
+
+export const TRACK_EVENT_METADATA = 'posthog:track_event';
+export const SKIP_TRACKING_METADATA = 'posthog:skip_tracking';
+export const TRACK_DIFF_METADATA = 'posthog:track_diff';
@@ -0,0 +1,29 @@
+import { PosthogController } from './posthog.controller';
+import { PosthogService } from './posthog.service';
+import { ErrorGroupsService } from './errors/error-groups.service';
+
+describe('PosthogController.reportError', () => {
+    let trackError: jest.Mock;
+    let controller: PosthogController;
+
+    const report = { name: 'TypeError', message: 'boom', url: 'http://localhost:3000/items', distinctId: '1' };
+
+    beforeEach(() => {
+        trackError = jest.fn();
+        controller = new PosthogController({ trackError } as unknown as PosthogService, {} as ErrorGroupsService);
+    });
+
+    it('attributes the error to the authenticated user', () => {
+        controller.reportError(report as any, { user: { id: 7 }, headers: {} });
+
+        expect(trackError.mock.calls[0][0].userId).toBe('7');
+    });
+
+    it('never uses the client-supplied distinctId as the user id', () => {
+        controller.reportError(report as any, { headers: {} });
+
+        const details = trackError.mock.calls[0][0];
+        expect(details.userId).toBe('anonymous');
+        expect(details.context.clientDistinctId).toBe('1');
+    });
+});
@@ -1,12 +1,24 @@
-import { Controller, Get, Query, Delete } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { Controller, Get, Query, Delete, Post, Body, HttpCode, HttpStatus, UseGuards, Request, Param, NotFoundException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBody, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard, Permissions, TwoFactorGuard, RequireTwoFactor } from '@common/common';
 import { PosthogService } from './posthog.service';
+import { SkipTracking } from './decorators/skip-tracking.decorator';
 import { EventsResponseDto } from './dto/events-response.dto';
+import { FrontendErrorDto } from './dto/frontend-error.dto';
+import { ErrorRateLimitGuard } from './guards/error-rate-limit.guard';
+import { OptionalJwtAuthGuard } from './guards/optional-jwt-auth.guard';
+import { ErrorGroupsService, ErrorGroupSort } from './errors/error-groups.service';
+import { ErrorGroupDetailDto, ErrorGroupDto } from './dto/error-group.dto';
 
 @ApiTags('posthog')
+@SkipTracking()
 @Controller('posthog')
 export class PosthogController {
-  constructor(private readonly posthogService: PosthogService) {}
+  constructor(
+    private readonly posthogService: PosthogService,
+    private readonly errorGroupsService: ErrorGroupsService,
+  ) {}
 
   @Get('info')
   @ApiOperation({
@@ -28,18 +40,24 @@ export class PosthogController {
           items: {
             type: 'string',
           },
-          example: [
-            'item_created',
-            'item_searched',
-            'api_item_create_called',
-            'api_item_search_called',
-            'api_items_list_called',
-          ],
+          example: ['api_write_request', 'item_created', 'item_updated', 'item_deleted', 'error_occurred'],
         },
         description: {
           type: 'string',
           example: 'PostHog is integrated to track all API calls and database operations',
         },
+        outbox: {
+          type: 'object',
+          description: 'Delivery queue for events that have not reached PostHog yet',
+          properties: {
+            queueDepth: { type: 'number', example: 0 },
+            consecutiveFailures: { type: 'number', example: 0 },
+            lastFailureAt: { type: 'string', nullable: true, example: null },
+            lastFailureMessage: { type: 'string', nullable: true, example: null },
+            lastSuccessAt: { type: 'string', nullable: true, example: '2024-01-15T10:30:00.000Z' },
+            nextAttemptAt: { type: 'string', nullable: true, example: null },
+          },
+        },
       },
     },
   })
@@ -47,17 +65,13 @@ export class PosthogController {
     const status = this.posthogService.getStatus();
     
     return {
-      status: status.configured ? 'active' : 'not_configured',
+      status: !status.enabled ? 'disabled' : status.configured ? 'active' : 'not_configured',
+      enabled: status.enabled,
       configured: status.configured,
       host: status.host,
       eventLogSize: status.eventLogSize,
-      trackedEvents: [
-        'item_created',
-        'item_searched',
-        'api_item_create_called',
-        'api_item_search_called',
-        'api_items_list_called',
-      ],
+      outbox: status.outbox,
+      trackedEvents: ['api_write_request', 'item_created', 'item_updated', 'item_deleted', 'error_occurred'],
       description: status.configured 
         ? 'PostHog is integrated to track all API calls and database operations. All events are automatically tracked when endpoints are called.'
         : 'PostHog API key is not configured. Set POSTHOG_API_KEY in your .env file. Get your key from https://app.posthog.com/project/settings',
@@ -98,7 +112,140 @@ export class PosthogController {
     };
   }
 
+  @Post('errors')
+  @UseGuards(OptionalJwtAuthGuard, ErrorRateLimitGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Report a frontend error',
+    description: 'Accepts an error caught in the browser, redacts it and forwards it to PostHog as an error_occurred event linked to the session replay. A bearer token is optional; with one the error is attributed to that user and rate limited per user, without one it is anonymous and rate limited per IP.',
+  })
+  @ApiBody({
+    type: FrontendErrorDto,
+    description: 'Error details',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Error accepted',
+    schema: {
+      type: 'object',
+      properties: {
+        accepted: { type: 'boolean', example: true },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation failed',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many error reports from this client',
+  })
+  reportError(@Body() errorDto: FrontendErrorDto, @Request() req) {
+    // The client-supplied distinctId is unverified, so it is kept as context and never used as the user id
+    const userId = req.user?.id?.toString() || 'anonymous';
+
+    this.posthogService.trackError({
+      errorName: errorDto.name,
+      errorMessage: errorDto.message,
+      errorStack: errorDto.stack,
+      userId,
+      sessionId: errorDto.sessionId,
+      errorType: 'frontend_error',
+      context: {
+        url: errorDto.url,
+        breadcrumbs: errorDto.breadcrumbs,
+        clientDistinctId: errorDto.distinctId,
+        userAgent: req.headers['user-agent'],
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return { accepted: true };
+  }
+
+  @Get('errors/groups')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Permissions('analytics:manage')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List error groups',
+    description: 'Returns errors seen by this server instance grouped by fingerprint (exception class, normalized message, top stack frames and route).',
+  })
+  @ApiQuery({
+    name: 'limit',
+    description: 'Maximum number of groups to return (default: 50, max: 500)',
+    required: false,
+    type: Number,
+    example: 50,
+  })
+  @ApiQuery({
+    name: 'sort',
+    description: 'Sort order',
+    required: false,
+    enum: ['lastSeen', 'count', 'firstSeen'],
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Error groups',
+    type: [ErrorGroupDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Requires the analytics:manage permission',
+  })
+  getErrorGroups(@Query('limit') limit?: string, @Query('sort') sort?: ErrorGroupSort) {
+    const limitNum = limit ? Math.min(parseInt(limit, 10) || 50, 500) : 50;
+    return this.errorGroupsService.list(limitNum, sort);
+  }
+
+  @Get('errors/groups/:fingerprint')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Permissions('analytics:manage')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get an error group',
+    description: 'Returns a single error group including the IDs of affected users.',
+  })
+  @ApiParam({
+    name: 'fingerprint',
+    description: 'Error group fingerprint',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Error group',
+    type: ErrorGroupDetailDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Error group not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Requires the analytics:manage permission',
+  })
+  getErrorGroup(@Param('fingerprint') fingerprint: string) {
+    const group = this.errorGroupsService.get(fingerprint);
+    if (!group) {
+      throw new NotFoundException(`Error group ${fingerprint} not found`);
+    }
+    return group;
+  }
+
   @Delete('events')
+  @UseGuards(AuthGuard('jwt'), RolesGuard, TwoFactorGuard)
+  @Permissions('analytics:manage')
+  @RequireTwoFactor()
+  @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Clear PostHog event log',
     description: 'Clears the local event log. This does not affect events already sent to PostHog Cloud.',
@@ -120,6 +267,14 @@ export class PosthogController {
       },
     },
   })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Requires the analytics:manage permission and a login with two-factor authentication',
+  })
   clearEvents() {
     this.posthogService.clearEventLog();
     return {
@@ -0,0 +1,81 @@
+import { CallHandler, ExecutionContext, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { PosthogInterceptor } from './posthog.interceptor';
+import { PosthogService } from './posthog.service';
+import { AlertingService } from './alerting/alerting.service';
+import { Redactor } from './redaction/redactor';
+import { resolvePosthogOptions } from './posthog.options';
+
+describe('PosthogInterceptor', () => {
+    const options = resolvePosthogOptions({ apiKey: 'phc_test' });
+    let posthogService: { trackWriteRequestWithComparison: jest.Mock; trackApiRequest: jest.Mock; trackError: jest.Mock };
+    let interceptor: PosthogInterceptor;
+    let loggedErrors: jest.SpyInstance;
+
+    const context = (method: string) =>
+        ({
+            switchToHttp: () => ({
+                getRequest: () => ({ method, url: '/items', path: '/items', route: { path: '/items' }, query: {}, body: { name: 'item' }, headers: {}, params: {} }),
+                getResponse: () => ({ statusCode: 201 }),
+            }),
+            getHandler: () => () => undefined,
+            getClass: () => class {},
+        }) as unknown as ExecutionContext;
+
+    const handler = (result: any): CallHandler => ({ handle: () => result });
+
+    // Lets the detached tracking promise settle
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+        loggedErrors = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+        posthogService = {
+            trackWriteRequestWithComparison: jest.fn().mockResolvedValue(undefined),
+            trackApiRequest: jest.fn().mockResolvedValue(undefined),
+            trackError: jest.fn(),
+        };
+        const alerting = { recordRequest: jest.fn() } as unknown as AlertingService;
+        interceptor = new PosthogInterceptor(posthogService as unknown as PosthogService, options, new Reflector(), new Redactor(options.redaction), alerting);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('tracks write requests with a diff', async () => {
+        await expect(lastValueFrom(interceptor.intercept(context('POST'), handler(of({ id: 1 }))))).resolves.toEqual({ id: 1 });
+        await settle();
+
+        expect(posthogService.trackWriteRequestWithComparison).toHaveBeenCalledWith(expect.objectContaining({ method: 'POST', path: '/items', responseBody: { id: 1 } }));
+    });
+
+    it('logs tracking failures instead of leaving the promise rejection unhandled', async () => {
+        const unhandled = jest.fn();
+        process.on('unhandledRejection', unhandled);
+        posthogService.trackWriteRequestWithComparison.mockRejectedValue(new Error('store unavailable'));
+
+        try {
+            await expect(lastValueFrom(interceptor.intercept(context('POST'), handler(of({ id: 1 }))))).resolves.toEqual({ id: 1 });
+            await settle();
+        } finally {
+            process.off('unhandledRejection', unhandled);
+        }
+
+        expect(unhandled).not.toHaveBeenCalled();
+        expect(loggedErrors).toHaveBeenCalledWith(expect.stringContaining('store unavailable'));
+    });
+
+    it('passes the original error on when tracking it fails', async () => {
+        const error = new Error('handler failed');
+        posthogService.trackError.mockImplementation(() => {
+            throw new Error('tracking failed');
+        });
+
+        await expect(lastValueFrom(interceptor.intercept(context('POST'), handler(throwError(() => error))))).rejects.toBe(error);
+        await settle();
+
+        expect(loggedErrors).toHaveBeenCalledWith(expect.stringContaining('tracking failed'));
+    });
+});
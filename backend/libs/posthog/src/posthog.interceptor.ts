@@ -1,12 +1,27 @@
-import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, Inject, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { PosthogService } from './posthog.service';
 import { Request, Response } from 'express';
+import { POSTHOG_MODULE_OPTIONS, SKIP_TRACKING_METADATA, TRACK_DIFF_METADATA, TRACK_EVENT_METADATA } from './posthog.constants';
+import { ResolvedPosthogOptions } from './posthog.options';
+import { TrackEventMetadata } from './decorators/track-event.decorator';
+import { Redactor } from './redaction/redactor';
+import { AlertingService } from './alerting/alerting.service';
 
 @Injectable()
 export class PosthogInterceptor implements NestInterceptor {
-    constructor(private readonly posthogService: PosthogService) {}
+    private readonly logger = new Logger(PosthogInterceptor.name);
+
+    constructor(
+        private readonly posthogService: PosthogService,
+        @Inject(POSTHOG_MODULE_OPTIONS)
+        private readonly options: ResolvedPosthogOptions,
+        private readonly reflector: Reflector,
+        private readonly redactor: Redactor,
+        private readonly alerting: AlertingService,
+    ) {}
 
     intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
         const request = context.switchToHttp().getRequest<Request>();
@@ -16,120 +31,116 @@ export class PosthogInterceptor implements NestInterceptor {
         const method = request.method;
         const url = request.url;
         const path = request.route?.path || request.path;
-        const query = request.query;
-        const body = this.sanitizeBody(request.body);
-        const headers = this.sanitizeHeaders(request.headers);
+        // Redact once here; PosthogService applies size limits
+        const query = this.redactor.redact(request.query);
+        const body = request.body ? this.redactor.redact(request.body) : null;
+        const headers = this.redactor.redactHeaders(request.headers);
         // Get session ID from frontend (if provided in headers)
         const sessionId = (request.headers['x-session-id'] as string) || undefined;
-        // Only track POST, PUT, PATCH requests
-        const shouldTrack = ['POST', 'PUT', 'PATCH'].includes(method);
+        const params = request.params;
+
+        // Per-route settings from @TrackEvent, @TrackDiff and @SkipTracking (handler overrides controller)
+        const targets = [context.getHandler(), context.getClass()];
+        const trackEvent = this.reflector.getAllAndOverride<TrackEventMetadata>(TRACK_EVENT_METADATA, targets);
+        const trackDiff = this.reflector.getAllAndOverride<boolean>(TRACK_DIFF_METADATA, targets);
+        const skipTracking = this.reflector.getAllAndOverride<boolean>(SKIP_TRACKING_METADATA, targets);
+
+        // Decorated routes are always tracked; others only for configured methods (POST, PUT, PATCH by default)
+        const isTrackedMethod = this.options.trackedMethods.includes(method);
+        const shouldTrack = !skipTracking && (!!trackEvent || !!trackDiff || isTrackedMethod);
+        const shouldDiff = !!trackDiff || (!trackEvent && isTrackedMethod);
         const currentUserId = (request as any).user?.id?.toString() || 'anonymous';
 
         return next.handle().pipe(
             tap({
-                next: async responseData => {
-                    // Only track POST, PUT, PATCH requests
-                    if (shouldTrack) {
-                        const duration = Date.now() - startTime;
-                        const statusCode = response.statusCode || 200;
+                next: responseData => {
+                    this.alerting.recordRequest(method, path, response.statusCode || 200);
+
+                    if (!shouldTrack) {
+                        return;
+                    }
 
-                        await this.posthogService.trackWriteRequestWithComparison({
+                    this.runInBackground(async () => {
+                        const details = {
                             method,
                             path,
                             url,
-                            requestBody: body,
-                            responseBody: this.sanitizeResponse(responseData),
-                            statusCode,
+                            requestBody: this.pickFields(body, trackEvent?.requestFields),
+                            responseBody: this.redactor.redact(this.pickFields(responseData, trackEvent?.responseFields)),
+                            statusCode: response.statusCode || 200,
                             userId: currentUserId,
-                            duration,
+                            duration: Date.now() - startTime,
                             sessionId,
-                        });
-                    }
-                    // GET, DELETE, HEAD, OPTIONS, etc. are not tracked
+                            eventName: trackEvent?.eventName,
+                            properties: {
+                                ...trackEvent?.properties,
+                                ...(params && Object.keys(params).length > 0 ? { route_params: this.redactor.redact(params) } : {}),
+                            },
+                        };
+
+                        if (shouldDiff) {
+                            await this.posthogService.trackWriteRequestWithComparison(details);
+                        } else {
+                            await this.posthogService.trackApiRequest({ ...details, query });
+                        }
+                    });
                 },
                 error: error => {
                     const duration = Date.now() - startTime;
                     const statusCode = error.status || 500;
+                    this.alerting.recordRequest(method, path, statusCode);
                     // Get user ID from authenticated user (JWT) or anonymous
                     const currentUserId = (request as any).user?.id?.toString() || 'anonymous';
 
                     // ONLY track errors - this is the unified error handler for backend
-                    this.posthogService.trackError({
-                        errorName: error.constructor?.name || 'Error',
-                        errorMessage: error.message,
-                        errorStack: error.stack?.substring(0, 1000), // Limit stack trace
-                        userId: currentUserId,
-                        sessionId, // Include session ID for linking with frontend replay
-                        context: {
-                            method,
-                            url,
-                            path,
-                            query,
-                            requestBody: body,
-                            requestHeaders: headers,
-                            statusCode,
-                            duration,
-                            timestamp: new Date().toISOString(),
-                        },
-                    });
+                    this.runInBackground(async () =>
+                        this.posthogService.trackError({
+                            errorName: error.constructor?.name || 'Error',
+                            errorMessage: error.message,
+                            errorStack: error.stack?.substring(0, 1000), // Limit stack trace
+                            userId: currentUserId,
+                            sessionId, // Include session ID for linking with frontend replay
+                            context: {
+                                method,
+                                url,
+                                path,
+                                query,
+                                requestBody: body,
+                                requestHeaders: headers,
+                                statusCode,
+                                duration,
+                                timestamp: new Date().toISOString(),
+                            },
+                        }),
+                    );
                 },
             }),
         );
     }
 
-    private sanitizeBody(body: any): any {
-        if (!body) return null;
-
-        // Remove sensitive fields
-        const sensitiveFields = ['password', 'token', 'secret', 'apiKey', 'apikey'];
-        const sanitized = { ...body };
-
-        for (const field of sensitiveFields) {
-            if (sanitized[field]) {
-                sanitized[field] = '[REDACTED]';
-            }
-        }
-
-        // Limit size
-        const bodyStr = JSON.stringify(sanitized);
-        if (bodyStr.length > 1000) {
-            return JSON.parse(bodyStr.substring(0, 1000) + '...');
-        }
-
-        return sanitized;
+    /**
+     * RxJS does not wait for promises returned from tap, so tracking runs detached from the response.
+     * Its failures are logged here instead of failing the request or becoming unhandled rejections.
+     */
+    private runInBackground(work: () => Promise<void>) {
+        work().catch(error => this.logger.error(`❌ Failed to track request: ${error.message}`));
     }
 
-    private sanitizeHeaders(headers: any): any {
-        if (!headers) return null;
-
-        // Remove sensitive headers
-        const sensitiveHeaders = ['authorization', 'cookie', 'x-api-key'];
-        const sanitized: any = {};
-
-        for (const [key, value] of Object.entries(headers)) {
-            if (sensitiveHeaders.includes(key.toLowerCase())) {
-                sanitized[key] = '[REDACTED]';
-            } else {
-                sanitized[key] = value;
-            }
+    /**
+     * Keep only the listed top-level fields (all fields when no list is given)
+     */
+    private pickFields(data: any, fields?: string[]): any {
+        if (!fields || !data || typeof data !== 'object' || Array.isArray(data)) {
+            return data;
         }
 
-        return sanitized;
-    }
-
-    private sanitizeResponse(data: any): any {
-        if (!data) return null;
-
-        // Limit response size
-        const dataStr = JSON.stringify(data);
-        if (dataStr.length > 2000) {
-            return {
-                _truncated: true,
-                _size: dataStr.length,
-                preview: JSON.parse(dataStr.substring(0, 2000) + '...'),
-            };
+        const picked: Record<string, any> = {};
+        for (const field of fields) {
+            if (data[field] !== undefined) {
+                picked[field] = data[field];
+            }
         }
 
-        return data;
+        return picked;
     }
 }
@@ -1,13 +1,69 @@
-import { Module, Global } from '@nestjs/common';
+import { Module, DynamicModule, Provider } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { PosthogService } from './posthog.service';
 import { PosthogController } from './posthog.controller';
 import { PosthogInterceptor } from './posthog.interceptor';
+import { ApiWriteRequest } from './entities/api-write-request.entity';
+import { PreviousCallStore } from './stores/previous-call.store';
+import { TypeOrmPreviousCallStore } from './stores/typeorm-previous-call.store';
+import { InMemoryPreviousCallStore } from './stores/in-memory-previous-call.store';
+import { POSTHOG_MODULE_OPTIONS } from './posthog.constants';
+import { PosthogModuleAsyncOptions, PosthogModuleOptions, ResolvedPosthogOptions, resolvePosthogOptions } from './posthog.options';
+import { Redactor } from './redaction/redactor';
+import { ErrorRateLimitGuard } from './guards/error-rate-limit.guard';
+import { ErrorGroupsService } from './errors/error-groups.service';
+import { AlertingService } from './alerting/alerting.service';
 
-@Global()
-@Module({
-  controllers: [PosthogController],
-  providers: [PosthogService, PosthogInterceptor],
-  exports: [PosthogService, PosthogInterceptor],
-})
-export class PosthogModule {}
+@Module({})
+export class PosthogModule {
+  static forRoot(options: PosthogModuleOptions = {}): DynamicModule {
+    return this.createModule(options, [], {
+      provide: POSTHOG_MODULE_OPTIONS,
+      useValue: resolvePosthogOptions(options),
+    });
+  }
 
+  static forRootAsync(options: PosthogModuleAsyncOptions): DynamicModule {
+    return this.createModule(options, options.imports || [], {
+      provide: POSTHOG_MODULE_OPTIONS,
+      useFactory: async (...args: any[]) => resolvePosthogOptions(await options.useFactory(...args)),
+      inject: options.inject || [],
+    });
+  }
+
+  private static createModule(
+    {
+      previousCallStore = 'typeorm',
+      globalInterceptor = false,
+      registerController = true,
+    }: Pick<PosthogModuleOptions, 'previousCallStore' | 'globalInterceptor' | 'registerController'>,
+    imports: DynamicModule['imports'],
+    optionsProvider: Provider,
+  ): DynamicModule {
+    const useTypeOrm = previousCallStore === 'typeorm';
+
+    return {
+      module: PosthogModule,
+      global: true,
+      imports: [...imports, ...(useTypeOrm ? [TypeOrmModule.forFeature([ApiWriteRequest])] : [])],
+      controllers: registerController ? [PosthogController] : [],
+      providers: [
+        optionsProvider,
+        {
+          provide: Redactor,
+          useFactory: (posthogOptions: ResolvedPosthogOptions) => new Redactor(posthogOptions.redaction),
+          inject: [POSTHOG_MODULE_OPTIONS],
+        },
+        PosthogService,
+        PosthogInterceptor,
+        ErrorGroupsService,
+        AlertingService,
+        ErrorRateLimitGuard,
+        { provide: PreviousCallStore, useClass: useTypeOrm ? TypeOrmPreviousCallStore : InMemoryPreviousCallStore },
+        ...(globalInterceptor ? [{ provide: APP_INTERCEPTOR, useExisting: PosthogInterceptor }] : []),
+      ],
+      exports: [POSTHOG_MODULE_OPTIONS, Redactor, PosthogService, PosthogInterceptor, ErrorGroupsService, AlertingService, PreviousCallStore],
+    };
+  }
+}
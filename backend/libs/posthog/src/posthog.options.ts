@@ -0,0 +1,334 @@
+import { ModuleMetadata } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PLACEHOLDER_API_KEY } from './posthog.constants';
+import { RedactionMode, RedactorOptions, ValueDetector } from './redaction/redactor';
+import { SmtpNotifierOptions } from './alerting/notifiers/smtp.notifier';
+
+export type PreviousCallStoreType = 'typeorm' | 'memory';
+
+export interface PosthogOutboxOptions {
+    filePath?: string;
+    batchSize?: number;
+    maxQueueSize?: number;
+    baseRetryDelayMs?: number;
+    maxRetryDelayMs?: number;
+    /** Changes to the queue within this time are written to the file together (default: 100) */
+    persistDelayMs?: number;
+}
+
+export type PosthogRedactionOptions = Partial<RedactorOptions>;
+
+export interface PosthogAlertingOptions {
+    /** Set to false to turn alerting off even when notifiers are configured (default: true) */
+    enabled?: boolean;
+    notifiers?: {
+        /** Generic webhook receiving the alert as JSON */
+        webhookUrl?: string;
+        discordWebhookUrl?: string;
+        smtp?: SmtpNotifierOptions;
+    };
+    rules?: {
+        /** Alert when one error fingerprint occurs `count` times within `windowMinutes` */
+        errorThreshold?: { count?: number; windowMinutes?: number };
+        /** Alert when at least `rate` (0-1) of a route's requests return 5xx within `windowMinutes` */
+        routeErrorRate?: { rate?: number; minRequests?: number; windowMinutes?: number };
+    };
+    /** Minimum time between two alerts with the same key */
+    dedupWindowMinutes?: number;
+}
+
+export interface ResolvedAlertingOptions {
+    enabled: boolean;
+    notifiers: {
+        webhookUrl?: string;
+        discordWebhookUrl?: string;
+        smtp?: SmtpNotifierOptions;
+    };
+    rules: {
+        errorThreshold: { count: number; windowMinutes: number };
+        routeErrorRate: { rate: number; minRequests: number; windowMinutes: number };
+    };
+    dedupWindowMinutes: number;
+}
+
+export interface PosthogErrorIngestionOptions {
+    /** Error reports accepted per client per window */
+    maxRequests?: number;
+    windowMs?: number;
+}
+
+export interface PosthogModuleOptions {
+    /** Set to false to disable sending events entirely (default: true) */
+    enabled?: boolean;
+    /** Project API key used for capturing events */
+    apiKey?: string;
+    /** Personal API key, only needed for querying events */
+    personalApiKey?: string;
+    projectId?: string;
+    host?: string;
+    /** Number of events to queue in the PostHog client before flushing */
+    flushAt?: number;
+    flushInterval?: number;
+    /** Number of events kept in the local debug log */
+    maxLogSize?: number;
+    /** Byte budget for request bodies attached to events; larger ones are truncated */
+    maxRequestBodyBytes?: number;
+    /** Byte budget for response bodies attached to events; larger ones are truncated */
+    maxResponseBodyBytes?: number;
+    /** Query PostHog Cloud for the previous call when none is stored locally */
+    queryFallback?: boolean;
+    outbox?: PosthogOutboxOptions;
+    redaction?: PosthogRedactionOptions;
+    /** Number of error groups kept in memory (least recently seen are evicted) */
+    maxErrorGroups?: number;
+    /** Rate limit for POST /posthog/errors */
+    errorIngestion?: PosthogErrorIngestionOptions;
+    /** Notifications for error spikes */
+    alerting?: PosthogAlertingOptions;
+    /** HTTP methods tracked by PosthogInterceptor */
+    trackedMethods?: string[];
+    /** Where api_write_request history is kept (default: typeorm) */
+    previousCallStore?: PreviousCallStoreType;
+    /** Days api_write_request history is kept in the database before it is pruned (default: 30) */
+    previousCallRetentionDays?: number;
+    /** Apply PosthogInterceptor to every route instead of using @UseInterceptors (default: false) */
+    globalInterceptor?: boolean;
+    /** Mount PosthogController (/posthog/events, /posthog/errors, ...) in the app (default: true) */
+    registerController?: boolean;
+}
+
+export interface PosthogModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+    useFactory: (...args: any[]) => PosthogModuleOptions | Promise<PosthogModuleOptions>;
+    inject?: any[];
+    /** Needed up front because it decides which providers the module registers */
+    previousCallStore?: PreviousCallStoreType;
+    globalInterceptor?: boolean;
+    registerController?: boolean;
+}
+
+/**
+ * Options after defaults have been applied and values validated
+ */
+export interface ResolvedPosthogOptions {
+    enabled: boolean;
+    /** True when enabled and a real API key is set */
+    configured: boolean;
+    apiKey: string;
+    personalApiKey?: string;
+    projectId?: string;
+    host: string;
+    flushAt: number;
+    flushInterval: number;
+    maxLogSize: number;
+    maxRequestBodyBytes: number;
+    maxResponseBodyBytes: number;
+    queryFallback: boolean;
+    outbox: Required<PosthogOutboxOptions>;
+    redaction: RedactorOptions;
+    maxErrorGroups: number;
+    errorIngestion: Required<PosthogErrorIngestionOptions>;
+    alerting: ResolvedAlertingOptions;
+    trackedMethods: string[];
+    previousCallRetentionDays: number;
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+const REDACTION_MODES: RedactionMode[] = ['mask', 'hash'];
+const VALUE_DETECTORS: ValueDetector[] = ['email', 'card', 'bearer', 'jwt'];
+
+// Secrets and tokens match as the whole key or its last word (`client_secret`, `accessToken`), not as any substring,
+// so fields such as `tokenCount` or `secretary` are kept
+const DEFAULT_REDACTED_KEYS: (string | RegExp)[] = [
+    /passw(or)?d/i,
+    /^(secret|token)s?$/i,
+    /[-_](secret|token)$/i,
+    /[a-z0-9](Secret|Token)$/,
+    /^secret[-_]?key$/i,
+    /api[-_]?key/i,
+    /^authorization$/i,
+    /^(set[-_])?cookies?$/i,
+    /^(card[-_]?number|cvv|cvc)$/i,
+];
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-session-id'];
+
+/**
+ * Apply defaults and validate options
+ * @throws Error listing every invalid option
+ */
+export function resolvePosthogOptions(options: PosthogModuleOptions = {}): ResolvedPosthogOptions {
+    const resolved: ResolvedPosthogOptions = {
+        enabled: options.enabled ?? true,
+        configured: false,
+        apiKey: options.apiKey || PLACEHOLDER_API_KEY,
+        personalApiKey: options.personalApiKey || undefined,
+        projectId: options.projectId || undefined,
+        host: (options.host || 'https://app.posthog.com').replace(/\/+$/, ''),
+        flushAt: options.flushAt ?? 1,
+        flushInterval: options.flushInterval ?? 5000,
+        maxLogSize: options.maxLogSize ?? 100,
+        maxRequestBodyBytes: options.maxRequestBodyBytes ?? 1000,
+        maxResponseBodyBytes: options.maxResponseBodyBytes ?? 2000,
+        queryFallback: options.queryFallback ?? false,
+        outbox: {
+            filePath: options.outbox?.filePath || '.posthog/outbox.json',
+            batchSize: options.outbox?.batchSize ?? 100,
+            maxQueueSize: options.outbox?.maxQueueSize ?? 10000,
+            baseRetryDelayMs: options.outbox?.baseRetryDelayMs ?? 1000,
+            maxRetryDelayMs: options.outbox?.maxRetryDelayMs ?? 5 * 60 * 1000,
+            persistDelayMs: options.outbox?.persistDelayMs ?? 100,
+        },
+        redaction: {
+            keys: options.redaction?.keys || DEFAULT_REDACTED_KEYS,
+            paths: options.redaction?.paths || [],
+            headers: options.redaction?.headers || DEFAULT_REDACTED_HEADERS,
+            detectors: options.redaction?.detectors || VALUE_DETECTORS,
+            mode: options.redaction?.mode || 'mask',
+            hashSalt: options.redaction?.hashSalt || '',
+        },
+        maxErrorGroups: options.maxErrorGroups ?? 500,
+        errorIngestion: {
+            maxRequests: options.errorIngestion?.maxRequests ?? 30,
+            windowMs: options.errorIngestion?.windowMs ?? 60 * 1000,
+        },
+        alerting: {
+            enabled: options.alerting?.enabled ?? true,
+            notifiers: {
+                webhookUrl: options.alerting?.notifiers?.webhookUrl || undefined,
+                discordWebhookUrl: options.alerting?.notifiers?.discordWebhookUrl || undefined,
+                smtp: options.alerting?.notifiers?.smtp?.host ? options.alerting.notifiers.smtp : undefined,
+            },
+            rules: {
+                errorThreshold: {
+                    count: options.alerting?.rules?.errorThreshold?.count ?? 10,
+                    windowMinutes: options.alerting?.rules?.errorThreshold?.windowMinutes ?? 5,
+                },
+                routeErrorRate: {
+                    rate: options.alerting?.rules?.routeErrorRate?.rate ?? 0.5,
+                    minRequests: options.alerting?.rules?.routeErrorRate?.minRequests ?? 10,
+                    windowMinutes: options.alerting?.rules?.routeErrorRate?.windowMinutes ?? 5,
+                },
+            },
+            dedupWindowMinutes: options.alerting?.dedupWindowMinutes ?? 30,
+        },
+        trackedMethods: (options.trackedMethods || ['POST', 'PUT', 'PATCH']).map(method => method.toUpperCase()),
+        previousCallRetentionDays: options.previousCallRetentionDays ?? 30,
+    };
+
+    const errors: string[] = [];
+
+    if (!/^https?:\/\/[^\s/]+/.test(resolved.host)) {
+        errors.push(`host must be an http(s) URL, got "${resolved.host}"`);
+    }
+    if (resolved.projectId && !/^\d+$/.test(resolved.projectId)) {
+        errors.push(`projectId must be numeric, got "${resolved.projectId}"`);
+    }
+
+    const positiveIntegers: Record<string, number> = {
+        flushAt: resolved.flushAt,
+        flushInterval: resolved.flushInterval,
+        maxLogSize: resolved.maxLogSize,
+        maxRequestBodyBytes: resolved.maxRequestBodyBytes,
+        maxResponseBodyBytes: resolved.maxResponseBodyBytes,
+        'outbox.batchSize': resolved.outbox.batchSize,
+        'outbox.maxQueueSize': resolved.outbox.maxQueueSize,
+        'outbox.baseRetryDelayMs': resolved.outbox.baseRetryDelayMs,
+        'outbox.maxRetryDelayMs': resolved.outbox.maxRetryDelayMs,
+        'outbox.persistDelayMs': resolved.outbox.persistDelayMs,
+        maxErrorGroups: resolved.maxErrorGroups,
+        'errorIngestion.maxRequests': resolved.errorIngestion.maxRequests,
+        'errorIngestion.windowMs': resolved.errorIngestion.windowMs,
+        'alerting.rules.errorThreshold.count': resolved.alerting.rules.errorThreshold.count,
+        'alerting.rules.errorThreshold.windowMinutes': resolved.alerting.rules.errorThreshold.windowMinutes,
+        'alerting.rules.routeErrorRate.minRequests': resolved.alerting.rules.routeErrorRate.minRequests,
+        'alerting.rules.routeErrorRate.windowMinutes': resolved.alerting.rules.routeErrorRate.windowMinutes,
+        'alerting.dedupWindowMinutes': resolved.alerting.dedupWindowMinutes,
+        previousCallRetentionDays: resolved.previousCallRetentionDays,
+    };
+    for (const [name, value] of Object.entries(positiveIntegers)) {
+        if (!Number.isInteger(value) || value <= 0) {
+            errors.push(`${name} must be a positive integer, got ${value}`);
+        }
+    }
+
+    const unknownMethods = resolved.trackedMethods.filter(method => !HTTP_METHODS.includes(method));
+    if (unknownMethods.length > 0) {
+        errors.push(`trackedMethods contains unknown HTTP methods: ${unknownMethods.join(', ')}`);
+    }
+
+    const { rate } = resolved.alerting.rules.routeErrorRate;
+    if (!(rate > 0 && rate <= 1)) {
+        errors.push(`alerting.rules.routeErrorRate.rate must be between 0 and 1, got ${rate}`);
+    }
+    const smtp = resolved.alerting.notifiers.smtp;
+    if (smtp && (!smtp.from || !smtp.to?.length)) {
+        errors.push('alerting.notifiers.smtp requires from and at least one to address');
+    }
+
+    if (!REDACTION_MODES.includes(resolved.redaction.mode)) {
+        errors.push(`redaction.mode must be one of ${REDACTION_MODES.join(', ')}, got "${resolved.redaction.mode}"`);
+    }
+    const unknownDetectors = resolved.redaction.detectors.filter(detector => !VALUE_DETECTORS.includes(detector));
+    if (unknownDetectors.length > 0) {
+        errors.push(`redaction.detectors contains unknown detectors: ${unknownDetectors.join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid PostHog module options:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    resolved.configured = resolved.enabled && resolved.apiKey !== PLACEHOLDER_API_KEY;
+
+    return resolved;
+}
+
+/**
+ * Build module options from the standard POSTHOG_* environment variables
+ * Apps can spread the result and override what they need.
+ */
+export function posthogOptionsFromConfig(config: ConfigService): PosthogModuleOptions {
+    const toNumber = (key: string) => {
+        const value = config.get<string>(key);
+        return value !== undefined && value !== '' ? Number(value) : undefined;
+    };
+
+    return {
+        enabled: config.get<string>('POSTHOG_ENABLED') !== 'false',
+        apiKey: config.get<string>('POSTHOG_API_KEY'),
+        personalApiKey: config.get<string>('POSTHOG_PERSONAL_API_KEY'),
+        projectId: config.get<string>('POSTHOG_PROJECT_ID'),
+        host: config.get<string>('POSTHOG_HOST'),
+        flushAt: toNumber('POSTHOG_FLUSH_AT'),
+        maxLogSize: toNumber('POSTHOG_MAX_LOG_SIZE'),
+        maxRequestBodyBytes: toNumber('POSTHOG_MAX_REQUEST_BODY_BYTES'),
+        maxResponseBodyBytes: toNumber('POSTHOG_MAX_RESPONSE_BODY_BYTES'),
+        queryFallback: config.get<string>('POSTHOG_QUERY_FALLBACK') === 'true',
+        previousCallRetentionDays: toNumber('POSTHOG_WRITE_REQUEST_RETENTION_DAYS'),
+        outbox: {
+            filePath: config.get<string>('POSTHOG_OUTBOX_PATH'),
+        },
+        alerting: {
+            notifiers: {
+                webhookUrl: config.get<string>('ALERT_WEBHOOK_URL'),
+                discordWebhookUrl: config.get<string>('ALERT_DISCORD_WEBHOOK_URL'),
+                smtp: config.get<string>('ALERT_SMTP_HOST')
+                    ? {
+                          host: config.get<string>('ALERT_SMTP_HOST'),
+                          port: toNumber('ALERT_SMTP_PORT') ?? 587,
+                          secure: config.get<string>('ALERT_SMTP_SECURE') === 'true',
+                          user: config.get<string>('ALERT_SMTP_USER'),
+                          pass: config.get<string>('ALERT_SMTP_PASS'),
+                          from: config.get<string>('ALERT_EMAIL_FROM'),
+                          to: (config.get<string>('ALERT_EMAIL_TO') || '')
+                              .split(',')
+                              .map(address => address.trim())
+                              .filter(Boolean),
+                      }
+                    : undefined,
+            },
+        },
+        redaction: {
+            mode: config.get<RedactionMode>('POSTHOG_REDACTION_MODE'),
+            hashSalt: config.get<string>('POSTHOG_REDACTION_SALT'),
+        },
+    };
+}
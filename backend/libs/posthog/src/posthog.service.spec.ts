@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PosthogModule } from './posthog.module';
+import { PosthogService } from './posthog.service';
+import { PosthogModuleOptions } from './posthog.options';
+import { AlertingService } from './alerting/alerting.service';
+
+describe('PosthogService', () => {
+    let outboxDir: string;
+    let moduleRef: TestingModule | undefined;
+    let service: PosthogService;
+
+    const createService = async (options: PosthogModuleOptions = {}) => {
+        await moduleRef?.close();
+        moduleRef = await Test.createTestingModule({
+            imports: [
+                PosthogModule.forRoot({
+                    apiKey: 'phc_test',
+                    previousCallStore: 'memory',
+                    outbox: { filePath: join(outboxDir, 'outbox.json') },
+                    ...options,
+                }),
+            ],
+        }).compile();
+
+        service = moduleRef.get(PosthogService);
+    };
+
+    beforeEach(async () => {
+        Logger.overrideLogger(false);
+        outboxDir = mkdtempSync(join(tmpdir(), 'posthog-outbox-'));
+
+        // PostHog accepts every batch
+        jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+
+        moduleRef = undefined;
+        await createService();
+    });
+
+    afterEach(async () => {
+        await moduleRef?.close();
+        jest.restoreAllMocks();
+        rmSync(outboxDir, { recursive: true, force: true });
+    });
+
+    const trackWrite = (userId: string, requestBody: any) =>
+        service.trackWriteRequestWithComparison({
+            method: 'POST',
+            path: '/items',
+            url: '/items',
+            requestBody,
+            responseBody: { id: 1, ...requestBody },
+            statusCode: 201,
+            userId,
+            duration: 5,
+        });
+
+    const lastEvent = () => service.getRecentEvents(1)[0];
+
+    describe('trackWriteRequestWithComparison', () => {
+        it('compares against the previous call of the same user', async () => {
+            await trackWrite('1', { name: 'first' });
+            await trackWrite('1', { name: 'second' });
+
+            expect(lastEvent().properties.previous_request_body).toEqual({ name: 'first' });
+            expect(lastEvent().properties.is_first_call).toBe(false);
+        });
+
+        it('does not compare against calls of other users', async () => {
+            await trackWrite('1', { name: 'private to user 1' });
+            await trackWrite('2', { name: 'from user 2' });
+
+            expect(lastEvent().distinctId).toBe('2');
+            expect(lastEvent().properties.previous_request_body).toBeUndefined();
+            expect(lastEvent().properties.previous_call).toBeUndefined();
+            expect(lastEvent().properties.is_first_call).toBe(true);
+        });
+    });
+
+    describe('trackError', () => {
+        const reportFrontendError = (userId: string) =>
+            service.trackError({ errorName: 'TypeError', errorMessage: 'boom', userId, errorType: 'frontend_error', context: { url: 'http://localhost:3000/items' } });
+
+        it('keeps anonymous frontend errors out of alerting', () => {
+            const recordError = jest.spyOn(moduleRef.get(AlertingService), 'recordError');
+
+            reportFrontendError('anonymous');
+
+            expect(recordError).not.toHaveBeenCalled();
+            expect(lastEvent().eventName).toBe('error_occurred');
+        });
+
+        it('passes frontend errors of authenticated users to alerting', () => {
+            const recordError = jest.spyOn(moduleRef.get(AlertingService), 'recordError');
+
+            reportFrontendError('7');
+
+            expect(recordError).toHaveBeenCalledWith(expect.objectContaining({ errorType: 'frontend_error' }));
+        });
+    });
+
+    describe('delivery', () => {
+        it.each([401, 403, 404])('keeps queued events when PostHog responds %d', async status => {
+            jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status }));
+
+            service.track('1', 'item_viewed');
+            await service.flush();
+
+            expect(service.getStatus().outbox.queueDepth).toBe(1);
+        });
+
+        it('drops an event whose payload PostHog rejects', async () => {
+            jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 400 }));
+
+            service.track('1', 'item_viewed');
+            await service.flush();
+
+            expect(service.getStatus().outbox.queueDepth).toBe(0);
+        });
+    });
+
+    describe('getPreviousCallFromPostHog', () => {
+        const queryBody = (fetchMock: jest.SpyInstance) => {
+            const [url, init] = fetchMock.mock.calls.find(([url]) => String(url).includes('/query/'));
+            expect(url).toBe('https://app.posthog.com/api/projects/1/query/');
+            return JSON.parse(init.body);
+        };
+
+        beforeEach(async () => {
+            await createService({ personalApiKey: 'phx_test', projectId: '1' });
+        });
+
+        it('escapes the values in the HogQL filter', async () => {
+            const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(Response.json({ results: [] }));
+
+            await service.getPreviousCallFromPostHog('POST', "/items/' OR '1'='1\\", '7');
+
+            expect(queryBody(fetchMock).query.where).toEqual([
+                "properties.method = 'POST'",
+                "properties.path = '/items/\\' OR \\'1\\'=\\'1\\\\'",
+                "distinct_id = '7'",
+            ]);
+        });
+
+        it('does not filter by user for anonymous calls', async () => {
+            const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(Response.json({ results: [] }));
+
+            await service.getPreviousCallFromPostHog('POST', '/items', 'anonymous');
+
+            expect(queryBody(fetchMock).query.where).toEqual(["properties.method = 'POST'", "properties.path = '/items'"]);
+        });
+    });
+
+    describe('payload size limits', () => {
+        it('summarizes binary request bodies', async () => {
+            await trackWrite('1', { name: 'upload', file: Buffer.alloc(1024 * 1024) });
+
+            const { properties } = lastEvent();
+            expect(properties.request_body._truncated).toBe(true);
+            expect(properties.request_body.preview).toEqual({ name: 'upload', file: `[Binary ${1024 * 1024} bytes]` });
+        });
+
+        it('summarizes binary data in request bodies of errors', () => {
+            service.trackError({
+                errorName: 'PayloadTooLargeError',
+                errorMessage: 'request entity too large',
+                userId: '1',
+                context: { method: 'POST', path: '/items/import', requestBody: { file: new Uint8Array(2 * 1024 * 1024) } },
+            });
+
+            const { properties } = service.getRecentEvents(1)[0];
+            expect(properties.context.requestBody.preview).toEqual({ file: `[Binary ${2 * 1024 * 1024} bytes]` });
+        });
+
+        it('truncates huge item lists in responses to the byte budget', async () => {
+            const items = Array.from({ length: 5000 }, (_, i) => ({ id: i, name: `Item ${i}`, description: 'x'.repeat(100) }));
+
+            await service.trackApiRequest({ method: 'GET', path: '/items', url: '/items', responseBody: { data: items }, statusCode: 200, userId: '1', duration: 5 });
+
+            const { properties } = service.getRecentEvents(1)[0];
+            expect(properties.response_body._truncated).toBe(true);
+            expect(Buffer.byteLength(JSON.stringify(properties.response_body.preview))).toBeLessThanOrEqual(2000);
+            expect(properties.response_body.preview.data[0]).toEqual({ id: 0, name: 'Item 0', description: 'x'.repeat(100) });
+        });
+    });
+});
@@ -1,6 +1,16 @@
-import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
+import { Injectable, OnModuleInit, OnModuleDestroy, Logger, Inject } from '@nestjs/common';
 import { PostHog } from 'posthog-node';
+import { randomUUID } from 'crypto';
 import { TrackedEventDto } from './dto/tracked-event.dto';
+import { PreviousCall, PreviousCallStore } from './stores/previous-call.store';
+import { EventOutbox, OutboxEvent, OutboxPermanentError } from './outbox/event-outbox';
+import { POSTHOG_MODULE_OPTIONS, PLACEHOLDER_API_KEY } from './posthog.constants';
+import { ResolvedPosthogOptions } from './posthog.options';
+import { Redactor } from './redaction/redactor';
+import { truncatePayload } from './utils/truncate-payload';
+import { fingerprintError } from './errors/error-fingerprint';
+import { ErrorGroupsService } from './errors/error-groups.service';
+import { AlertingService } from './alerting/alerting.service';
 
 interface TrackedEvent {
     distinctId: string;
@@ -12,40 +22,54 @@ interface TrackedEvent {
 @Injectable()
 export class PosthogService implements OnModuleInit, OnModuleDestroy {
     private client: PostHog;
+    private readonly outbox: EventOutbox;
     private readonly logger = new Logger(PosthogService.name);
     private eventLog: TrackedEvent[] = [];
-    private readonly MAX_LOG_SIZE = 100; // Keep last 100 events
 
-    constructor() {
+    constructor(
+        @Inject(POSTHOG_MODULE_OPTIONS)
+        private readonly options: ResolvedPosthogOptions,
+        private readonly previousCallStore: PreviousCallStore,
+        private readonly redactor: Redactor,
+        private readonly errorGroups: ErrorGroupsService,
+        private readonly alerting: AlertingService,
+    ) {
         // Initialize PostHog client
         // Get your API key from https://app.posthog.com/project/settings
-        const apiKey = process.env.POSTHOG_API_KEY || 'phc_your_api_key_here';
-        const host = process.env.POSTHOG_HOST || 'https://app.posthog.com';
-
-        // Validate API key
-        if (!apiKey || apiKey === 'phc_your_api_key_here') {
+        if (!options.enabled) {
+            this.logger.warn('⚠️  PostHog tracking is disabled. Events will not be sent to PostHog.');
+        } else if (!options.configured) {
             this.logger.warn('⚠️  PostHog API key not configured! Events will not be sent to PostHog.');
         }
 
-        this.client = new PostHog(apiKey, {
-            host: host,
-            flushAt: 1, // Flush after 1 event (for immediate testing)
-            flushInterval: 5000, // Or flush every 5 seconds
+        this.client = new PostHog(options.apiKey, {
+            host: options.host,
+            flushAt: options.flushAt,
+            flushInterval: options.flushInterval,
+            disabled: !options.configured,
         });
+
+        // Events are delivered through a file-backed outbox so they survive outages and restarts
+        this.outbox = new EventOutbox(options.outbox, events => this.sendBatch(events));
     }
 
     onModuleInit() {
-        const apiKey = process.env.POSTHOG_API_KEY || 'phc_your_api_key_here';
-        const host = process.env.POSTHOG_HOST || 'https://app.posthog.com';
+        if (!this.options.enabled) {
+            return;
+        }
 
-        if (!apiKey || apiKey === 'phc_your_api_key_here') {
+        if (!this.options.configured) {
             this.logger.error('❌ PostHog API key is not configured!');
-        } else {
-            this.logger.log('✅ PostHog client initialized');
+            return;
         }
+
+        this.logger.log('✅ PostHog client initialized');
+        this.outbox.start();
     }
 
-    onModuleDestroy() {
+    async onModuleDestroy() {
+        // Try to deliver queued events; anything left stays on disk for the next start
+        await this.outbox.stop();
         // Shutdown PostHog client gracefully
         this.client.shutdown();
     }
@@ -55,33 +79,15 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
      * @param distinctId - Unique identifier for the user
      * @param eventName - Name of the event
      * @param properties - Additional properties for the event
+     * @param uuid - Optional event ID (overrides the one generated by PostHog)
      */
-    track(distinctId: string, eventName: string, properties?: Record<string, any>) {
-        const apiKey = process.env.POSTHOG_API_KEY || 'phc_your_api_key_here';
-
-        // Don't track if API key is not configured
-        if (!apiKey || apiKey === 'phc_your_api_key_here') {
+    track(distinctId: string, eventName: string, properties?: Record<string, any>, uuid?: string) {
+        // Don't track if disabled or API key is not configured
+        if (!this.options.configured) {
             return;
         }
 
-        const eventData = {
-            distinctId,
-            event: eventName,
-            properties: {
-                ...properties,
-                timestamp: new Date().toISOString(),
-                $lib: 'posthog-node',
-                $lib_version: '4.0.0',
-            },
-        };
-
-        try {
-            // Track in PostHog
-            this.client.capture(eventData);
-            this.logger.log(`✅ Event sent to PostHog: ${eventName}`);
-        } catch (error) {
-            this.logger.error(`   ❌ Failed to send event to PostHog: ${error.message}`);
-        }
+        this.enqueue(distinctId, eventName, properties, uuid);
 
         // Store in local log
         const trackedEvent: TrackedEvent = {
@@ -93,22 +99,37 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
 
         this.eventLog.push(trackedEvent);
 
-        // Keep only last MAX_LOG_SIZE events
-        if (this.eventLog.length > this.MAX_LOG_SIZE) {
-            this.eventLog = this.eventLog.slice(-this.MAX_LOG_SIZE);
+        // Keep only last maxLogSize events
+        if (this.eventLog.length > this.options.maxLogSize) {
+            this.eventLog = this.eventLog.slice(-this.options.maxLogSize);
         }
     }
 
     /**
      * Identify a user
      * @param distinctId - Unique identifier for the user
-     * @param properties - User properties
+     * @param properties - Person properties, overwritten on every call
+     * @param setOnce - Person properties that keep their first value
      */
-    identify(distinctId: string, properties?: Record<string, any>) {
-        this.client.identify({
-            distinctId,
-            properties,
-        });
+    identify(distinctId: string, properties?: Record<string, any>, setOnce?: Record<string, any>) {
+        if (!this.options.configured) {
+            return;
+        }
+
+        this.enqueue(distinctId, '$identify', { $set: properties || {}, ...(setOnce ? { $set_once: setOnce } : {}) });
+    }
+
+    /**
+     * Merge another distinct id (e.g. the anonymous id of a browser) into a user, so their events belong to one person
+     * @param distinctId - Unique identifier for the user
+     * @param alias - Distinct id to merge
+     */
+    alias(distinctId: string, alias: string) {
+        if (!this.options.configured || alias === distinctId) {
+            return;
+        }
+
+        this.enqueue(distinctId, '$create_alias', { distinct_id: distinctId, alias });
     }
 
     /**
@@ -147,21 +168,72 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
      */
     async flush() {
         try {
-            // Force flush by calling shutdown and reinitializing
-            this.client.shutdown();
-            const apiKey = process.env.POSTHOG_API_KEY || 'phc_your_api_key_here';
-            const host = process.env.POSTHOG_HOST || 'https://app.posthog.com';
-            this.client = new PostHog(apiKey, {
-                host: host,
-                flushAt: 1,
-                flushInterval: 5000,
-            });
+            await Promise.all([this.outbox.flush(), this.client.flush()]);
             this.logger.log('✅ PostHog events flushed');
         } catch (error) {
             this.logger.error(`❌ Failed to flush PostHog events: ${error.message}`);
         }
     }
 
+    /**
+     * Queue an event for delivery to PostHog (persisted and retried by the outbox)
+     */
+    private enqueue(distinctId: string, eventName: string, properties?: Record<string, any>, uuid?: string) {
+        const timestamp = new Date().toISOString();
+        const eventData: OutboxEvent = {
+            uuid: uuid || randomUUID(),
+            distinctId,
+            event: eventName,
+            properties: {
+                ...properties,
+                timestamp,
+                $lib: 'posthog-node',
+                $lib_version: '4.0.0',
+            },
+            timestamp,
+        };
+
+        this.outbox.enqueue(eventData);
+        this.logger.log(`✅ Event queued for PostHog: ${eventName}`);
+    }
+
+    /**
+     * Send a batch of queued events to the PostHog capture API
+     * Throws so the outbox can retry; only a rejected payload (400, 413) is not retryable
+     */
+    private async sendBatch(events: OutboxEvent[]) {
+        const response = await fetch(`${this.options.host}/batch/`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                api_key: this.options.apiKey,
+                batch: events.map(event => ({
+                    type: 'capture',
+                    uuid: event.uuid,
+                    distinct_id: event.distinctId,
+                    event: event.event,
+                    properties: event.properties,
+                    timestamp: event.timestamp,
+                })),
+                sent_at: new Date().toISOString(),
+            }),
+            signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) {
+            const message = `PostHog capture API responded ${response.status} ${response.statusText}`;
+            // Only a rejected payload is permanent; auth and config errors (401, 403, 404) keep the events for a retry
+            if (response.status === 400 || response.status === 413) {
+                throw new OutboxPermanentError(message);
+            }
+            throw new Error(message);
+        }
+
+        this.logger.log(`✅ ${events.length} event(s) sent to PostHog`);
+    }
+
     /**
      * Unified error tracking method - ONLY tracks errors
      * This is the single entry point for all error tracking (frontend + backend)
@@ -176,37 +248,63 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         errorType?: 'frontend_error' | 'backend_error' | 'api_error';
     }) {
         const errorType = details.errorType || 'backend_error';
-        const posthogHost = process.env.POSTHOG_HOST || 'https://app.posthog.com';
+        const posthogHost = this.options.host;
+
+        const errorMessage = this.redactor.redactText(details.errorMessage);
+        const errorStack = details.errorStack ? this.redactor.redactText(details.errorStack) : undefined;
+        const path = details.context?.path || this.getUrlPath(details.context?.url);
+
+        // Group repeated occurrences of the same error
+        const { fingerprint, normalizedMessage, frames } = fingerprintError({ errorName: details.errorName, errorMessage, errorStack, path });
+        const group = this.errorGroups.record({
+            fingerprint,
+            errorName: details.errorName,
+            errorMessage,
+            normalizedMessage,
+            errorType,
+            path,
+            frames,
+            userId: details.userId,
+            statusCode: details.context?.statusCode,
+        });
+        // Anonymous frontend reports are unauthenticated input, so they must not be able to trigger alerts
+        if (errorType !== 'frontend_error' || details.userId !== 'anonymous') {
+            this.alerting.recordError({ fingerprint, errorName: details.errorName, errorMessage, path, errorType });
+        }
 
         const properties: Record<string, any> = {
             error_name: details.errorName,
-            error_message: details.errorMessage,
+            error_message: errorMessage,
             error_type: errorType,
+            error_fingerprint: fingerprint,
+            error_normalized_message: normalizedMessage,
+            error_group_count: group.count,
+            $exception_fingerprint: fingerprint,
             timestamp: new Date().toISOString(),
         };
 
         // Add stack trace (sanitized)
-        if (details.errorStack) {
-            properties.error_stack = details.errorStack;
+        if (errorStack) {
+            properties.error_stack = errorStack;
         }
 
         // Add context (request details, etc.)
         if (details.context) {
             // Sanitize context to remove sensitive data
-            const sanitizedContext = { ...details.context };
-            if (sanitizedContext.requestHeaders) {
-                sanitizedContext.requestHeaders = this.sanitizeHeaders(sanitizedContext.requestHeaders);
+            const { requestHeaders, requestBody, ...rest } = details.context;
+            const sanitizedContext: Record<string, any> = this.redactor.redact(rest);
+            if (requestHeaders) {
+                sanitizedContext.requestHeaders = this.redactor.redactHeaders(requestHeaders);
             }
-            if (sanitizedContext.requestBody) {
-                sanitizedContext.requestBody = this.sanitizeBody(sanitizedContext.requestBody);
+            if (requestBody) {
+                sanitizedContext.requestBody = this.sanitizeBody(requestBody);
             }
             properties.context = sanitizedContext;
         }
 
         // Add session replay link if session ID is provided
         if (details.sessionId) {
-            const apiKey = process.env.POSTHOG_API_KEY || 'phc_your_api_key_here';
-            const projectId = this.getProjectId(apiKey);
+            const projectId = this.getProjectId(this.options.apiKey);
 
             properties.$session_id = details.sessionId;
 
@@ -232,23 +330,15 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
     }
 
     /**
-     * Sanitize headers to remove sensitive information
+     * Path part of a URL (used to group frontend errors by page)
      */
-    private sanitizeHeaders(headers: any): any {
-        if (!headers) return null;
-
-        const sensitiveHeaders = ['authorization', 'cookie', 'x-api-key', 'x-session-id'];
-        const sanitized: any = {};
-
-        for (const [key, value] of Object.entries(headers)) {
-            if (sensitiveHeaders.includes(key.toLowerCase())) {
-                sanitized[key] = '[REDACTED]';
-            } else {
-                sanitized[key] = value;
-            }
+    private getUrlPath(url?: string): string | undefined {
+        if (!url) return undefined;
+        try {
+            return new URL(url, 'http://localhost').pathname;
+        } catch {
+            return undefined;
         }
-
-        return sanitized;
     }
 
     /**
@@ -257,35 +347,20 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
     private sanitizeBody(body: any): any {
         if (!body) return null;
 
-        const sensitiveFields = ['password', 'token', 'secret', 'apiKey', 'apikey', 'access_token'];
-        const sanitized = { ...body };
-
-        for (const field of sensitiveFields) {
-            if (sanitized[field]) {
-                sanitized[field] = '[REDACTED]';
-            }
-        }
-
         // Limit size
-        const bodyStr = JSON.stringify(sanitized);
-        if (bodyStr.length > 1000) {
-            return JSON.parse(bodyStr.substring(0, 1000) + '...');
-        }
-
-        return sanitized;
+        return truncatePayload(this.redactor.redact(body), { maxBytes: this.options.maxRequestBodyBytes });
     }
 
     /**
      * Get PostHog configuration status
      */
     getStatus() {
-        const apiKey = process.env.POSTHOG_API_KEY || 'phc_your_api_key_here';
-        const host = process.env.POSTHOG_HOST || 'https://app.posthog.com';
-
         return {
-            configured: apiKey && apiKey !== 'phc_your_api_key_here',
-            host,
+            enabled: this.options.enabled,
+            configured: this.options.configured,
+            host: this.options.host,
             eventLogSize: this.eventLog.length,
+            outbox: this.outbox.getStatus(),
         };
     }
 
@@ -293,7 +368,10 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
      * Get previous API call from PostHog API
      * Queries PostHog for the most recent api_write_request event matching the endpoint
      *
-     * Note: Requires POSTHOG_API_KEY to be set. For querying events, you may need a
+     * Only used as a fallback when the local PreviousCallStore has no match and
+     * the queryFallback option is set, since freshly captured events take a while to become queryable.
+     *
+     * Note: Requires an API key to be configured. For querying events, you may need a
      * Personal API Key (not project API key). Get it from:
      * https://app.posthog.com/personal-api-keys
      *
@@ -303,28 +381,17 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         method: string,
         path: string,
         userId?: string,
-    ): Promise<{
-        requestBody?: any;
-        responseBody?: any;
-        timestamp: Date;
-        userId?: string;
-        eventId?: string;
-        statusCode?: number;
-        duration?: number;
-        method?: string;
-        path?: string;
-        url?: string;
-    } | null> {
+    ): Promise<PreviousCall | null> {
         try {
             // Use Personal API Key for querying (if available), otherwise fallback to Project API Key
             // Personal API Key is required for querying events via PostHog API
             // Get it from: https://app.posthog.com/personal-api-keys
-            const personalApiKey = process.env.POSTHOG_PERSONAL_API_KEY;
-            const projectApiKey = process.env.POSTHOG_API_KEY;
+            const personalApiKey = this.options.personalApiKey;
+            const projectApiKey = this.options.apiKey;
             const apiKey = personalApiKey || projectApiKey; // Prefer Personal API Key for querying
-            const host = process.env.POSTHOG_HOST || 'https://app.posthog.com';
+            const host = this.options.host;
 
-            if (!apiKey || apiKey === 'phc_your_api_key_here') {
+            if (!this.options.enabled || apiKey === PLACEHOLDER_API_KEY) {
                 this.logger.warn('⚠️ PostHog API key not configured - cannot query for previous calls');
                 return null;
             }
@@ -351,7 +418,11 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
                     select: ['*'],
                     event: 'api_write_request',
                     // Use HogQL string format for where clause
-                    where: [`properties.method = '${method}'`, `properties.path = '${path}'`],
+                    where: [
+                        `properties.method = ${this.hogqlString(method)}`,
+                        `properties.path = ${this.hogqlString(path)}`,
+                        ...(userId && userId !== 'anonymous' ? [`distinct_id = ${this.hogqlString(userId)}`] : []),
+                    ],
                     orderBy: ['timestamp DESC'],
                     limit: 1,
                 },
@@ -412,6 +483,13 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         }
     }
 
+    /**
+     * Quote a value as a HogQL string literal
+     */
+    private hogqlString(value: string): string {
+        return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+
     /**
      * Fallback: Try Events API endpoint (simpler format)
      */
@@ -499,11 +577,11 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
 
     /**
      * Get PostHog project ID
-     * Priority: 1. POSTHOG_PROJECT_ID env var, 2. Extract from API key (if possible)
+     * Priority: 1. projectId option, 2. Extract from API key (if possible)
      */
     private getProjectId(apiKey: string): string | null {
-        // First priority: Check environment variable (most reliable)
-        const projectId = process.env.POSTHOG_PROJECT_ID;
+        // First priority: Check configured project ID (most reliable)
+        const projectId = this.options.projectId;
         if (projectId) {
             return projectId;
         }
@@ -526,8 +604,8 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
     }
 
     /**
-     * Track write request with PostHog-based comparison
-     * Compares current request/response with previous call from PostHog
+     * Track write request with comparison against the previous call
+     * The previous call comes from the local PreviousCallStore, with the PostHog API as an optional fallback
      */
     async trackWriteRequestWithComparison(details: {
         method: string;
@@ -539,23 +617,10 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         userId: string;
         duration: number;
         sessionId?: string;
+        eventName?: string; // Defaults to api_write_request
+        properties?: Record<string, any>; // Extra properties (e.g. from @TrackEvent)
     }) {
-        // Get previous call from PostHog API
-        // Note: PostHog events need time to be processed and indexed before they're queryable
-        // If you hit the same API multiple times quickly, you may need to wait 5-10 seconds
-        // between calls for the previous call to be available in PostHog
-        let previousCall: any = null;
-        try {
-            previousCall = await this.getPreviousCallFromPostHog(details.method, details.path, details.userId);
-            if (!previousCall) {
-                this.logger.warn(`⚠️ No previous call found for ${details.method} ${details.path} - Try waiting 10-30 seconds between API calls`);
-            }
-        } catch (error) {
-            this.logger.error(`❌ Error getting previous call from PostHog API: ${error.message}`);
-            if (error.stack) {
-                this.logger.error(`Stack: ${error.stack}`);
-            }
-        }
+        const previousCall = await this.findPreviousCall(details.method, details.path, details.userId);
 
         // Calculate changes
         const changes = this.calculateChanges(previousCall, {
@@ -564,6 +629,7 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         });
 
         const properties: Record<string, any> = {
+            ...details.properties,
             method: details.method,
             path: details.path,
             url: details.url,
@@ -611,7 +677,7 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
 
         // Add change analysis
         if (changes.hasChanges) {
-            properties.changes = changes.changes;
+            properties.changes = this.redactor.redact(changes.changes);
             properties.change_summary = changes.summary;
             properties.is_first_call = false;
         } else {
@@ -629,7 +695,54 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         }
 
         // Track event
-        this.track(details.userId, 'api_write_request', properties);
+        const eventId = randomUUID();
+        const timestamp = new Date();
+        this.track(details.userId, details.eventName || 'api_write_request', properties, eventId);
+
+        // Record locally so the next call to this endpoint can be compared against this one
+        try {
+            await this.previousCallStore.record({
+                requestBody: properties.request_body,
+                responseBody: properties.response_body,
+                timestamp,
+                userId: details.userId,
+                eventId,
+                statusCode: details.statusCode,
+                duration: details.duration,
+                method: details.method,
+                path: details.path,
+                url: details.url,
+            });
+        } catch (error) {
+            this.logger.error(`❌ Failed to record write request locally: ${error.message}`);
+        }
+    }
+
+    /**
+     * Find the previous call for an endpoint
+     * Looks in the local store first; queries PostHog only if the queryFallback option is set
+     */
+    private async findPreviousCall(method: string, path: string, userId?: string): Promise<PreviousCall | null> {
+        try {
+            const previousCall = await this.previousCallStore.findPrevious(method, path, userId);
+            if (previousCall) {
+                return previousCall;
+            }
+        } catch (error) {
+            this.logger.error(`❌ Error reading previous call from local store: ${error.message}`);
+        }
+
+        if (!this.options.queryFallback) {
+            return null;
+        }
+
+        // Note: PostHog events need time to be processed and indexed before they're queryable
+        try {
+            return await this.getPreviousCallFromPostHog(method, path, userId);
+        } catch (error) {
+            this.logger.error(`❌ Error getting previous call from PostHog API: ${error.message}`);
+            return null;
+        }
     }
 
     /**
@@ -647,8 +760,11 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         duration: number;
         sessionId?: string;
         query?: any;
+        eventName?: string; // Defaults to api_request
+        properties?: Record<string, any>; // Extra properties (e.g. from @TrackEvent)
     }) {
         const properties: Record<string, any> = {
+            ...details.properties,
             method: details.method,
             path: details.path,
             url: details.url,
@@ -664,7 +780,7 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
 
         // Add query parameters if present (for GET requests)
         if (details.query && Object.keys(details.query).length > 0) {
-            properties.query_params = details.query;
+            properties.query_params = this.redactor.redact(details.query);
         }
 
         // Add response body (truncated for large responses)
@@ -683,7 +799,7 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
         }
 
         // Track event
-        this.track(details.userId, 'api_request', properties);
+        this.track(details.userId, details.eventName || 'api_request', properties);
     }
 
     /**
@@ -783,14 +899,6 @@ export class PosthogService implements OnModuleInit, OnModuleDestroy {
      */
     private sanitizeResponse(data: any): any {
         if (!data) return null;
-        const dataStr = JSON.stringify(data);
-        if (dataStr.length > 2000) {
-            return {
-                _truncated: true,
-                _size: dataStr.length,
-                preview: JSON.parse(dataStr.substring(0, 2000) + '...'),
-            };
-        }
-        return data;
+        return truncatePayload(this.redactor.redact(data), { maxBytes: this.options.maxResponseBodyBytes });
     }
 }
@@ -0,0 +1,86 @@
+import { Redactor } from './redactor';
+import { resolvePosthogOptions } from '../posthog.options';
+
+describe('Redactor', () => {
+    const defaults = () => new Redactor(resolvePosthogOptions({}).redaction);
+
+    describe('default keys', () => {
+        it.each(['password', 'currentPassword', 'new_password', 'token', 'accessToken', 'refresh_token', 'challenge_token', 'secret', 'clientSecret', 'client_secret', 'apiKey', 'x-api-key', 'authorization', 'cookie', 'cvv'])(
+            'redacts %s',
+            key => {
+                expect(defaults().redact({ [key]: 'value' })).toEqual({ [key]: '[REDACTED]' });
+            },
+        );
+
+        it.each(['tokenCount', 'tokenizer', 'secretary', 'secretsManagerRegion', 'cookieConsent', 'name', 'description'])('keeps %s', key => {
+            expect(defaults().redact({ [key]: 'value' })).toEqual({ [key]: 'value' });
+        });
+
+        it('redacts sensitive keys at any depth', () => {
+            expect(defaults().redact({ user: { profile: { accessToken: 'abc', tokenCount: 3 } } })).toEqual({
+                user: { profile: { accessToken: '[REDACTED]', tokenCount: 3 } },
+            });
+        });
+
+        it('redacts sensitive headers', () => {
+            expect(defaults().redactHeaders({ authorization: 'Bearer abc', 'x-refresh-token': 'abc', accept: 'application/json' })).toEqual({
+                authorization: '[REDACTED]',
+                'x-refresh-token': '[REDACTED]',
+                accept: 'application/json',
+            });
+        });
+    });
+
+    describe('paths and detectors', () => {
+        it('redacts configured paths', () => {
+            const redactor = new Redactor({ ...resolvePosthogOptions({}).redaction, paths: ['$.items[*].owner.email'] });
+
+            expect(redactor.redact({ items: [{ owner: { email: 'x', name: 'a' } }] })).toEqual({ items: [{ owner: { email: '[REDACTED]', name: 'a' } }] });
+        });
+
+        it('replaces emails and card numbers inside strings', () => {
+            expect(defaults().redactText('mail jane@example.com, card 4242 4242 4242 4242, order 1234567890123')).toBe(
+                'mail [REDACTED_EMAIL], card [REDACTED_CARD], order 1234567890123',
+            );
+        });
+
+        it('hashes values in hash mode', () => {
+            const redactor = new Redactor({ ...resolvePosthogOptions({}).redaction, mode: 'hash', hashSalt: 'salt' });
+            const first = redactor.redact({ password: 'a' });
+
+            expect(first.password).toMatch(/^\[HASHED:[0-9a-f]{12}\]$/);
+            expect(redactor.redact({ password: 'a' })).toEqual(first);
+        });
+
+        it('redacts a single field whatever its key', () => {
+            const redactor = new Redactor({ ...resolvePosthogOptions({}).redaction, mode: 'hash', hashSalt: 'salt' });
+
+            expect(defaults().redactField('203.0.113.7', 'ip')).toBe('[REDACTED_IP]');
+            expect(redactor.redactField('203.0.113.7', 'ip')).toMatch(/^\[HASHED_IP:[0-9a-f]{12}\]$/);
+            expect(redactor.redactField('203.0.113.7', 'ip')).toBe(redactor.redactField('203.0.113.7', 'ip'));
+        });
+
+        it.each([
+            ['Buffer', Buffer.from('binary')],
+            ['Uint8Array', new Uint8Array([1, 2, 3])],
+            ['ArrayBuffer', new ArrayBuffer(8)],
+            ['serialized Buffer', JSON.parse(JSON.stringify(Buffer.from('binary')))],
+        ])('keeps binary data (%s) whole', (_, binary) => {
+            const redacted = defaults().redact({ file: binary });
+
+            expect(redacted.file).toBe(binary);
+        });
+
+        it('still redacts binary data under a sensitive key', () => {
+            expect(defaults().redact({ secret: Buffer.from('binary') })).toEqual({ secret: '[REDACTED]' });
+        });
+
+        it('does not modify its input', () => {
+            const input = { password: 'a', nested: { token: 'b' } };
+
+            defaults().redact(input);
+
+            expect(input).toEqual({ password: 'a', nested: { token: 'b' } });
+        });
+    });
+});
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { getBinaryLength } from '../utils/truncate-payload';
+
+export type RedactionMode = 'mask' | 'hash';
+
+export type ValueDetector = 'email' | 'card' | 'bearer' | 'jwt';
+
+export interface RedactorOptions {
+    /** Keys redacted at any depth. Strings match case-insensitively, RegExps are tested against the key */
+    keys: (string | RegExp)[];
+    /** Exact locations to redact, e.g. "metadata.ssn", "$.items[*].owner.email" */
+    paths: string[];
+    /** Headers redacted entirely (case-insensitive) */
+    headers: string[];
+    /** Patterns replaced inside string values */
+    detectors: ValueDetector[];
+    /** mask: replace with a placeholder; hash: replace with a stable hash so values can still be correlated */
+    mode: RedactionMode;
+    /** Salt for hash mode */
+    hashSalt: string;
+}
+
+const REDACTED = '[REDACTED]';
+
+const DETECTOR_PATTERNS: Record<ValueDetector, RegExp> = {
+    bearer: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+    jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+    card: /\b\d(?:[ -]?\d){12,18}\b/g,
+};
+
+// Bearer tokens first so the JWT inside them is replaced as a whole
+const DETECTOR_ORDER: ValueDetector[] = ['bearer', 'jwt', 'email', 'card'];
+
+/**
+ * Removes PII and secrets from anything sent to PostHog: bodies, headers, query params, error messages and diffs.
+ * Never mutates its input.
+ */
+export class Redactor {
+    private readonly keyNames: Set<string>;
+    private readonly keyPatterns: RegExp[];
+    private readonly paths: string[][];
+    private readonly headers: Set<string>;
+
+    constructor(private readonly options: RedactorOptions) {
+        this.keyNames = new Set(options.keys.filter((key): key is string => typeof key === 'string').map(key => key.toLowerCase()));
+        this.keyPatterns = options.keys.filter((key): key is RegExp => key instanceof RegExp);
+        this.paths = options.paths.map(path => Redactor.parsePath(path));
+        this.headers = new Set(options.headers.map(header => header.toLowerCase()));
+    }
+
+    /**
+     * Deep-redact a value (object, array or primitive)
+     */
+    redact<T = any>(value: T): T {
+        return this.redactValue(value, [], new WeakSet());
+    }
+
+    /**
+     * Redact request headers: listed headers are replaced entirely, others are scanned like any value
+     */
+    redactHeaders(headers: Record<string, any>): Record<string, any> {
+        if (!headers) return null;
+
+        const redacted: Record<string, any> = {};
+        for (const [name, value] of Object.entries(headers)) {
+            redacted[name] = this.headers.has(name.toLowerCase()) || this.isSensitiveKey(name) ? this.replace(value) : this.redactValue(value, [name], new WeakSet());
+        }
+
+        return redacted;
+    }
+
+    /**
+     * Redact free text such as error messages and stack traces
+     */
+    redactText(text: string): string {
+        if (typeof text !== 'string') return text;
+
+        let result = text;
+        for (const detector of DETECTOR_ORDER) {
+            if (!this.options.detectors.includes(detector)) {
+                continue;
+            }
+            result = result.replace(DETECTOR_PATTERNS[detector], match => {
+                if (detector === 'card' && !Redactor.passesLuhn(match)) {
+                    return match;
+                }
+                return this.replace(match, detector);
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Redact a single value known to be sensitive, such as an IP address, whatever its key
+     */
+    redactField(value: any, label?: string): any {
+        return this.replace(value, label);
+    }
+
+    private redactValue(value: any, path: (string | number)[], seen: WeakSet<object>): any {
+        if (typeof value === 'string') {
+            return this.redactText(value);
+        }
+        if (value === null || typeof value !== 'object') {
+            return value;
+        }
+        // Binary data has no keys or text to redact; left whole so truncatePayload can summarize it
+        if (value instanceof Date || getBinaryLength(value) !== null) {
+            return value;
+        }
+        if (seen.has(value)) {
+            return '[Circular]';
+        }
+        seen.add(value);
+
+        if (Array.isArray(value)) {
+            return value.map((item, index) => this.redactChild(item, [...path, index], seen));
+        }
+
+        const redacted: Record<string, any> = {};
+        for (const [key, child] of Object.entries(value)) {
+            redacted[key] = this.redactChild(child, [...path, key], seen);
+        }
+
+        return redacted;
+    }
+
+    private redactChild(value: any, path: (string | number)[], seen: WeakSet<object>): any {
+        const key = path[path.length - 1];
+        if ((typeof key === 'string' && this.isSensitiveKey(key)) || this.matchesPath(path)) {
+            return this.replace(value);
+        }
+
+        return this.redactValue(value, path, seen);
+    }
+
+    private isSensitiveKey(key: string): boolean {
+        return this.keyNames.has(key.toLowerCase()) || this.keyPatterns.some(pattern => pattern.test(key));
+    }
+
+    private matchesPath(path: (string | number)[]): boolean {
+        return this.paths.some(rule => rule.length === path.length && rule.every((segment, i) => segment === '*' || segment === String(path[i])));
+    }
+
+    /**
+     * Replace a sensitive value with a placeholder or hash
+     */
+    private replace(value: any, label?: string): any {
+        if (value === null || value === undefined || value === '') {
+            return value;
+        }
+        // Already redacted (e.g. a body that went through the redactor before being stored)
+        if (typeof value === 'string' && /^\[(REDACTED|HASHED)[^\]]*\]$/.test(value)) {
+            return value;
+        }
+
+        const tag = label ? `_${label.toUpperCase()}` : '';
+        if (this.options.mode === 'hash') {
+            const serialized = typeof value === 'string' ? value : JSON.stringify(value);
+            const hash = createHash('sha256').update(this.options.hashSalt).update(serialized).digest('hex').substring(0, 12);
+            return `[HASHED${tag}:${hash}]`;
+        }
+
+        return tag ? `[REDACTED${tag}]` : REDACTED;
+    }
+
+    /**
+     * Parse "$.items[*].owner.email" into ['items', '*', 'owner', 'email']
+     */
+    private static parsePath(path: string): string[] {
+        return path
+            .replace(/^\$\.?/, '')
+            .replace(/\[(\*|\d+)\]/g, '.$1')
+            .split('.')
+            .filter(segment => segment.length > 0);
+    }
+
+    /**
+     * Luhn checksum, to avoid redacting ordinary long numbers as card numbers
+     */
+    private static passesLuhn(candidate: string): boolean {
+        const digits = candidate.replace(/\D/g, '');
+        let sum = 0;
+        for (let i = 0; i < digits.length; i++) {
+            let digit = parseInt(digits[digits.length - 1 - i], 10);
+            if (i % 2 === 1) {
+                digit *= 2;
+                if (digit > 9) digit -= 9;
+            }
+            sum += digit;
+        }
+        return sum % 10 === 0;
+    }
+}
@@ -0,0 +1,39 @@
+import { InMemoryPreviousCallStore } from './in-memory-previous-call.store';
+
+describe('InMemoryPreviousCallStore', () => {
+    let store: InMemoryPreviousCallStore;
+
+    beforeEach(() => {
+        store = new InMemoryPreviousCallStore();
+    });
+
+    it('returns the most recent call for the method and path', async () => {
+        await store.record({ method: 'POST', path: '/items', requestBody: { name: 'first' }, timestamp: new Date() });
+        await store.record({ method: 'POST', path: '/items', requestBody: { name: 'second' }, timestamp: new Date() });
+        await store.record({ method: 'PUT', path: '/items/:id', requestBody: { name: 'other' }, timestamp: new Date() });
+
+        const previous = await store.findPrevious('POST', '/items');
+
+        expect(previous.requestBody).toEqual({ name: 'second' });
+    });
+
+    it('only returns calls of the given user', async () => {
+        await store.record({ method: 'POST', path: '/items', userId: '1', requestBody: { name: 'mine' }, timestamp: new Date() });
+        await store.record({ method: 'POST', path: '/items', userId: '2', requestBody: { name: 'theirs' }, timestamp: new Date() });
+
+        expect((await store.findPrevious('POST', '/items', '1')).requestBody).toEqual({ name: 'mine' });
+        expect(await store.findPrevious('POST', '/items', '3')).toBeNull();
+    });
+
+    it('returns null when nothing was recorded', async () => {
+        expect(await store.findPrevious('POST', '/items')).toBeNull();
+    });
+
+    it('keeps only the last 1000 calls', async () => {
+        for (let i = 0; i < 1001; i++) {
+            await store.record({ method: 'POST', path: i === 0 ? '/oldest' : '/items', timestamp: new Date() });
+        }
+
+        expect(await store.findPrevious('POST', '/oldest')).toBeNull();
+    });
+});
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { PreviousCall, PreviousCallStore } from './previous-call.store';
+
+/**
+ * Non-persistent store, useful for tests and local runs without a database
+ */
+@Injectable()
+export class InMemoryPreviousCallStore extends PreviousCallStore {
+    private calls: PreviousCall[] = [];
+    private readonly MAX_SIZE = 1000; // Keep last 1000 calls
+
+    async record(call: PreviousCall): Promise<void> {
+        this.calls.push(call);
+
+        // Keep only last MAX_SIZE calls
+        if (this.calls.length > this.MAX_SIZE) {
+            this.calls = this.calls.slice(-this.MAX_SIZE);
+        }
+    }
+
+    async findPrevious(method: string, path: string, userId?: string): Promise<PreviousCall | null> {
+        for (let i = this.calls.length - 1; i >= 0; i--) {
+            const call = this.calls[i];
+            if (call.method === method && call.path === path && (!userId || call.userId === userId)) {
+                return call;
+            }
+        }
+
+        return null;
+    }
+
+    clear() {
+        this.calls = [];
+    }
+}
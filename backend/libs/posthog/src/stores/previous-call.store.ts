@@ -0,0 +1,34 @@
+/**
+ * A previously recorded api_write_request, used as the baseline for change detection
+ */
+export interface PreviousCall {
+    requestBody?: any;
+    responseBody?: any;
+    timestamp: Date;
+    userId?: string;
+    eventId?: string;
+    statusCode?: number;
+    duration?: number;
+    method?: string;
+    path?: string;
+    url?: string;
+}
+
+/**
+ * Storage for api_write_request history.
+ * Abstract class so it can be used directly as an injection token.
+ */
+export abstract class PreviousCallStore {
+    /**
+     * Record a sanitized write request
+     */
+    abstract record(call: PreviousCall): Promise<void>;
+
+    /**
+     * Find the most recent recorded call for an endpoint
+     * @param method - HTTP method
+     * @param path - Route path (e.g. /items/:id)
+     * @param userId - Restrict the lookup to calls made by this user
+     */
+    abstract findPrevious(method: string, path: string, userId?: string): Promise<PreviousCall | null>;
+}
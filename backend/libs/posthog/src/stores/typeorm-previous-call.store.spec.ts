@@ -0,0 +1,52 @@
+import { Logger } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { TypeOrmPreviousCallStore } from './typeorm-previous-call.store';
+import { ApiWriteRequest } from '../entities/api-write-request.entity';
+import { resolvePosthogOptions } from '../posthog.options';
+
+describe('TypeOrmPreviousCallStore', () => {
+    let repository: { delete: jest.Mock; findOne: jest.Mock };
+    let store: TypeOrmPreviousCallStore;
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+        jest.useFakeTimers({ now: new Date('2026-03-31T12:00:00.000Z') });
+        repository = { delete: jest.fn().mockResolvedValue({ affected: 3 }), findOne: jest.fn().mockResolvedValue(null) };
+        store = new TypeOrmPreviousCallStore(
+            repository as unknown as Repository<ApiWriteRequest>,
+            resolvePosthogOptions({ apiKey: 'phc_test', previousCallRetentionDays: 30 }),
+        );
+    });
+
+    afterEach(() => {
+        store.onModuleDestroy();
+        jest.useRealTimers();
+    });
+
+    it('deletes calls older than the retention window', async () => {
+        await expect(store.prune()).resolves.toBe(3);
+
+        const [{ createdAt }] = repository.delete.mock.calls[0];
+        expect(createdAt.type).toBe('lessThan');
+        expect(createdAt.value).toEqual(new Date('2026-03-01T12:00:00.000Z'));
+    });
+
+    it('prunes every hour once started', () => {
+        store.onModuleInit();
+
+        jest.advanceTimersByTime(60 * 60 * 1000);
+        expect(repository.delete).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps running when pruning fails', async () => {
+        repository.delete.mockRejectedValue(new Error('connection lost'));
+
+        await expect(store.prune()).resolves.toBe(0);
+    });
+
+    it('looks up the previous call of the given user only', async () => {
+        await store.findPrevious('POST', '/items', '7');
+
+        expect(repository.findOne.mock.calls[0][0].where).toEqual({ method: 'POST', path: '/items', userId: '7' });
+    });
+});
@@ -0,0 +1,100 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { ApiWriteRequest } from '../entities/api-write-request.entity';
+import { POSTHOG_MODULE_OPTIONS } from '../posthog.constants';
+import { ResolvedPosthogOptions } from '../posthog.options';
+import { PreviousCall, PreviousCallStore } from './previous-call.store';
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Keeps api_write_request history in the database.
+ * Rows older than previousCallRetentionDays are pruned hourly.
+ */
+@Injectable()
+export class TypeOrmPreviousCallStore extends PreviousCallStore implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(TypeOrmPreviousCallStore.name);
+    private pruneTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        @InjectRepository(ApiWriteRequest)
+        private readonly repository: Repository<ApiWriteRequest>,
+        @Inject(POSTHOG_MODULE_OPTIONS)
+        private readonly options: ResolvedPosthogOptions,
+    ) {
+        super();
+    }
+
+    onModuleInit() {
+        this.pruneTimer = setInterval(() => void this.prune(), PRUNE_INTERVAL_MS);
+        this.pruneTimer.unref();
+    }
+
+    onModuleDestroy() {
+        if (this.pruneTimer) {
+            clearInterval(this.pruneTimer);
+            this.pruneTimer = null;
+        }
+    }
+
+    /**
+     * Delete calls recorded before the retention window
+     * @returns Number of deleted rows
+     */
+    async prune(): Promise<number> {
+        const cutoff = new Date(Date.now() - this.options.previousCallRetentionDays * 24 * 60 * 60 * 1000);
+
+        try {
+            const result = await this.repository.delete({ createdAt: LessThan(cutoff) });
+            if (result.affected) {
+                this.logger.log(`🧹 Pruned ${result.affected} api_write_requests older than ${this.options.previousCallRetentionDays} days`);
+            }
+            return result.affected || 0;
+        } catch (error) {
+            this.logger.error(`❌ Failed to prune api_write_requests: ${error.message}`);
+            return 0;
+        }
+    }
+
+    async record(call: PreviousCall): Promise<void> {
+        const entry = this.repository.create({
+            eventId: call.eventId,
+            method: call.method,
+            path: call.path,
+            url: call.url,
+            userId: call.userId || null,
+            requestBody: call.requestBody ?? null,
+            responseBody: call.responseBody ?? null,
+            statusCode: call.statusCode,
+            durationMs: call.duration,
+            createdAt: call.timestamp,
+        });
+
+        await this.repository.save(entry);
+    }
+
+    async findPrevious(method: string, path: string, userId?: string): Promise<PreviousCall | null> {
+        const entry = await this.repository.findOne({
+            where: userId ? { method, path, userId } : { method, path },
+            order: { createdAt: 'DESC', id: 'DESC' },
+        });
+
+        if (!entry) {
+            return null;
+        }
+
+        return {
+            requestBody: entry.requestBody,
+            responseBody: entry.responseBody,
+            timestamp: entry.createdAt,
+            userId: entry.userId,
+            eventId: entry.eventId,
+            statusCode: entry.statusCode,
+            duration: entry.durationMs,
+            method: entry.method,
+            path: entry.path,
+            url: entry.url,
+        };
+    }
+}
@@ -0,0 +1,79 @@
+import { truncatePayload } from './truncate-payload';
+
+const byteSize = (value: any) => Buffer.byteLength(JSON.stringify(value), 'utf8');
+
+describe('truncatePayload', () => {
+    it('returns payloads within the budget unchanged', () => {
+        const payload = { name: 'item', tags: ['a', 'b'] };
+
+        expect(truncatePayload(payload, { maxBytes: 1000 })).toBe(payload);
+    });
+
+    it('passes null and undefined through', () => {
+        expect(truncatePayload(null, { maxBytes: 10 })).toBeNull();
+        expect(truncatePayload(undefined, { maxBytes: 10 })).toBeUndefined();
+    });
+
+    it('shrinks a huge item list to valid JSON within the budget', () => {
+        const items = Array.from({ length: 10000 }, (_, i) => ({ id: i, name: `Item ${i}`, description: 'x'.repeat(200), metadata: { color: 'red' } }));
+
+        const result = truncatePayload({ data: items, total: items.length }, { maxBytes: 2000 });
+
+        expect(result._truncated).toBe(true);
+        expect(result._size).toBe(byteSize({ data: items, total: items.length }));
+        expect(byteSize(result)).toBeLessThanOrEqual(2000 + 1000);
+        expect(byteSize(result.preview)).toBeLessThanOrEqual(2000);
+        expect(result.preview.total).toBe(10000);
+        expect(result.preview.data[0].id).toBe(0);
+        expect(result.preview.data[result.preview.data.length - 1]).toMatch(/^\[\d+ more items\]$/);
+        expect(() => JSON.parse(JSON.stringify(result))).not.toThrow();
+    });
+
+    it('caps the list of elided paths', () => {
+        const items = Array.from({ length: 100 }, () => ({ text: 'y'.repeat(1000) }));
+
+        const result = truncatePayload(items, { maxBytes: 5000, maxArrayLength: 100 });
+
+        expect(result._elided_paths.length).toBeLessThanOrEqual(21);
+    });
+
+    it('cuts long strings', () => {
+        const result = truncatePayload({ description: 'z'.repeat(5000) }, { maxBytes: 1000 });
+
+        expect(result.preview.description).toMatch(/^z+… \[\d+ more chars\]$/);
+        expect(result._elided_paths).toContain('$.description');
+    });
+
+    it.each([
+        ['Buffer', Buffer.alloc(1024 * 1024)],
+        ['Uint8Array', new Uint8Array(1024 * 1024)],
+        ['serialized Buffer', JSON.parse(JSON.stringify(Buffer.alloc(1024 * 1024)))],
+    ])('summarizes binary data (%s)', (_, binary) => {
+        const result = truncatePayload({ name: 'upload', file: binary }, { maxBytes: 1000 });
+
+        expect(result.preview).toEqual({ name: 'upload', file: `[Binary ${1024 * 1024} bytes]` });
+        expect(result._elided_paths).toEqual(['$.file']);
+    });
+
+    it('summarizes a binary payload', () => {
+        const result = truncatePayload(Buffer.alloc(5000), { maxBytes: 1000 });
+
+        expect(result.preview).toBe('[Binary 5000 bytes]');
+    });
+
+    it('handles circular references', () => {
+        const payload: any = { name: 'a'.repeat(2000) };
+        payload.self = payload;
+
+        const result = truncatePayload(payload, { maxBytes: 1000 });
+
+        expect(result._size).toBeNull();
+        expect(result.preview.self).toBe('[Circular]');
+    });
+
+    it('does not truncate a payload twice', () => {
+        const once = truncatePayload({ text: 'q'.repeat(5000) }, { maxBytes: 1000 });
+
+        expect(truncatePayload(once, { maxBytes: 1000 })).toBe(once);
+    });
+});
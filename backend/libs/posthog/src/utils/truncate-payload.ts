@@ -0,0 +1,202 @@
+export interface TruncateOptions {
+    /** Target size of the serialized result in bytes */
+    maxBytes: number;
+    /** Initial per-string limit (halved until the payload fits) */
+    maxStringLength?: number;
+    /** Initial per-array limit (halved until the payload fits) */
+    maxArrayLength?: number;
+    /** Initial nesting limit (reduced until the payload fits) */
+    maxDepth?: number;
+    /** Initial per-object key limit (halved until the payload fits) */
+    maxKeys?: number;
+}
+
+/**
+ * Shape of a payload that had to be truncated
+ */
+export interface TruncatedPayload {
+    _truncated: true;
+    /** Size of the original payload in bytes (null if it could not be serialized) */
+    _size: number | null;
+    /** Paths where data was cut (capped at MAX_ELIDED_PATHS) */
+    _elided_paths: string[];
+    preview: any;
+}
+
+const MAX_ELIDED_PATHS = 20;
+const MAX_PASSES = 12;
+
+interface Limits {
+    string: number;
+    array: number;
+    depth: number;
+    keys: number;
+}
+
+/**
+ * Shrink a payload to a byte budget while keeping it valid JSON.
+ * Payloads within budget are returned unchanged; larger ones are trimmed structurally
+ * (long strings, long arrays, deep nesting, binary data) and wrapped in a TruncatedPayload.
+ */
+export function truncatePayload(value: any, options: TruncateOptions): any {
+    if (value === null || value === undefined) {
+        return value;
+    }
+    // Already truncated (e.g. a stored previous call being attached again)
+    if (value._truncated === true && 'preview' in value) {
+        return value;
+    }
+
+    const originalSize = byteSize(value);
+    if (originalSize <= options.maxBytes) {
+        return value;
+    }
+
+    const limits: Limits = {
+        string: options.maxStringLength ?? 500,
+        array: options.maxArrayLength ?? 50,
+        depth: options.maxDepth ?? 8,
+        keys: options.maxKeys ?? 100,
+    };
+
+    let elided: string[] = [];
+    let preview: any;
+
+    // Tighten limits until the preview fits
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        elided = [];
+        preview = shrink(value, '$', 0, limits, elided, new WeakSet());
+        if (byteSize(preview) <= options.maxBytes) {
+            break;
+        }
+
+        limits.string = Math.max(16, Math.floor(limits.string / 2));
+        limits.array = Math.max(1, Math.floor(limits.array / 2));
+        limits.depth = Math.max(1, limits.depth - 1);
+        limits.keys = Math.max(1, Math.floor(limits.keys / 2));
+        preview = undefined;
+    }
+
+    // Still too large even at the tightest limits: keep a summary only
+    if (preview === undefined) {
+        elided = ['$'];
+        preview = describe(value);
+    }
+
+    const result: TruncatedPayload = {
+        _truncated: true,
+        _size: Number.isFinite(originalSize) ? originalSize : null,
+        _elided_paths: elided.slice(0, MAX_ELIDED_PATHS),
+        preview,
+    };
+    if (elided.length > MAX_ELIDED_PATHS) {
+        result._elided_paths.push(`... ${elided.length - MAX_ELIDED_PATHS} more`);
+    }
+
+    return result;
+}
+
+function shrink(value: any, path: string, depth: number, limits: Limits, elided: string[], seen: WeakSet<object>): any {
+    if (typeof value === 'string') {
+        if (value.length <= limits.string) {
+            return value;
+        }
+        elided.push(path);
+        return `${value.substring(0, limits.string)}… [${value.length - limits.string} more chars]`;
+    }
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (typeof value === 'function' || typeof value === 'symbol') {
+        return undefined;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (value instanceof Date) {
+        return value;
+    }
+
+    // Binary data is never useful in analytics events
+    const binaryLength = getBinaryLength(value);
+    if (binaryLength !== null) {
+        elided.push(path);
+        return `[Binary ${binaryLength} bytes]`;
+    }
+
+    if (seen.has(value)) {
+        return '[Circular]';
+    }
+    if (depth >= limits.depth) {
+        elided.push(path);
+        return describe(value);
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+        const items = value.slice(0, limits.array).map((item, index) => shrink(item, `${path}[${index}]`, depth + 1, limits, elided, seen));
+        if (value.length > limits.array) {
+            elided.push(`${path}[${limits.array}:${value.length}]`);
+            items.push(`[${value.length - limits.array} more items]`);
+        }
+        seen.delete(value);
+        return items;
+    }
+
+    // Honour toJSON (e.g. class instances with custom serialization)
+    if (typeof value.toJSON === 'function') {
+        const json = value.toJSON();
+        seen.delete(value);
+        return shrink(json, path, depth, limits, elided, seen);
+    }
+
+    const entries = Object.entries(value);
+    const result: Record<string, any> = {};
+    for (const [key, child] of entries.slice(0, limits.keys)) {
+        result[key] = shrink(child, `${path}.${key}`, depth + 1, limits, elided, seen);
+    }
+    if (entries.length > limits.keys) {
+        elided.push(`${path}.{${limits.keys}:${entries.length}}`);
+    }
+    seen.delete(value);
+
+    return result;
+}
+
+/**
+ * Byte length of binary data (Buffer, typed array, ArrayBuffer or a serialized Buffer), null for anything else
+ */
+export function getBinaryLength(value: any): number | null {
+    if (Buffer.isBuffer(value) || ArrayBuffer.isView(value)) {
+        return value.byteLength;
+    }
+    if (value === null || typeof value !== 'object') {
+        return null;
+    }
+    if (value instanceof ArrayBuffer) {
+        return value.byteLength;
+    }
+    // Buffer after a JSON round trip
+    if (value.type === 'Buffer' && Array.isArray(value.data)) {
+        return value.data.length;
+    }
+    return null;
+}
+
+function describe(value: any): string {
+    if (Array.isArray(value)) {
+        return `[Array(${value.length})]`;
+    }
+    return `[Object with ${Object.keys(value).length} keys]`;
+}
+
+/**
+ * Serialized size in bytes; unserializable values (e.g. circular) count as infinitely large
+ */
+function byteSize(value: any): number {
+    try {
+        return Buffer.byteLength(JSON.stringify(value) ?? '', 'utf8');
+    } catch {
+        return Infinity;
+    }
+}
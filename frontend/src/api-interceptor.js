@@ -5,7 +5,7 @@
 
 import { getSessionId } from './posthog-config.js';
 import { captureApiError } from './error-handler.js';
-import { getAuthHeader, requireAuth } from './auth.js';
+import { getAuthHeader, refreshAuth, requireAuth } from './auth.js';
 
 /**
  * Setup fetch interceptor to include session ID
@@ -34,10 +34,19 @@ export function setupApiInterceptor() {
     
     // Make the request with updated headers
     try {
-      const response = await originalFetch(url, {
+      let response = await originalFetch(url, {
         ...options,
         headers,
       });
+
+      // Access tokens are short-lived: refresh once and retry (auth endpoints handle 401 themselves)
+      if (response.status === 401 && !String(url).startsWith('/auth/') && (await refreshAuth())) {
+        headers.set('Authorization', getAuthHeader().Authorization);
+        response = await originalFetch(url, {
+          ...options,
+          headers,
+        });
+      }
       
       // If response is an error, capture it
       if (!response.ok) {
@@ -3,7 +3,10 @@
  * Handles user authentication and protected route access
  */
 
+import { getDistinctId, identifyUser, resetUser } from './posthog-config.js';
+
 const AUTH_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
 const USER_KEY = 'user';
 
 /**
@@ -13,6 +16,13 @@ export function getAuthToken() {
   return localStorage.getItem(AUTH_TOKEN_KEY);
 }
 
+/**
+ * Get refresh token from storage
+ */
+export function getRefreshToken() {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
 /**
  * Get current user from storage
  */
@@ -31,9 +41,13 @@ export function isAuthenticated() {
 /**
  * Save authentication data
  */
-export function setAuth(token, user) {
+export function setAuth(token, user, refreshToken) {
   localStorage.setItem(AUTH_TOKEN_KEY, token);
   localStorage.setItem(USER_KEY, JSON.stringify(user));
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  identifyUser(user?.id);
 }
 
 /**
@@ -41,7 +55,9 @@ export function setAuth(token, user) {
  */
 export function clearAuth() {
   localStorage.removeItem(AUTH_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
   localStorage.removeItem(USER_KEY);
+  resetUser();
 }
 
 /**
@@ -55,7 +71,7 @@ export async function login(email, password) {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ email, password }),
+      body: JSON.stringify({ email, password, anonymousId: getDistinctId() || undefined }),
     });
 
     if (!response.ok) {
@@ -64,13 +80,38 @@ export async function login(email, password) {
     }
 
     const data = await response.json();
-    setAuth(data.access_token, data.user);
+    // Accounts with two-factor authentication get a challenge for loginWithTwoFactor() instead of tokens
+    if (!data.twoFactorRequired) {
+      setAuth(data.access_token, data.user, data.refresh_token);
+    }
     return data;
   } catch (error) {
     throw error;
   }
 }
 
+/**
+ * Complete a login with a code from the authenticator app (or a recovery code)
+ */
+export async function loginWithTwoFactor(challengeToken, code) {
+  const response = await fetch('/auth/login/2fa', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ challenge_token: challengeToken, code, anonymousId: getDistinctId() || undefined }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Login failed');
+  }
+
+  const data = await response.json();
+  setAuth(data.access_token, data.user, data.refresh_token);
+  return data;
+}
+
 /**
  * Register user
  * Uses relative path which will be proxied by Vite to auth service
@@ -82,7 +123,7 @@ export async function register(email, password, name) {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ email, password, name }),
+      body: JSON.stringify({ email, password, name, anonymousId: getDistinctId() || undefined }),
     });
 
     if (!response.ok) {
@@ -91,17 +132,73 @@ export async function register(email, password, name) {
     }
 
     const data = await response.json();
-    setAuth(data.access_token, data.user);
+    setAuth(data.access_token, data.user, data.refresh_token);
     return data;
   } catch (error) {
     throw error;
   }
 }
 
+let refreshPromise = null;
+
+/**
+ * Exchange the refresh token for a new token pair
+ * Concurrent callers share one request, since each refresh token can only be used once
+ * Returns false when the session cannot be refreshed
+ */
+export function refreshAuth() {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    return Promise.resolve(false);
+  }
+
+  if (!refreshPromise) {
+    refreshPromise = fetch('/auth/refresh', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          clearAuth();
+          return false;
+        }
+
+        const data = await response.json();
+        setAuth(data.access_token, data.user, data.refresh_token);
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
 /**
  * Logout user
+ * Revokes the refresh token on the server before clearing local data
  */
-export function logout() {
+export async function logout() {
+  const refreshToken = getRefreshToken();
+  if (refreshToken) {
+    try {
+      await fetch('/auth/logout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      });
+    } catch (error) {
+      // Local data is cleared anyway
+    }
+  }
+
   clearAuth();
   window.location.href = '/login.html';
 }
@@ -140,12 +237,15 @@ export function checkAuth() {
 
 export default {
   getAuthToken,
+  getRefreshToken,
   getCurrentUser,
   isAuthenticated,
   setAuth,
   clearAuth,
   login,
+  loginWithTwoFactor,
   register,
+  refreshAuth,
   logout,
   getAuthHeader,
   requireAuth,
@@ -82,6 +82,39 @@ export function getPostHog() {
   return posthog;
 }
 
+/**
+ * Get the distinct id of this browser, sent on login so the backend can merge it into the user
+ */
+export function getDistinctId() {
+  if (!initPostHog()) {
+    return null;
+  }
+
+  try {
+    return posthog.get_distinct_id() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Use the user id as distinct id from now on, the same id the backend tracks the user with
+ */
+export function identifyUser(userId) {
+  if (posthogInitialized && userId) {
+    posthog.identify(String(userId));
+  }
+}
+
+/**
+ * Go back to a new anonymous distinct id, so the next user of this browser is not merged into the previous one
+ */
+export function resetUser() {
+  if (posthogInitialized) {
+    posthog.reset();
+  }
+}
+
 /**
  * Start session recording manually
  * Sets the error flag so PostHog will record this session